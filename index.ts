@@ -3,18 +3,24 @@
  */
 
 // High-level XLSX API
-export { writeXlsx } from './src/xlsx/writer';
+export { writeXlsx, writeXlsxToWritable, writeXlsxToBytes, writeXlsxToStream, writeXlsxToBuffer } from './src/xlsx/writer';
 export { readXlsx } from './src/xlsx/reader';
 export { Workbook, Sheet } from './src/xlsx/workbook';
-export type { WorkbookDefinition, SheetDefinition, WriterOptions, WorkbookProperties } from './src/xlsx/types';
+export type { WorkbookDefinition, SheetDefinition, WriterOptions, ReadOptions, WorkbookProperties, XlsxSource, DateTimezone, MergedCellDefinition, SheetViewDefinition, TableDefinition, TableColumnDefinition, TableTotalsRowFunction, DataValidationDefinition, DataValidationOperator, DataValidationValue, ConditionalFormatDefinition, ConditionalFormatOperator, ConditionalFormatThreshold, ConditionalFormatIconSet, CommentDefinition, ImageDefinition, ChartDefinition, ChartType, ChartSeriesDefinition, ChartAxisDefinition } from './src/xlsx/types';
+
+// HTTP download helpers
+export { workbookToResponse, rowsToResponse } from './src/adapters/bun';
+export { workbookToServerResponse } from './src/adapters/node';
+export type { XlsxDownloadOptions } from './src/adapters/common';
 
 // Cell and Row factories
-export { cell, cellFromString, cellFromNumber, cellFromDate, cellFromBoolean, cellFromNull } from './src/sheet/cell';
+export { cell, cellFromString, cellFromNumber, cellFromDate, cellFromBoolean, cellFromFormula, cellFromHyperlink, cellFromRichText, cellFromDuration, cellFromNull, dateToExcelSerial } from './src/sheet/cell';
+export type { DateSerialOptions } from './src/sheet/cell';
 export { row } from './src/sheet/row';
 export type { RowOptions } from './src/sheet/row';
 
 // Core types
-export type { Cell, Row, CellResolved } from './src/types';
+export type { Cell, Row, CellResolved, Hyperlink, RichTextRun, Style, FontStyle, FillStyle, FillPattern, BorderStyle, BorderEdge, BorderLineStyle, AlignmentStyle } from './src/types';
 
 // Utility functions
 export { mapRows, filterRows, limitRows, collect } from './src/utils/transforms';
@@ -1,10 +1,18 @@
+import { Writable } from 'stream';
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
 import { describe, test, expect } from '@tests/framework';
+import { rowsToResponse, workbookToResponse } from './bun';
 import {
+  contentDisposition,
+  sanitizeFilename,
   stringToBytes,
+  stringsToBytes,
   bytesToString,
   bytesToUint8Array,
   uint8ArrayToBytes,
 } from './common';
+import { workbookToServerResponse } from './node';
 
 describe('Common Adapters', () => {
   describe('stringToBytes', () => {
@@ -25,6 +33,20 @@ describe('Common Adapters', () => {
     });
   });
 
+  describe('stringsToBytes', () => {
+    test('should batch small strings into larger chunks', async () => {
+      const strings = async function* () {
+        for (let i = 0; i < 10; i++) yield 'abcd';
+      }();
+      const result: Uint8Array[] = [];
+      for await (const chunk of stringsToBytes(strings, 16)) {
+        result.push(chunk);
+      }
+      expect(result).toHaveLength(3);
+      expect(result.map((chunk) => new TextDecoder().decode(chunk)).join('')).toBe('abcd'.repeat(10));
+    });
+  });
+
   describe('bytesToString', () => {
     test('should convert AsyncIterable<Uint8Array> to string', async () => {
       const bytes = async function* () {
@@ -59,4 +81,126 @@ describe('Common Adapters', () => {
       expect(result[0]).toEqual(data);
     });
   });
+
+  describe('sanitizeFilename', () => {
+    test('should append .xlsx extension when missing', () => {
+      expect(sanitizeFilename('report')).toBe('report.xlsx');
+      expect(sanitizeFilename('report.XLSX')).toBe('report.XLSX');
+    });
+
+    test('should strip directories and unsafe characters', () => {
+      expect(sanitizeFilename('../../etc/passwd')).toBe('passwd.xlsx');
+      expect(sanitizeFilename('C:\\temp\\a"b<c>.xlsx')).toBe('abc.xlsx');
+      expect(sanitizeFilename('line\r\nbreak.xlsx')).toBe('linebreak.xlsx');
+    });
+
+    test('should fall back to a default name', () => {
+      expect(sanitizeFilename(undefined)).toBe('workbook.xlsx');
+      expect(sanitizeFilename('  ')).toBe('workbook.xlsx');
+    });
+  });
+
+  describe('contentDisposition', () => {
+    test('should include ASCII fallback and UTF-8 encoded filename', () => {
+      const header = contentDisposition('Übersicht 2024');
+      expect(header).toBe('attachment; filename="_bersicht 2024.xlsx"; filename*=UTF-8\'\'%C3%9Cbersicht%202024.xlsx');
+    });
+  });
+
+  describe('workbookToResponse', () => {
+    const rows = () => (async function* () {
+      yield row([cell('Name'), cell('Age')]);
+      yield row([cell('Alice'), cell(30)]);
+    })();
+
+    test('should stream a complete workbook with download headers', async () => {
+      const response = workbookToResponse(
+        { sheets: [{ name: 'Data', rows: rows() }] },
+        { filename: 'people' },
+      );
+
+      expect(response.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      expect(response.headers.get('Content-Disposition')).toContain('filename="people.xlsx"');
+
+      const body = new Uint8Array(await response.arrayBuffer());
+      const { openZip } = await import('@zip/reader');
+      const zipFile = await openZip(Buffer.from(body));
+      const fileNames = zipFile.entries.map((e) => e.fileName);
+      expect(fileNames).toContain('xl/workbook.xml');
+      expect(fileNames).toContain('xl/worksheets/sheet1.xml');
+      zipFile.zipFile.close();
+    });
+
+    test('should wrap rows in a single-sheet workbook', async () => {
+      const response = rowsToResponse(rows(), { sheetName: 'People' });
+      const body = new Uint8Array(await response.arrayBuffer());
+      const { openZip, readZipEntry } = await import('@zip/reader');
+      const zipFile = await openZip(Buffer.from(body));
+      const workbookEntry = zipFile.entries.find((e) => e.fileName === 'xl/workbook.xml')!;
+      expect(await bytesToString(readZipEntry(workbookEntry, zipFile.zipFile))).toContain('name="People"');
+      zipFile.zipFile.close();
+    });
+  });
+
+  describe('workbookToServerResponse', () => {
+    test('should set headers and end the response with a workbook', async () => {
+      const headers: Record<string, string> = {};
+      const received: Buffer[] = [];
+      const res = new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          received.push(chunk);
+          callback();
+        },
+      });
+      Object.assign(res, {
+        headersSent: false,
+        setHeader: (name: string, value: string) => {
+          headers[name] = value;
+        },
+      });
+
+      await workbookToServerResponse(
+        res as never,
+        { sheets: [{ name: 'Data', rows: (async function* () { yield row([cell('x')]); })() }] },
+        { filename: 'export.xlsx' },
+      );
+
+      expect(headers['Content-Disposition']).toContain('filename="export.xlsx"');
+      expect(res.writableEnded).toBe(true);
+      expect(Buffer.concat(received).slice(0, 2).toString('ascii')).toBe('PK');
+    });
+
+    test('should reject invalid workbooks before setting headers', async () => {
+      const headers: Record<string, string> = {};
+      const res = Object.assign(new Writable({ write: (_c, _e, cb) => cb() }), {
+        headersSent: false,
+        setHeader: (name: string, value: string) => {
+          headers[name] = value;
+        },
+      });
+
+      await expect(workbookToServerResponse(
+        res as never,
+        { sheets: [{ name: 'Bad/Name', rows: (async function* () {})() }] },
+      )).rejects.toThrow();
+      expect(Object.keys(headers)).toHaveLength(0);
+    });
+
+    test('should reject a response whose headers were already sent', async () => {
+      let written = false;
+      const res = Object.assign(new Writable({ write: (_c, _e, cb) => { written = true; cb(); } }), {
+        headersSent: true,
+        setHeader: () => {
+          throw new Error('Headers already sent');
+        },
+      });
+
+      await expect(workbookToServerResponse(
+        res as never,
+        { sheets: [{ name: 'Data', rows: (async function* () { yield row([cell('x')]); })() }] },
+      )).rejects.toThrow('Response headers were already sent');
+      expect(written).toBe(false);
+      expect(res.writableEnded).toBe(false);
+    });
+  });
 });
@@ -1,4 +1,7 @@
-import { writeSheetXml } from '@xml/writer';
+import type { Writable } from 'stream';
+import type { WorkbookDefinition } from '@xlsx/types';
+import { writeXlsxToStream } from '@xlsx/writer';
+import { contentDisposition, XLSX_CONTENT_TYPE, type XlsxDownloadOptions } from './common';
 import type { Row } from '../types';
 
 /**
@@ -23,45 +26,38 @@ export function stringToReadableStream(
 }
 
 /**
- * Creates a Bun Response from rows
+ * Creates a Bun Response that downloads a complete XLSX workbook
+ * The workbook is streamed as the response body is consumed.
+ * @throws {z.ZodError} If workbook validation fails (before the response is created)
  */
-export function rowsToResponse(rows: AsyncIterable<Row>): Response {
-  const xmlStream = writeSheetXml(rows);
-  const bytesStream = stringToReadableStream(xmlStream);
-  return new Response(bytesStream, {
+export function workbookToResponse(
+  definition: WorkbookDefinition,
+  options?: XlsxDownloadOptions,
+): Response {
+  const body = writeXlsxToStream(definition, options?.writerOptions);
+  return new Response(body, {
     headers: {
-      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Type': XLSX_CONTENT_TYPE,
+      'Content-Disposition': contentDisposition(options?.filename),
     },
   });
 }
 
 /**
- * Converts Blob to AsyncIterable<Uint8Array>
+ * Creates a Bun Response that downloads rows as a single-sheet XLSX workbook
  */
-export async function* blobToBytes(blob: Blob): AsyncIterable<Uint8Array> {
-  const buffer = await blob.arrayBuffer();
-  yield new Uint8Array(buffer);
+export function rowsToResponse(
+  rows: AsyncIterable<Row>,
+  options?: XlsxDownloadOptions & { sheetName?: string },
+): Response {
+  return workbookToResponse(
+    { sheets: [{ name: options?.sheetName ?? 'Sheet1', rows }] },
+    options,
+  );
 }
 
-/**
- * Converts ReadableStream to AsyncIterable<Uint8Array>
- */
-export async function* readableStreamToBytes(
-  stream: ReadableStream<Uint8Array>,
-): AsyncIterable<Uint8Array> {
-  const reader = stream.getReader();
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      if (value) {
-        yield value;
-      }
-    }
-  } finally {
-    reader.releaseLock();
-  }
-}
+// Runtime-agnostic stream helpers, re-exported for existing Bun adapter users
+export { blobToBytes, readableStreamToBytes } from './common';
 
 /**
  * Writes a buffer to a file (Bun implementation)
@@ -70,6 +66,15 @@ export async function writeFile(filePath: string, buffer: Uint8Array | Buffer):
   await Bun.write(filePath, buffer);
 }
 
+/**
+ * Opens a writable file stream (Bun implementation)
+ * Uses Bun's node:fs compatibility so the result can be used with stream pipelines
+ */
+export async function createFileWriteStream(filePath: string): Promise<Writable> {
+  const { createWriteStream } = await import('fs');
+  return createWriteStream(filePath);
+}
+
 /**
  * Reads a file to a Buffer (Bun implementation)
  */
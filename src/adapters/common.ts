@@ -1,6 +1,28 @@
 /**
  * Common adapter utilities for converting between different data formats
  */
+import type { Readable } from 'stream';
+import type { WriterOptions } from '@xlsx/types';
+
+/**
+ * MIME type of XLSX workbooks
+ */
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Options for serving a workbook as a file download
+ */
+export interface XlsxDownloadOptions {
+  /**
+   * Download filename. Sanitized and given an .xlsx extension if missing.
+   * @default 'workbook.xlsx'
+   */
+  filename?: string;
+  /**
+   * Options passed to the XLSX writer
+   */
+  writerOptions?: WriterOptions;
+}
 
 /**
  * Converts a string to AsyncIterable<Uint8Array>
@@ -9,6 +31,32 @@ export async function* stringToBytes(str: string): AsyncIterable<Uint8Array> {
   yield new TextEncoder().encode(str);
 }
 
+/**
+ * Converts AsyncIterable<string> to AsyncIterable<Uint8Array>
+ * Small strings are batched until roughly chunkSize characters are pending, so producers
+ * that yield many tiny fragments (e.g. one per row) don't turn into one tiny write each.
+ */
+export async function* stringsToBytes(
+  strings: AsyncIterable<string>,
+  chunkSize: number = 64 * 1024,
+): AsyncIterable<Uint8Array> {
+  const encoder = new TextEncoder();
+  let pending: string[] = [];
+  let pendingLength = 0;
+  for await (const str of strings) {
+    pending.push(str);
+    pendingLength += str.length;
+    if (pendingLength >= chunkSize) {
+      yield encoder.encode(pending.join(''));
+      pending = [];
+      pendingLength = 0;
+    }
+  }
+  if (pendingLength > 0) {
+    yield encoder.encode(pending.join(''));
+  }
+}
+
 /**
  * Converts AsyncIterable<Uint8Array> to a string
  */
@@ -49,6 +97,58 @@ export async function bytesToUint8Array(
   return result;
 }
 
+/**
+ * Converts AsyncIterable<Uint8Array> to a web ReadableStream
+ * Chunks are pulled on demand, so a slow consumer applies backpressure to the producer.
+ * Cancelling the stream stops the underlying iterator.
+ */
+export function bytesToReadableStream(
+  bytes: AsyncIterable<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  const iterator = bytes[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Converts Blob to AsyncIterable<Uint8Array>
+ */
+export async function* blobToBytes(blob: Blob): AsyncIterable<Uint8Array> {
+  const buffer = await blob.arrayBuffer();
+  yield new Uint8Array(buffer);
+}
+
+/**
+ * Converts ReadableStream to AsyncIterable<Uint8Array>
+ */
+export async function* readableStreamToBytes(
+  stream: ReadableStream<Uint8Array>,
+): AsyncIterable<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value) {
+        yield value;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 /**
  * Converts Uint8Array to AsyncIterable<Uint8Array>
  */
@@ -57,3 +157,48 @@ export async function* uint8ArrayToBytes(
 ): AsyncIterable<Uint8Array> {
   yield data;
 }
+
+/**
+ * Converts Node.js Readable stream to AsyncIterable<Uint8Array>
+ */
+export function nodeStreamToBytes(
+  stream: Readable,
+): AsyncIterable<Uint8Array> {
+  return (async function* () {
+    for await (const chunk of stream) {
+      yield new Uint8Array(chunk);
+    }
+  })();
+}
+
+/**
+ * Makes a user-supplied filename safe for use in a download
+ * Strips directories, control characters and characters that are invalid in filenames
+ * on common platforms, and ensures an .xlsx extension.
+ */
+export function sanitizeFilename(filename: string | undefined): string {
+  const baseName = (filename ?? '').split(/[/\\]/).pop() ?? '';
+  const cleaned = baseName
+    // eslint-disable-next-line no-control-regex -- Control characters are never valid in filenames
+    .replace(/[\x00-\x1F\x7F"<>:|?*]/g, '')
+    .trim()
+    .replace(/^\.+/, '');
+  const name = cleaned === '' ? 'workbook' : cleaned;
+  const withExtension = /\.xlsx$/i.test(name) ? name : `${name}.xlsx`;
+  // Keep the result within common filesystem limits, preserving the extension
+  return withExtension.length > 255
+    ? `${withExtension.slice(0, 250)}.xlsx`
+    : withExtension;
+}
+
+/**
+ * Builds a Content-Disposition header value for downloading a workbook
+ * Includes an ASCII fallback filename and an RFC 5987 encoded UTF-8 filename.
+ */
+export function contentDisposition(filename: string | undefined): string {
+  const safeName = sanitizeFilename(filename);
+  const asciiName = safeName.replace(/[^\x20-\x7E]/g, '_');
+  const encodedName = encodeURIComponent(safeName)
+    .replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
@@ -1,6 +1,7 @@
 /*
  * Runtime detection and adapter exports
  */
+import type { Writable } from 'stream';
 
 const isBun = typeof Bun !== 'undefined';
 const isNode = typeof process !== 'undefined' && process.versions?.node;
@@ -20,6 +21,21 @@ export async function writeFile(filePath: string, buffer: Uint8Array | Buffer):
   }
 }
 
+/**
+ * Opens a writable file stream using the appropriate runtime adapter
+ */
+export async function createFileWriteStream(filePath: string): Promise<Writable> {
+  if (isBun) {
+    const { createFileWriteStream } = await import('./bun');
+    return createFileWriteStream(filePath);
+  } else if (isNode) {
+    const { createFileWriteStream } = await import('./node');
+    return createFileWriteStream(filePath);
+  } else {
+    throw new Error('Unsupported runtime. This library requires Bun or Node.js.');
+  }
+}
+
 /**
  * Reads a file to a Buffer using the appropriate runtime adapter
  */
@@ -1,5 +1,10 @@
-import { Readable } from 'stream';
+import type { ServerResponse } from 'http';
+import { Readable, type Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { WorkbookDefinition } from '@xlsx/types';
+import { writeXlsxToBytes } from '@xlsx/writer';
 import { writeSheetXml } from '@xml/writer';
+import { contentDisposition, XLSX_CONTENT_TYPE, type XlsxDownloadOptions } from './common';
 import type { Row } from '../types';
 
 /**
@@ -25,17 +30,29 @@ export function rowsToNodeStream(rows: AsyncIterable<Row>): Readable {
   return stringToNodeStream(xmlStream);
 }
 
+// Runtime-agnostic stream helper, re-exported for existing Node adapter users
+export { nodeStreamToBytes } from './common';
+
 /**
- * Converts Node.js Readable stream to AsyncIterable<Uint8Array>
+ * Streams a complete XLSX workbook into a Node.js HTTP response as a file download
+ * Sets Content-Type and Content-Disposition and ends the response when the workbook is complete.
+ * @throws {Error} If the response headers were already sent (before anything is written)
+ * @throws {z.ZodError} If workbook validation fails (before anything is written)
  */
-export function nodeStreamToBytes(
-  stream: Readable,
-): AsyncIterable<Uint8Array> {
-  return (async function* () {
-    for await (const chunk of stream) {
-      yield new Uint8Array(chunk);
-    }
-  })();
+export async function workbookToServerResponse(
+  res: ServerResponse,
+  definition: WorkbookDefinition,
+  options?: XlsxDownloadOptions,
+): Promise<void> {
+  // The workbook must be the whole body, with its own content type
+  if (res.headersSent) {
+    throw new Error('Response headers were already sent; the workbook needs a fresh response');
+  }
+  // Validates the definition, so invalid input fails before any header is set
+  const bytes = writeXlsxToBytes(definition, options?.writerOptions);
+  res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+  res.setHeader('Content-Disposition', contentDisposition(options?.filename));
+  await pipeline(Readable.from(bytes), res);
 }
 
 /**
@@ -46,7 +63,6 @@ export async function writeRowsToFile(
   filePath: string,
 ): Promise<void> {
   const { createWriteStream } = await import('fs');
-  const { pipeline } = await import('stream/promises');
   const stream = rowsToNodeStream(rows);
   const writeStream = createWriteStream(filePath);
   await pipeline(stream, writeStream);
@@ -60,6 +76,14 @@ export async function writeFile(filePath: string, buffer: Uint8Array | Buffer):
   await fsWriteFile(filePath, buffer);
 }
 
+/**
+ * Opens a writable file stream (Node.js implementation)
+ */
+export async function createFileWriteStream(filePath: string): Promise<Writable> {
+  const { createWriteStream } = await import('fs');
+  return createWriteStream(filePath);
+}
+
 /**
  * Reads a file to a Buffer (Node.js implementation)
  */
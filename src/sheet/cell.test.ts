@@ -5,7 +5,12 @@ import {
   cellFromNumber,
   cellFromDate,
   cellFromBoolean,
+  cellFromFormula,
+  cellFromHyperlink,
+  cellFromRichText,
+  cellFromDuration,
   cellFromNull,
+  dateToExcelSerial,
 } from './cell';
 
 describe('Cell Factory Functions', () => {
@@ -26,8 +31,8 @@ describe('Cell Factory Functions', () => {
       const date = new Date('2024-01-01');
       const result = cell(date);
       expect(result.type).toBe('date');
-      expect(typeof result.value).toBe('number');
-      expect(result.value).toBeGreaterThan(0);
+      // Converted to a serial number when written, in the writer's time zone
+      expect(result.value).toBe(date);
     });
 
     test('should auto-detect boolean type', () => {
@@ -70,12 +75,46 @@ describe('Cell Factory Functions', () => {
   });
 
   describe('cellFromDate()', () => {
-    test('should convert Date to Excel serial number', () => {
+    test('should create date cell that keeps the Date until it is written', () => {
       const date = new Date('2024-01-01');
-      const result = cellFromDate(date);
-      expect(result.type).toBe('date');
-      expect(typeof result.value).toBe('number');
-      expect(result.value).toBeGreaterThan(45000); // Should be around 45323 for 2024-01-01
+      expect(cellFromDate(date)).toEqual({ value: date, type: 'date' });
+    });
+  });
+
+  describe('dateToExcelSerial()', () => {
+    test('should convert the local wall-clock time by default', () => {
+      expect(dateToExcelSerial(new Date(2024, 0, 1))).toBe(45292);
+      expect(dateToExcelSerial(new Date(2024, 6, 1, 12))).toBe(45474.5);
+      expect(dateToExcelSerial(new Date(1900, 0, 1))).toBe(1);
+    });
+
+    test('should convert the wall-clock time in UTC or a named time zone', () => {
+      const instant = new Date('2024-07-01T10:00:00Z');
+      expect(dateToExcelSerial(instant, { timezone: 'UTC' })).toBe(45474 + 10 / 24);
+      // Berlin is at UTC+2 in summer, New York at UTC-4
+      expect(dateToExcelSerial(instant, { timezone: 'Europe/Berlin' })).toBe(45474.5);
+      expect(dateToExcelSerial(instant, { timezone: 'America/New_York' })).toBe(45474.25);
+    });
+
+    test('should count days from 1904 in the 1904 date system', () => {
+      expect(dateToExcelSerial(new Date(1904, 0, 1), { date1904: true })).toBe(0);
+      expect(dateToExcelSerial(new Date(2024, 0, 1, 18), { date1904: true })).toBe(45292.75 - 1462);
+    });
+
+    test('should reject dates before 1904 in the 1904 date system', () => {
+      expect(() => dateToExcelSerial(new Date(1903, 11, 31, 23), { date1904: true })).toThrow('before January 1, 1904');
+      expect(dateToExcelSerial(new Date(1903, 11, 31), { date1904: false })).toBe(1461);
+    });
+  });
+
+  describe('cellFromDuration()', () => {
+    test('should create duration cell from milliseconds', () => {
+      expect(cellFromDuration(5400000)).toEqual({ value: 5400000, type: 'duration' });
+    });
+
+    test('should convert ISO 8601 durations to milliseconds', () => {
+      expect(cellFromDuration('PT25H30M')).toEqual({ value: 91800000, type: 'duration' });
+      expect(() => cellFromDuration('P1M')).toThrow('Invalid duration');
     });
   });
 
@@ -93,6 +132,53 @@ describe('Cell Factory Functions', () => {
     });
   });
 
+  describe('cellFromFormula()', () => {
+    test('should create formula cell without cached value', () => {
+      const result = cellFromFormula('SUM(A1:A5)');
+      expect(result).toEqual({ value: '=SUM(A1:A5)', type: 'formula', formula: 'SUM(A1:A5)' });
+    });
+
+    test('should strip a leading "=" and keep the cached value', () => {
+      const result = cellFromFormula('=A1*2', 42);
+      expect(result.formula).toBe('A1*2');
+      expect(result.value).toBe('=A1*2');
+      expect(result.computedValue).toBe(42);
+    });
+
+    test('should keep a Date cached value until it is written', () => {
+      const date = new Date(2024, 0, 1);
+      const result = cellFromFormula('TODAY()', date);
+      expect(result.computedValue).toBe(date);
+    });
+
+    test('should reject empty formulas', () => {
+      expect(() => cellFromFormula('')).toThrow('Formula cannot be empty');
+      expect(() => cellFromFormula('=')).toThrow('Formula cannot be empty');
+    });
+  });
+
+  describe('cellFromHyperlink()', () => {
+    test('should create a string cell linking to a URL', () => {
+      expect(cellFromHyperlink('Example', 'https://example.com')).toEqual({
+        value: 'Example',
+        type: 'string',
+        hyperlink: { url: 'https://example.com' },
+      });
+    });
+
+    test('should accept a location with a tooltip', () => {
+      const result = cellFromHyperlink('Go to summary', { location: "'Q1 Sales'!A1", tooltip: 'Summary' });
+      expect(result.hyperlink).toEqual({ location: "'Q1 Sales'!A1", tooltip: 'Summary' });
+    });
+  });
+
+  describe('cellFromRichText()', () => {
+    test('should create a string cell with the plain text of the runs', () => {
+      const runs = [{ text: 'Total', font: { bold: true } }, { text: ' (net)' }];
+      expect(cellFromRichText(runs)).toEqual({ value: 'Total (net)', type: 'string', richText: runs });
+    });
+  });
+
   describe('cellFromNull()', () => {
     test('should create empty cell', () => {
       const result = cellFromNull();
@@ -1,17 +1,41 @@
-import type { Cell } from 'types';
+import type { DateTimezone } from '@xlsx/types';
+import { MILLISECONDS_IN_DAY, parseIsoDuration, toWallClockTime } from '@utils/dates';
+import type { Cell, Hyperlink, RichTextRun } from 'types';
+
+/**
+ * Days between the epochs of the 1900 and 1904 date systems
+ */
+export const DATE_1904_OFFSET = 1462;
+
+/**
+ * Options for converting Dates to Excel serial numbers
+ */
+export interface DateSerialOptions {
+  timezone?: DateTimezone; // Time zone whose wall-clock time is stored (default: local)
+  date1904?: boolean; // Count days from January 1, 1904 (default: false, the 1900 date system)
+}
 
 /**
  * Converts a Date to Excel serial number
  * Excel serial date: days since December 31, 1899 (day 0)
  * Day 1 = January 1, 1900
+ * In the 1904 date system, day 0 is January 1, 1904.
+ * @throws {Error} If the date is before January 1, 1904 in the 1904 date system
  */
-function dateToExcelSerial(date: Date): number {
-  const epoch = new Date(1899, 11, 31); // December 31, 1899 (Excel day 0)
-  const diff = date.getTime() - epoch.getTime();
-  const days = diff / (1000 * 60 * 60 * 24);
+export function dateToExcelSerial(date: Date, options: DateSerialOptions = {}): number {
+  const wallClockTime = toWallClockTime(date, options.timezone);
+  if (options.date1904) {
+    const days = (wallClockTime - Date.UTC(1904, 0, 1)) / MILLISECONDS_IN_DAY;
+    if (days < 0) {
+      throw new Error(`Date ${date.toISOString()} is before January 1, 1904, the first date of the 1904 date system`);
+    }
+    return days;
+  }
+  const epoch = Date.UTC(1899, 11, 31); // December 31, 1899 (Excel day 0)
+  const days = (wallClockTime - epoch) / MILLISECONDS_IN_DAY;
   // Excel incorrectly treats 1900 as a leap year (Feb 29, 1900 exists in Excel)
   // For dates on or after March 1, 1900, add 1 to account for the phantom Feb 29
-  if (date >= new Date(1900, 2, 1)) {
+  if (wallClockTime >= Date.UTC(1900, 2, 1)) {
     return days + 1;
   }
   return days;
@@ -33,7 +57,7 @@ export function cell(
     return { value, type: 'number' };
   }
   if (value instanceof Date) {
-    return { value: dateToExcelSerial(value), type: 'date' };
+    return { value, type: 'date' };
   }
   if (typeof value === 'boolean') {
     return { value: value ? 1 : 0, type: 'boolean' };
@@ -56,10 +80,19 @@ export function cellFromNumber(value: number): Cell {
 }
 
 /**
- * Creates a date cell (converts Date to Excel serial number)
+ * Creates a date cell
+ * The Date is converted to an Excel serial number when written, in the writer's time zone and date system.
  */
 export function cellFromDate(date: Date): Cell {
-  return { value: dateToExcelSerial(date), type: 'date' };
+  return { value: date, type: 'date' };
+}
+
+/**
+ * Creates a duration cell, displayed as elapsed time (e.g., 25:30:00)
+ * @param duration - Milliseconds, or an ISO 8601 duration (e.g., "PT25H30M")
+ */
+export function cellFromDuration(duration: number | string): Cell {
+  return { value: typeof duration === 'string' ? parseIsoDuration(duration) : duration, type: 'duration' };
 }
 
 /**
@@ -69,6 +102,53 @@ export function cellFromBoolean(value: boolean): Cell {
   return { value: value ? 1 : 0, type: 'boolean' };
 }
 
+/**
+ * Creates a formula cell
+ * @param formula - Formula with or without "=" prefix (e.g., "SUM(A1:A5)")
+ * @param cachedValue - Optional pre-calculated result, shown by viewers that do not recalculate
+ */
+export function cellFromFormula(
+  formula: string,
+  cachedValue?: string | number | Date | boolean | null,
+): Cell {
+  const stripped = formula.startsWith('=') ? formula.slice(1) : formula;
+  if (stripped.trim() === '') {
+    throw new Error('Formula cannot be empty');
+  }
+  return {
+    value: `=${stripped}`,
+    type: 'formula',
+    formula: stripped,
+    ...(cachedValue !== undefined && { computedValue: cachedValue }),
+  };
+}
+
+/**
+ * Creates a string cell that links to a URL or to a location in the workbook
+ * @param text - Link text shown in the cell
+ * @param hyperlink - URL (e.g., "https://example.com" or "mailto:team@example.com"),
+ * or a Hyperlink with a location (e.g., { location: "Summary!A1", tooltip: "Go to summary" })
+ */
+export function cellFromHyperlink(text: string, hyperlink: string | Hyperlink): Cell {
+  return {
+    value: text,
+    type: 'string',
+    hyperlink: typeof hyperlink === 'string' ? { url: hyperlink } : hyperlink,
+  };
+}
+
+/**
+ * Creates a string cell from runs of differently formatted text
+ * @param runs - Text runs with their own fonts (e.g., [{ text: 'Total', font: { bold: true } }, { text: ' (net)' }])
+ */
+export function cellFromRichText(runs: RichTextRun[]): Cell {
+  return {
+    value: runs.map((run) => run.text).join(''),
+    type: 'string',
+    richText: runs,
+  };
+}
+
 /**
  * Creates an empty/null cell
  */
@@ -88,6 +88,99 @@ describe('Row Parser', () => {
     expect(cell?.computedValue).toBe(42);
   });
 
+  test('should expand shared formulas into per-cell formulas', async () => {
+    const xml = `<sheetData>
+      <row r="2"><c r="C2"><f t="shared" ref="C2:D4" si="0">A2*$B$1</f><v>1</v></c><c r="D2"><f t="shared" si="0"/><v>2</v></c></row>
+      <row r="3"><c r="C3"><f t="shared" si="0"/><v>3</v></c></row>
+      <row r="4"><c r="D4"><f t="shared" si="0"/><v>4</v></c></row>
+    </sheetData>`;
+    const bytes = async function* () {
+      yield new TextEncoder().encode(xml);
+    }();
+
+    const formulas: (string | undefined)[] = [];
+    for await (const row of parseSheet(parseXmlEvents(bytes))) {
+      for (const cell of row.cells) {
+        if (cell?.type === 'formula') formulas.push(cell.formula);
+      }
+    }
+
+    expect(formulas).toEqual(['A2*$B$1', 'B2*$B$1', 'A3*$B$1', 'B4*$B$1']);
+  });
+
+  test('should expose array and dynamic array formula ranges', async () => {
+    const xml = `<sheetData>
+      <row r="1"><c r="A1"><f t="array" ref="A1:A3">B1:B3*2</f><v>2</v></c><c r="C1" cm="1"><f t="array" ref="C1:C3">SEQUENCE(3)</f><v>1</v></c></row>
+      <row r="2"><c r="A2"><v>4</v></c><c r="C2"><v>2</v></c></row>
+    </sheetData>`;
+    const bytes = async function* () {
+      yield new TextEncoder().encode(xml);
+    }();
+
+    const rows: Row[] = [];
+    for await (const row of parseSheet(parseXmlEvents(bytes))) {
+      rows.push(row);
+    }
+
+    expect(rows[0]?.cells[0]?.formula).toBe('B1:B3*2');
+    expect(rows[0]?.cells[0]?.arrayFormula).toEqual({ range: 'A1:A3' });
+    expect(rows[0]?.cells[2]?.arrayFormula).toEqual({ range: 'C1:C3', dynamic: true });
+    // Other cells of the array only hold values
+    expect(rows[1]?.cells[0]).toEqual({ value: 4, type: 'number' });
+  });
+
+  test('should attach hyperlinks to the cells they cover', async () => {
+    const xml = `<sheetData>
+      <row r="1"><c r="A1" t="inlineStr"><is><t>Docs</t></is></c><c r="B1" t="inlineStr"><is><t>Summary</t></is></c></row>
+      <row r="2"><c r="A2"><v>1</v></c><c r="B2"><v>2</v></c><c r="C2"><v>3</v></c></row>
+    </sheetData>`;
+    const bytes = async function* () {
+      yield new TextEncoder().encode(xml);
+    }();
+
+    const rows: Row[] = [];
+    const hyperlinks = [
+      { ref: 'A1', hyperlink: { url: 'https://example.com/docs', tooltip: 'Open docs' } },
+      { ref: 'B1', hyperlink: { location: 'Summary!A1' } },
+      { ref: 'B2:C2', hyperlink: { location: 'Data' } },
+    ];
+    for await (const row of parseSheet(parseXmlEvents(bytes), undefined, undefined, undefined, hyperlinks)) {
+      rows.push(row);
+    }
+
+    expect(rows[0]?.cells[0]).toEqual({ value: 'Docs', type: 'string', hyperlink: { url: 'https://example.com/docs', tooltip: 'Open docs' } });
+    expect(rows[0]?.cells[1]?.hyperlink).toEqual({ location: 'Summary!A1' });
+    expect(rows[1]?.cells[0]?.hyperlink).toBeUndefined();
+    expect(rows[1]?.cells[1]?.hyperlink).toEqual({ location: 'Data' });
+    expect(rows[1]?.cells[2]?.hyperlink).toEqual({ location: 'Data' });
+  });
+
+  test('should flatten rich text runs unless the richText option is set', async () => {
+    const xml = `<sheetData>
+      <row r="1"><c r="A1" t="inlineStr"><is><r><rPr><b/><sz val="12"/><color rgb="ffff0000"/></rPr><t>Total</t></r><r><t xml:space="preserve"> (net)</t></r><rPh><t>ignored</t></rPh></is></c><c r="B1" t="inlineStr"><is><t>Plain</t></is></c></row>
+    </sheetData>`;
+    const read = async (options?: { richText?: boolean }) => {
+      const bytes = async function* () {
+        yield new TextEncoder().encode(xml);
+      }();
+      const rows: Row[] = [];
+      for await (const row of parseSheet(parseXmlEvents(bytes), undefined, options)) {
+        rows.push(row);
+      }
+      return rows;
+    };
+
+    expect((await read())[0]?.cells[0]).toEqual({ value: 'Total (net)', type: 'string' });
+
+    const rows = await read({ richText: true });
+    expect(rows[0]?.cells[0]).toEqual({
+      value: 'Total (net)',
+      type: 'string',
+      richText: [{ text: 'Total', font: { bold: true, fontSize: 12, fontColor: 'FFFF0000' } }, { text: ' (net)' }],
+    });
+    expect(rows[0]?.cells[1]).toEqual({ value: 'Plain', type: 'string' });
+  });
+
   test('should parse formula cell with string computed value', async () => {
     const xml = '<row><c><f>CONCATENATE(A1,B1)</f><v>Hello World</v></c></row>';
     const bytes = async function* () {
@@ -847,6 +940,26 @@ describe('Row Parser', () => {
     expect(dateCell?.value).toBeNull();
   });
 
+  test('should render formatted values with the formattedValues option', async () => {
+    const xml = '<row><c s="1"><v>0.1234</v></c><c s="2"><v>-1234.5</v></c><c s="3"><v>42382</v></c>'
+      + '<c t="b"><v>1</v></c><c s="1"><f>A1*2</f><v>0.2468</v></c><c t="inlineStr"><is><t>Plain</t></is></c><c s="1"/><c><v>0.30000000000000004</v></c></row>';
+    const bytes = async function* () {
+      yield new TextEncoder().encode(xml);
+    }();
+    const styleFormatMap = new Map<number, string>([[1, '0.0%'], [2, '#,##0.00 "EUR";[Red]-#,##0.00 "EUR"'], [3, 'yyyy-mm-dd']]);
+
+    const rows: Row[] = [];
+    for await (const row of parseSheet(parseXmlEvents(bytes), undefined, { formattedValues: true }, styleFormatMap)) {
+      rows.push(row);
+    }
+
+    const cells = rows[0]!.cells;
+    expect(cells.map((c) => c?.formattedValue)).toEqual(['12.3%', '-1,234.50 EUR', '2016-01-13', 'TRUE', '24.7%', 'Plain', undefined, '0.3']);
+    // Raw values are kept
+    expect(cells[0]?.value).toBe(0.1234);
+    expect(cells[2]?.value).toBeInstanceOf(Date);
+  });
+
   test('should parse boolean cells', async () => {
     const xml = '<row><c t="b"><v>1</v></c><c t="b"><v>0</v></c></row>';
     const bytes = async function* () {
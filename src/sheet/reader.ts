@@ -1,14 +1,29 @@
 import { format } from 'date-fns';
-import { getFormatCodeForStyle, type StyleFormatMap } from '@xlsx/styles-reader';
-import type { ReadOptions } from '@xlsx/types';
-import { parseCellReference } from '@utils/cell-reference';
-import { convertExcelTimestamp } from '@utils/dates';
+import type { SheetHyperlink } from '@xlsx/sheet-properties-reader';
+import { getFormatCodeForStyle, type CellStyleMap, type StyleFormatMap } from '@xlsx/styles-reader';
+import type { DateTimezone, ReadOptions } from '@xlsx/types';
+import { getCellReference, parseCellReference, parseRangeReference } from '@utils/cell-reference';
 import {
+  convertExcelTimestamp,
+  formatIsoDuration,
+  fromWallClockTime,
+  MILLISECONDS_IN_DAY,
+  parseIsoDate,
+  parseIsoDuration,
+  toWallClockTime,
+} from '@utils/dates';
+import {
+  applyNumberFormat,
   convertExcelFormatToDateFns,
   DEFAULT_DATE_FORMAT,
+  DEFAULT_DURATION_FORMAT_CODE,
+  formatDuration,
   isDateFormatCode,
+  isDurationFormatCode,
 } from '@utils/format-codes';
-import type { Cell, Row, XmlEvent } from '../types';
+import { shiftFormulaReferences } from '@utils/formula-references';
+import { applyRunProperty } from '@xml/rich-text';
+import type { Cell, FontStyle, Hyperlink, RichTextRun, Row, XmlEvent } from '../types';
 
 /**
  * Checks if a row is empty (no cells or all cells are empty strings/undefined)
@@ -30,11 +45,82 @@ function shouldYieldRow(row: Partial<Row> | null, options?: ReadOptions): boolea
   return !isEmpty || !shouldSkip;
 }
 
+/**
+ * Creates a lookup of the hyperlink of a cell
+ * Hyperlinks over a range apply to every cell of the range
+ */
+function createHyperlinkLookup(
+  hyperlinks: SheetHyperlink[],
+): (rowIndex: number, colIndex: number) => Hyperlink | undefined {
+  const cellHyperlinks = new Map<string, Hyperlink>();
+  const rangeHyperlinks: { range: NonNullable<ReturnType<typeof parseRangeReference>>; hyperlink: Hyperlink }[] = [];
+  for (const { ref, hyperlink } of hyperlinks) {
+    const range = parseRangeReference(ref.toUpperCase());
+    if (!range) continue;
+    if (range.start.rowIndex === range.end.rowIndex && range.start.colIndex === range.end.colIndex) {
+      cellHyperlinks.set(getCellReference(range.start.rowIndex, range.start.colIndex), hyperlink);
+    } else {
+      rangeHyperlinks.push({ range, hyperlink });
+    }
+  }
+
+  return (rowIndex, colIndex) => cellHyperlinks.get(getCellReference(rowIndex, colIndex)) ??
+    rangeHyperlinks.find(({ range }) =>
+      rowIndex >= range.start.rowIndex && rowIndex <= range.end.rowIndex &&
+      colIndex >= range.start.colIndex && colIndex <= range.end.colIndex,
+    )?.hyperlink;
+}
+
+/**
+ * Formats a date with a number format code, showing its wall-clock time in the read time zone
+ * date-fns formats in the local time zone, so the wall-clock time is moved there first.
+ */
+function formatDate(date: Date, formatCode: string | null, timezone: DateTimezone | undefined): string {
+  const wallClockDate = timezone && timezone !== 'local' ? fromWallClockTime(toWallClockTime(date, timezone)) : date;
+  return format(wallClockDate, formatCode ? convertExcelFormatToDateFns(formatCode) : DEFAULT_DATE_FORMAT);
+}
+
+/**
+ * Renders the value of a cell as Excel displays it
+ * Formula cells are rendered from their computed value.
+ * @param formatCode - Number format of the cell, or null for General
+ * @returns undefined for empty cells
+ */
+function formatDisplayValue(cell: Cell, formatCode: string | null, options: ReadOptions): string | undefined {
+  let value = cell.type === 'formula' ? cell.computedValue : cell.value;
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  // Dates already formatted by shouldFormatDates are shown as they are
+  if (cell.type === 'date' && typeof value === 'string') {
+    return value;
+  }
+  if (cell.type === 'duration') {
+    const milliseconds = typeof value === 'string' ? parseIsoDuration(value) : value as number;
+    return formatDuration(milliseconds / MILLISECONDS_IN_DAY, formatCode ?? DEFAULT_DURATION_FORMAT_CODE);
+  }
+  // Formula results keep their serial value, so elapsed times are rendered from it
+  if (typeof value === 'number' && formatCode && isDurationFormatCode(formatCode)) {
+    return formatDuration(value, formatCode);
+  }
+  if (typeof value === 'number' && formatCode && isDateFormatCode(formatCode)) {
+    value = convertExcelTimestamp(value, options.use1904Dates ?? false, options.timezone);
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : formatDate(value, formatCode, options.timezone);
+  }
+  return applyNumberFormat(value, formatCode ?? 'General');
+}
+
 /**
  * Finalizes a cell by applying semantic post-processing:
  * - Defaulting empty cells
- * - Date detection and formatting
+ * - Date and duration detection and formatting
  * - Boolean coercion
+ * - Display values (formattedValues option)
  */
 function finalizeCell(
   cell: Partial<Cell>,
@@ -50,6 +136,10 @@ function finalizeCell(
     currentCellStyleIndex,
   } = context;
 
+  const formatCode = styleFormatMap && currentCellStyleIndex !== undefined
+    ? getFormatCodeForStyle(currentCellStyleIndex, styleFormatMap)
+    : null;
+
   // Work with local variables to avoid mutating input
   let value: string | number | Date | boolean | null | undefined = cell.value;
   let type: Cell['type'] = cell.type;
@@ -67,39 +157,36 @@ function finalizeCell(
       // ISO 8601 date string - parse to Date object if shouldFormatDates is false
       if (!options.shouldFormatDates) {
         try {
-          value = new Date(value);
+          value = parseIsoDate(value, options.timezone);
         } catch {
           // If parsing fails, keep as string
         }
       }
       // If shouldFormatDates is true, keep as string (already formatted)
+    } else if (typeof value === 'number' && formatCode && isDurationFormatCode(formatCode)) {
+      // Elapsed time formats (e.g., [h]:mm:ss) mark durations, stored as fractions of a day
+      type = 'duration';
+      const milliseconds = Math.round(value * MILLISECONDS_IN_DAY);
+      value = options.durations === 'iso' ? formatIsoDuration(milliseconds) : milliseconds;
     } else if (typeof value === 'number') {
       // Check if this numeric cell should be treated as a date
       let isDate = type === 'date';
-      let formatCode: string | null = null;
 
       // Check format code to detect dates
-      if (styleFormatMap && currentCellStyleIndex !== undefined) {
-        formatCode = getFormatCodeForStyle(currentCellStyleIndex, styleFormatMap);
-        if (formatCode && isDateFormatCode(formatCode)) {
-          isDate = true;
-          // Override the type if it was automatically set to 'number'
-          type = 'date';
-        }
+      if (formatCode && isDateFormatCode(formatCode)) {
+        isDate = true;
+        // Override the type if it was automatically set to 'number'
+        type = 'date';
       }
 
       // Convert numeric date cells
       if (isDate) {
         try {
-          const date = convertExcelTimestamp(value, options.use1904Dates ?? false);
+          const date = convertExcelTimestamp(value, options.use1904Dates ?? false, options.timezone);
 
-          if (options.shouldFormatDates && formatCode) {
-            // Format the date according to the format code
-            const dateFnsFormat = convertExcelFormatToDateFns(formatCode);
-            value = format(date, dateFnsFormat);
-          } else if (options.shouldFormatDates) {
-            // No format code found, use default format
-            value = format(date, DEFAULT_DATE_FORMAT);
+          if (options.shouldFormatDates) {
+            // Format the date according to the format code, or the default format without one
+            value = formatDate(date, formatCode, options.timezone);
           } else {
             // Return Date object
             value = date;
@@ -118,12 +205,20 @@ function finalizeCell(
   }
 
   // Build and return final cell object
-  return {
+  const finalized: Cell = {
     value: value !== undefined ? value : '',
     ...(type !== undefined && { type }),
     ...(cell.formula !== undefined && { formula: cell.formula }),
     ...(cell.computedValue !== undefined && { computedValue: cell.computedValue }),
+    ...(cell.arrayFormula !== undefined && { arrayFormula: cell.arrayFormula }),
   };
+  if (options?.formattedValues) {
+    const formattedValue = formatDisplayValue(finalized, formatCode, options);
+    if (formattedValue !== undefined) {
+      finalized.formattedValue = formattedValue;
+    }
+  }
+  return finalized;
 }
 
 /**
@@ -138,6 +233,9 @@ export async function* parseSheet(
   getSharedString?: (index: number) => Promise<string | undefined>,
   options?: ReadOptions,
   styleFormatMap?: StyleFormatMap,
+  hyperlinks?: SheetHyperlink[],
+  getSharedRichText?: (index: number) => RichTextRun[] | undefined,
+  cellStyles?: CellStyleMap,
 ): AsyncIterable<Row> {
   let currentRow: Partial<Row> | null = null;
   let currentCell: Partial<Cell> | null = null;
@@ -157,6 +255,20 @@ export async function* parseSheet(
   let computedValueBuffer: string = ''; // Accumulate computed value from <v> element in formula cells
   let originalCellType: string | undefined = undefined; // Track original t attribute for formula cells
   let currentCellStyleIndex: number | undefined = undefined; // Style index from cell s attribute
+  let currentCellHasMetadata = false; // Cell cm attribute (dynamic array formulas)
+  let formulaTypeAttr: string | undefined = undefined; // <f t="..."> (shared, array)
+  let formulaSharedIndexAttr: string | undefined = undefined; // <f si="..."> for shared formulas
+  let formulaRefAttr: string | undefined = undefined; // <f ref="..."> range of shared/array formulas
+  // Shared formula masters by si, used to expand the formulas of the other cells in the group
+  const sharedFormulas = new Map<string, { formula: string; rowIndex: number; colIndex: number }>();
+  // Hyperlinks are listed after sheetData, so they are read up front with the sheet properties
+  const getHyperlink = hyperlinks && hyperlinks.length > 0 ? createHyperlinkLookup(hyperlinks) : undefined;
+  // Runs of rich text are only kept with the richText option; otherwise they are flattened into the value
+  const preserveRichText = options?.richText === true;
+  let richTextRuns: RichTextRun[] = []; // Runs of the current inline string
+  let currentRun: RichTextRun | null = null;
+  let inRunProperties = false; // Track <rPr> of a rich text run
+  let currentCellRichText: RichTextRun[] | undefined = undefined; // Runs attached to the current cell
 
   for await (const event of xmlEvents) {
     // ============================================================
@@ -192,6 +304,7 @@ export async function* parseSheet(
         const styleIndexAttr = event.attributes?.s; // Style index
         currentCellColIndex = cellRef ? parseCellReference(cellRef)?.colIndex : undefined;
         originalCellType = cellType; // Store original type attribute for formula cells
+        currentCellHasMetadata = event.attributes?.cm !== undefined;
 
         // Parse style index
         if (styleIndexAttr) {
@@ -214,11 +327,18 @@ export async function* parseSheet(
         inlineStringBuffer = ''; // Reset text accumulation buffer
         formulaBuffer = ''; // Reset formula buffer
         computedValueBuffer = ''; // Reset computed value buffer
+        richTextRuns = [];
+        currentRun = null;
+        inRunProperties = false;
+        currentCellRichText = undefined;
       }
       // FORMULA START
       else if (event.name === 'f' && inCell) {
         inFormula = true;
         formulaBuffer = ''; // Initialize formula buffer
+        formulaTypeAttr = event.attributes?.t;
+        formulaSharedIndexAttr = event.attributes?.si;
+        formulaRefAttr = event.attributes?.ref;
       }
       // VALUE START
       else if (event.name === 'v' && inCell && !inInlineStr) {
@@ -237,6 +357,19 @@ export async function* parseSheet(
       // RICH TEXT RUN START
       else if (event.name === 'r' && inInlineStr) {
         inRichTextRun = true;
+        if (preserveRichText) {
+          currentRun = { text: '' };
+        }
+      }
+      // RICH TEXT RUN PROPERTIES (font of the run)
+      else if (event.name === 'rPr' && currentRun) {
+        inRunProperties = true;
+      }
+      else if (inRunProperties && currentRun && event.name) {
+        const font: FontStyle = currentRun.font ?? {};
+        if (applyRunProperty(font, event.name, event.attributes)) {
+          currentRun.font = font;
+        }
       }
       // TEXT ELEMENT START (for inline strings)
       else if (event.name === 't' && !inRubyPhonetic) {
@@ -279,6 +412,7 @@ export async function* parseSheet(
             const sharedString = await getSharedString(index);
             if (sharedString !== undefined) {
               currentCell.value = sharedString;
+              currentCellRichText = preserveRichText ? getSharedRichText?.(index) : undefined;
             } else {
               currentCell.value = text; // Fallback if index not found
             }
@@ -305,6 +439,9 @@ export async function* parseSheet(
       else if (inInlineStrText && currentCell && !inRubyPhonetic) {
         // Accumulate text from multiple rich text runs (multiple <r><t>...</t></r> elements)
         inlineStringBuffer += event.text || '';
+        if (currentRun) {
+          currentRun.text += event.text || '';
+        }
       }
     }
 
@@ -345,6 +482,20 @@ export async function* parseSheet(
           styleFormatMap,
           currentCellStyleIndex,
         });
+        if (getHyperlink && currentRow.rowIndex !== undefined) {
+          const hyperlink = getHyperlink(currentRow.rowIndex, currentCellColIndex ?? currentRow.cells.length);
+          if (hyperlink) {
+            cell.hyperlink = hyperlink;
+          }
+        }
+        if (currentCellRichText && cell.type === 'string') {
+          cell.richText = currentCellRichText;
+        }
+        // Resolved styles are only passed with the includeStyles option
+        const style = cellStyles && currentCellStyleIndex !== undefined ? cellStyles.get(currentCellStyleIndex) : undefined;
+        if (style) {
+          cell.style = style;
+        }
 
         // If cell has explicit column index, position it correctly; otherwise append
         if (currentCellColIndex !== undefined && currentCellColIndex >= 0) {
@@ -375,18 +526,56 @@ export async function* parseSheet(
         inlineStringBuffer = ''; // Reset buffer after cell is complete
         formulaBuffer = ''; // Reset formula buffer
         computedValueBuffer = ''; // Reset computed value buffer
+        currentCellRichText = undefined;
       }
       // FORMULA END
       else if (event.name === 'f' && inFormula) {
         inFormula = false;
         if (currentCell) {
+          let formula = formulaBuffer;
+          const formulaRowIndex = currentRow?.rowIndex;
+          const formulaColIndex = currentCellColIndex ?? currentRow?.cells?.length;
+
+          // Shared formulas: the first cell of the group carries the text, the others only si.
+          // Expand the others by moving the relative references of the first cell's formula.
+          if (formulaTypeAttr === 'shared' && formulaSharedIndexAttr !== undefined &&
+              formulaRowIndex !== undefined && formulaColIndex !== undefined) {
+            if (formula !== '') {
+              sharedFormulas.set(formulaSharedIndexAttr, {
+                formula,
+                rowIndex: formulaRowIndex,
+                colIndex: formulaColIndex,
+              });
+            } else {
+              const master = sharedFormulas.get(formulaSharedIndexAttr);
+              if (master) {
+                formula = shiftFormulaReferences(
+                  master.formula,
+                  formulaRowIndex - master.rowIndex,
+                  formulaColIndex - master.colIndex,
+                );
+              }
+            }
+          }
+
+          // Array formulas: the top-left cell carries the formula and the range it fills
+          if (formulaTypeAttr === 'array' && formulaRefAttr) {
+            currentCell.arrayFormula = {
+              range: formulaRefAttr,
+              ...(currentCellHasMetadata && { dynamic: true }),
+            };
+          }
+
           currentCell.type = 'formula';
           // Store formula without "=" prefix in formula property
-          currentCell.formula = formulaBuffer;
+          currentCell.formula = formula;
           // Store formula with "=" prefix in value property
-          currentCell.value = `=${formulaBuffer}`;
+          currentCell.value = `=${formula}`;
         }
         formulaBuffer = ''; // Reset buffer
+        formulaTypeAttr = undefined;
+        formulaSharedIndexAttr = undefined;
+        formulaRefAttr = undefined;
       }
       // VALUE END
       else if (event.name === 'v' && inValue) {
@@ -422,6 +611,14 @@ export async function* parseSheet(
       // RICH TEXT RUN END
       else if (event.name === 'r' && inRichTextRun) {
         inRichTextRun = false;
+        if (currentRun) {
+          richTextRuns.push(currentRun);
+          currentRun = null;
+        }
+      }
+      // RICH TEXT RUN PROPERTIES END
+      else if (event.name === 'rPr' && inRunProperties) {
+        inRunProperties = false;
       }
       // RUBY PHONETIC END
       else if (event.name === 'rPh' && inRubyPhonetic) {
@@ -433,6 +630,9 @@ export async function* parseSheet(
         if (currentCell) {
           currentCell.value = inlineStringBuffer;
           currentCell.type = 'string';
+          if (richTextRuns.length > 0) {
+            currentCellRichText = richTextRuns;
+          }
         }
         inInlineStr = false;
         inlineStringBuffer = ''; // Reset buffer
@@ -1,10 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { readXlsx } from '@xlsx/reader';
 import { writeXlsx } from '@xlsx/writer';
-import { cell } from '@sheet/cell';
+import { cell, cellFromFormula } from '@sheet/cell';
 import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
 import { describe, test, expect, afterEach } from '@tests/framework';
 import { cleanupTestFiles } from '@tests/helpers';
+import { bytesToString, readFile } from '../../adapters';
 
 describe('Integration Tests', () => {
   const testFile = 'integration-test.xlsx';
@@ -350,4 +352,110 @@ describe('Integration Tests', () => {
       }
     }
   });
+
+  test('should preserve formulas and cached values through read → write → read', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Formulas',
+        rows: (async function* () {
+          yield row([cell(2), cell(3), cellFromFormula('A1*B1', 6), cellFromFormula('=A1>B1', false)]);
+          yield row([cellFromFormula('CONCAT("a","b")', 'ab'), cellFromFormula('1/0', '#DIV/0!'), cellFromFormula('SUM(A1:B1)')]);
+        })(),
+      }],
+    }, { sharedStrings: 'shared' });
+
+    const readAll = async () => {
+      await using workbook = await readXlsx(testFile);
+      const rows: any[] = [];
+      for await (const r of workbook.sheet(0).rows()) {
+        rows.push(r.cells);
+      }
+      return rows;
+    };
+
+    const firstRead = await readAll();
+    expect(firstRead[0][2]).toEqual({ value: '=A1*B1', type: 'formula', formula: 'A1*B1', computedValue: 6 });
+    expect(firstRead[0][3]).toEqual({ value: '=A1>B1', type: 'formula', formula: 'A1>B1', computedValue: false });
+    expect(firstRead[1][0].computedValue).toBe('ab');
+    expect(firstRead[1][1].computedValue).toBe('#DIV/0!');
+    expect(firstRead[1][2].formula).toBe('SUM(A1:B1)');
+    expect(firstRead[1][2].computedValue).toBeUndefined();
+
+    // Write the cells that were read back and compare
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Formulas',
+        rows: (async function* () {
+          for (const cells of firstRead) yield row(cells);
+        })(),
+      }],
+    });
+    expect(await readAll()).toEqual(firstRead);
+  });
+
+  test('should write column formulas as shared formulas and read them back per cell', async () => {
+    const definition = () => ({
+      sheets: [{
+        name: 'Shared',
+        rows: (async function* () {
+          for (let r = 1; r <= 50; r++) {
+            yield row([cell(r), cellFromFormula(`A${r}*2`, r * 2), cellFromFormula('SUM($A$1:A1)'.replace('A1)', `A${r})`))]);
+          }
+        })(),
+      }],
+    });
+
+    // Off by default
+    await writeXlsx(testFile, definition());
+    expect(await readSheetXml(testFile)).not.toContain('t="shared"');
+
+    await writeXlsx(testFile, definition(), { shareFormulas: true });
+
+    const sheetXml = await readSheetXml(testFile);
+    expect(sheetXml).toContain('<f t="shared" ref="B1:B50" si="0">A1*2</f>');
+    expect(sheetXml).toContain('<f t="shared" ref="C1:C50" si="1">SUM($A$1:A1)</f>');
+    expect(sheetXml.match(/<f t="shared" si="0"\/>/g)?.length).toBe(49);
+
+    await using workbook = await readXlsx(testFile);
+    let r = 0;
+    for await (const readRow of workbook.sheet(0).rows()) {
+      r++;
+      expect(readRow.cells[1]?.formula).toBe(`A${r}*2`);
+      expect(readRow.cells[1]?.computedValue).toBe(r * 2);
+      expect(readRow.cells[2]?.formula).toBe(`SUM($A$1:A${r})`);
+    }
+    expect(r).toBe(50);
+  });
+
+  test('should round-trip dynamic array formulas with xl/metadata.xml', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Arrays',
+        rows: (async function* () {
+          yield row([{ ...cellFromFormula('SEQUENCE(2)', 1), arrayFormula: { range: 'A1:A2', dynamic: true } }]);
+          yield row([cell(2)]);
+        })(),
+      }],
+    });
+
+    const buffer = await readFile(testFile);
+    const zipFile = await openZip(buffer);
+    expect(zipFile.entries.some(e => e.fileName === 'xl/metadata.xml')).toBe(true);
+    expect(await readSheetXml(testFile)).toContain('<c r="A1" cm="1"><f t="array" ref="A1:A2">SEQUENCE(2)</f><v>1</v></c>');
+
+    await using workbook = await readXlsx(testFile);
+    for await (const readRow of workbook.sheet(0).rows()) {
+      expect(readRow.cells[0]?.arrayFormula).toEqual({ range: 'A1:A2', dynamic: true });
+      break;
+    }
+  });
 });
+
+/**
+ * Reads xl/worksheets/sheet1.xml of a written workbook
+ */
+async function readSheetXml(filePath: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find(e => e.fileName === 'xl/worksheets/sheet1.xml');
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
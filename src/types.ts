@@ -41,15 +41,164 @@ export type FontStyle = {
   fontName?: string;
 };
 
+// Run of rich text: text with its own font. Unset font properties use the default font.
+export type RichTextRun = {
+  text: string;
+  font?: FontStyle;
+};
+
+// Fill pattern types supported by Excel
+export type FillPattern =
+  | 'solid'
+  | 'darkGray'
+  | 'mediumGray'
+  | 'lightGray'
+  | 'gray125'
+  | 'gray0625'
+  | 'darkHorizontal'
+  | 'darkVertical'
+  | 'darkDown'
+  | 'darkUp'
+  | 'darkGrid'
+  | 'darkTrellis'
+  | 'lightHorizontal'
+  | 'lightVertical'
+  | 'lightDown'
+  | 'lightUp'
+  | 'lightGrid'
+  | 'lightTrellis';
+
+// Background fill properties for cells
+export type FillStyle = {
+  /**
+   * Background color in ARGB format (e.g., "FFFFFF00" for yellow)
+   */
+  backgroundColor?: string;
+  /**
+   * Fill pattern
+   * @default "solid"
+   */
+  pattern?: FillPattern;
+  /**
+   * Color of the pattern in ARGB format. Ignored for solid fills.
+   * @default "FF000000" (black)
+   */
+  patternColor?: string;
+};
+
+// Border line styles supported by Excel
+export type BorderLineStyle =
+  | 'thin'
+  | 'medium'
+  | 'thick'
+  | 'hair'
+  | 'dotted'
+  | 'dashed'
+  | 'double'
+  | 'mediumDashed'
+  | 'dashDot'
+  | 'mediumDashDot'
+  | 'dashDotDot'
+  | 'mediumDashDotDot'
+  | 'slantDashDot';
+
+// A single border edge
+export type BorderEdge = {
+  /**
+   * Line style
+   */
+  style: BorderLineStyle;
+  /**
+   * Line color in ARGB format
+   * @default "FF000000" (black)
+   */
+  color?: string;
+};
+
+// Border properties for cells. Omitted edges have no border.
+export type BorderStyle = {
+  top?: BorderEdge;
+  right?: BorderEdge;
+  bottom?: BorderEdge;
+  left?: BorderEdge;
+};
+
+// Alignment properties for cells
+export type AlignmentStyle = {
+  /**
+   * Horizontal alignment
+   * @default "general"
+   */
+  horizontal?: 'general' | 'left' | 'center' | 'right' | 'fill' | 'justify' | 'centerContinuous' | 'distributed';
+  /**
+   * Vertical alignment
+   * @default "bottom"
+   */
+  vertical?: 'top' | 'center' | 'bottom' | 'justify' | 'distributed';
+  /**
+   * Wrap text onto multiple lines
+   * @default false
+   */
+  wrapText?: boolean;
+  /**
+   * Shrink text to fit the column width
+   * @default false
+   */
+  shrinkToFit?: boolean;
+  /**
+   * Indent level (each level is about 3 characters wide)
+   * @default 0
+   */
+  indent?: number;
+  /**
+   * Text rotation as stored by Excel:
+   * 0-90 rotates counter-clockwise, 91-180 rotates clockwise by (value - 90) degrees,
+   * 255 stacks the characters vertically
+   * @default 0
+   */
+  textRotation?: number;
+};
+
 // Cell style definition
 export type Style = {
   font?: FontStyle;
+  fill?: FillStyle;
+  border?: BorderStyle;
+  alignment?: AlignmentStyle;
+  /**
+   * Number format: a built-in format ID (e.g. 10 for "0.00%") or a custom format code
+   * (e.g. '#,##0.00 "EUR"'). Date cells without a number format are formatted as "yyyy-mm-dd",
+   * or "yyyy-mm-dd hh:mm:ss" when they have a time component.
+   * @default 0 ("General")
+   */
+  numberFormat?: number | string;
+};
+
+// Cell hyperlink: an external target, a location in the workbook, or both
+export type Hyperlink = {
+  /**
+   * External target: a web address (e.g., "https://example.com"), a "mailto:" address or a file path
+   */
+  url?: string;
+  /**
+   * Location in the workbook (e.g., "Summary!A1", "'Q1 Sales'!B2" or a defined name).
+   * Combined with url, the location within the target document.
+   */
+  location?: string;
+  /**
+   * Text shown when hovering the link (ScreenTip), up to 255 characters
+   */
+  tooltip?: string;
 };
 
 // Public API Cell type
 export type Cell = {
   value: string | number | Date | boolean | null | undefined;
-  type?: 'string' | 'number' | 'date' | 'boolean' | 'formula';
+  /**
+   * Durations are elapsed times such as 25:30:00; their value is in milliseconds
+   * (or an ISO 8601 duration when read with the durations: 'iso' option).
+   */
+  type?: 'string' | 'number' | 'date' | 'boolean' | 'duration' | 'formula';
   /**
    * Formula string (e.g., "SUM(A1:A5)"). Only present when type is 'formula'.
    * Note: `value` contains the formula with "=" prefix (e.g., "=SUM(A1:A5)").
@@ -60,16 +209,44 @@ export type Cell = {
    * May be null if the formula result is an error or not available.
    */
   computedValue?: string | number | Date | boolean | null;
+  /**
+   * Array formula range. Only present on the top-left cell of an array formula (type 'formula').
+   * `range` is the block of cells the result fills (e.g., "D1:D3");
+   * `dynamic` marks dynamic array formulas whose result spills automatically.
+   */
+  arrayFormula?: {
+    range: string;
+    dynamic?: boolean;
+  };
   /**
    * Cell style
    */
   style?: Style;
+  /**
+   * Hyperlink opened when the cell is clicked. The cell value is the link text.
+   */
+  hyperlink?: Hyperlink;
+  /**
+   * Runs of differently formatted text. Only present when type is 'string'.
+   * Note: `value` contains the plain text of all runs.
+   */
+  richText?: RichTextRun[];
+  /**
+   * Value as Excel displays it with the cell's number format (e.g., "12.3%" or "1,234.50 EUR").
+   * Only present when reading with the formattedValues option, and not for empty cells.
+   */
+  formattedValue?: string;
 };
 
 // Internal Cell format for XML reader/writer
 export type CellResolved = {
-  t: 's' | 'n' | 'b' | 'd' | 'e'; // string, number, boolean, date, error
+  t: 's' | 'n' | 'b' | 'd' | 'e' | 'str'; // string, number, boolean, date, error, formula string result
   v: string | number;
+  /**
+   * Formula without "=" prefix. When present, t and v describe the cached result
+   * and v is '' if no result is available.
+   */
+  f?: string;
 };
 
 export type Row = {
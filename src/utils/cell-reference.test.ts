@@ -3,7 +3,10 @@ import {
   columnIndexToLetter,
   columnLetterToIndex,
   getCellReference,
+  getRangeReference,
   parseCellReference,
+  parseRangeReference,
+  rangesOverlap,
 } from './cell-reference';
 
 describe('Cell Reference Utilities', () => {
@@ -110,4 +113,50 @@ describe('Cell Reference Utilities', () => {
       }
     });
   });
+
+  describe('getRangeReference', () => {
+    test('should generate range references', () => {
+      expect(getRangeReference(1, 0, 10, 2)).toBe('A1:C10');
+      expect(getRangeReference(5, 27, 5, 27)).toBe('AB5');
+    });
+  });
+
+  describe('parseRangeReference', () => {
+    test('should parse ranges and single cells', () => {
+      expect(parseRangeReference('A1:C10')).toEqual({
+        start: { rowIndex: 1, colIndex: 0 },
+        end: { rowIndex: 10, colIndex: 2 },
+      });
+      expect(parseRangeReference('B2')).toEqual({
+        start: { rowIndex: 2, colIndex: 1 },
+        end: { rowIndex: 2, colIndex: 1 },
+      });
+    });
+
+    test('should ignore absolute markers and normalize corners', () => {
+      expect(parseRangeReference('$C$10:$A$1')).toEqual({
+        start: { rowIndex: 1, colIndex: 0 },
+        end: { rowIndex: 10, colIndex: 2 },
+      });
+    });
+
+    test('should return null for invalid ranges', () => {
+      expect(parseRangeReference('')).toBeNull();
+      expect(parseRangeReference('A1:')).toBeNull();
+      expect(parseRangeReference('A1:B2:C3')).toBeNull();
+      expect(parseRangeReference('A0')).toBeNull();
+    });
+  });
+
+  describe('rangesOverlap', () => {
+    test('should detect ranges sharing a cell', () => {
+      expect(rangesOverlap(parseRangeReference('A1:C3')!, parseRangeReference('C3:D4')!)).toBe(true);
+      expect(rangesOverlap(parseRangeReference('B2')!, parseRangeReference('A1:C3')!)).toBe(true);
+    });
+
+    test('should not report adjacent ranges', () => {
+      expect(rangesOverlap(parseRangeReference('A1:C3')!, parseRangeReference('D1:E3')!)).toBe(false);
+      expect(rangesOverlap(parseRangeReference('A1:C3')!, parseRangeReference('A4:C5')!)).toBe(false);
+    });
+  });
 });
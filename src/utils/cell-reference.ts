@@ -58,3 +58,63 @@ export function parseCellReference(cellRef: string): { rowIndex: number; colInde
     colIndex: columnLetterToIndex(colLetter),
   };
 }
+
+/**
+ * Generates a range reference (e.g., "A1:C10") from start and end indices
+ * A single-cell range is returned as a plain cell reference
+ * @param startRowIndex - First row (1-based)
+ * @param startColIndex - First column (0-based)
+ * @param endRowIndex - Last row (1-based, inclusive)
+ * @param endColIndex - Last column (0-based, inclusive)
+ * @returns Excel range reference string
+ */
+export function getRangeReference(
+  startRowIndex: number,
+  startColIndex: number,
+  endRowIndex: number,
+  endColIndex: number,
+): string {
+  const start = getCellReference(startRowIndex, startColIndex);
+  const end = getCellReference(endRowIndex, endColIndex);
+  return start === end ? start : `${start}:${end}`;
+}
+
+/**
+ * Parses a range reference (e.g., "A1:C10" or "B2") to start and end indices
+ * Absolute markers ($) are ignored. Start and end are normalized so start is the top-left cell.
+ * @param rangeRef - Range reference string
+ * @returns Start and end cells (rowIndex 1-based, colIndex 0-based), or null if invalid
+ */
+export function parseRangeReference(rangeRef: string): {
+  start: { rowIndex: number; colIndex: number };
+  end: { rowIndex: number; colIndex: number };
+} | null {
+  const [startRef, endRef, ...rest] = rangeRef.replace(/\$/g, '').split(':');
+  if (!startRef || rest.length > 0) return null;
+  const start = parseCellReference(startRef);
+  const end = endRef !== undefined ? parseCellReference(endRef) : start;
+  if (!start || !end || start.rowIndex < 1 || end.rowIndex < 1) return null;
+  return {
+    start: {
+      rowIndex: Math.min(start.rowIndex, end.rowIndex),
+      colIndex: Math.min(start.colIndex, end.colIndex),
+    },
+    end: {
+      rowIndex: Math.max(start.rowIndex, end.rowIndex),
+      colIndex: Math.max(start.colIndex, end.colIndex),
+    },
+  };
+}
+
+/**
+ * Checks whether two ranges share at least one cell
+ * @param a - Range bounds (see parseRangeReference)
+ * @param b - Range bounds (see parseRangeReference)
+ */
+export function rangesOverlap(
+  a: { start: { rowIndex: number; colIndex: number }; end: { rowIndex: number; colIndex: number } },
+  b: { start: { rowIndex: number; colIndex: number }; end: { rowIndex: number; colIndex: number } },
+): boolean {
+  return a.start.rowIndex <= b.end.rowIndex && b.start.rowIndex <= a.end.rowIndex &&
+    a.start.colIndex <= b.end.colIndex && b.start.colIndex <= a.end.colIndex;
+}
@@ -11,6 +11,11 @@ import type { Cell } from '../types';
  * Formula: width ≈ (character count * 1.2) + 2 (with minimum of 2)
  */
 export function estimateColumnWidth(cell: Cell): number {
+  // Duration: a fraction of a day displayed as elapsed time (e.g., 25:30:00)
+  if (cell.type === 'duration') {
+    return 10;
+  }
+
   const resolved = resolveCell(cell);
 
   switch (resolved.t) {
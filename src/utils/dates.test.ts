@@ -1,5 +1,14 @@
 import { describe, test, expect } from '@tests/framework';
-import { convertExcelTimestamp, isValidExcelDate } from './dates';
+import {
+  convertExcelTimestamp,
+  formatIsoDuration,
+  fromWallClockTime,
+  isValidExcelDate,
+  isValidTimezone,
+  parseIsoDate,
+  parseIsoDuration,
+  toWallClockTime,
+} from './dates';
 
 describe('Date Conversion Utilities', () => {
   describe('convertExcelTimestamp', () => {
@@ -60,12 +69,56 @@ describe('Date Conversion Utilities', () => {
       expect(morning.getMinutes()).toBe(0);
     });
 
+    test('should read the wall-clock time in UTC or a named time zone', () => {
+      expect(convertExcelTimestamp(45474.5, false, 'UTC').toISOString()).toBe('2024-07-01T12:00:00.000Z');
+      expect(convertExcelTimestamp(45474.5, false, 'Europe/Berlin').toISOString()).toBe('2024-07-01T10:00:00.000Z');
+      expect(convertExcelTimestamp(45292.5, false, 'Europe/Berlin').toISOString()).toBe('2024-01-01T11:00:00.000Z');
+      expect(convertExcelTimestamp(43281.5, true, 'UTC').toISOString()).toBe('2022-07-01T12:00:00.000Z');
+    });
+
     test('should throw error for invalid timestamps', () => {
       expect(() => convertExcelTimestamp(-700000, false)).toThrow();
       expect(() => convertExcelTimestamp(3000000, false)).toThrow();
     });
   });
 
+  describe('wall-clock times', () => {
+    test('should read and resolve wall-clock times in a time zone', () => {
+      const instant = new Date('2024-03-10T12:34:56.789Z');
+      expect(toWallClockTime(instant, 'UTC')).toBe(instant.getTime());
+      expect(toWallClockTime(instant, 'Asia/Kolkata')).toBe(Date.UTC(2024, 2, 10, 18, 4, 56, 789));
+      expect(fromWallClockTime(Date.UTC(2024, 2, 10, 18, 4, 56, 789), 'Asia/Kolkata')).toEqual(instant);
+      expect(fromWallClockTime(toWallClockTime(instant))).toEqual(instant);
+    });
+
+    test('should resolve wall-clock times around daylight saving changes', () => {
+      // Clocks in New York went from 02:00 to 03:00 on 2024-03-10 and from 02:00 back to 01:00 on 2024-11-03
+      expect(fromWallClockTime(Date.UTC(2024, 2, 10, 1, 30), 'America/New_York').toISOString()).toBe('2024-03-10T06:30:00.000Z');
+      expect(fromWallClockTime(Date.UTC(2024, 2, 10, 3, 30), 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+      expect(fromWallClockTime(Date.UTC(2024, 10, 3, 12), 'America/New_York').toISOString()).toBe('2024-11-03T17:00:00.000Z');
+    });
+
+    test('should validate time zones', () => {
+      expect(isValidTimezone('local')).toBe(true);
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('Europe/Berlin')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('parseIsoDate', () => {
+    test('should read dates without an offset as wall-clock times', () => {
+      expect(parseIsoDate('2024-07-01T08:30:00.5', 'Europe/Berlin').toISOString()).toBe('2024-07-01T06:30:00.500Z');
+      expect(parseIsoDate('2024-07-01', 'UTC').toISOString()).toBe('2024-07-01T00:00:00.000Z');
+      expect(parseIsoDate('2024-07-01T08:30').getHours()).toBe(8);
+    });
+
+    test('should keep explicit offsets', () => {
+      expect(parseIsoDate('2024-07-01T08:30:00Z', 'Europe/Berlin').toISOString()).toBe('2024-07-01T08:30:00.000Z');
+      expect(parseIsoDate('2024-07-01T08:30:00+05:30', 'UTC').toISOString()).toBe('2024-07-01T03:00:00.000Z');
+    });
+  });
+
   describe('isValidExcelDate', () => {
     test('should return true for valid dates', () => {
       expect(isValidExcelDate(1, false)).toBe(true);
@@ -79,4 +132,32 @@ describe('Date Conversion Utilities', () => {
       expect(isValidExcelDate(NaN, false)).toBe(false);
     });
   });
+
+  describe('formatIsoDuration', () => {
+    test('should format durations in hours, minutes and seconds', () => {
+      expect(formatIsoDuration(91800000)).toBe('PT25H30M');
+      expect(formatIsoDuration(3723500)).toBe('PT1H2M3.5S');
+      expect(formatIsoDuration(-900000)).toBe('-PT15M');
+      expect(formatIsoDuration(0)).toBe('PT0S');
+    });
+  });
+
+  describe('parseIsoDuration', () => {
+    test('should parse durations to milliseconds', () => {
+      expect(parseIsoDuration('PT25H30M')).toBe(91800000);
+      expect(parseIsoDuration('P1DT2H')).toBe(93600000);
+      expect(parseIsoDuration('P1W')).toBe(604800000);
+      expect(parseIsoDuration('PT0,5S')).toBe(500);
+      expect(parseIsoDuration('-PT15M')).toBe(-900000);
+      expect(parseIsoDuration(formatIsoDuration(3723500))).toBe(3723500);
+    });
+
+    test('should reject years, months and malformed durations', () => {
+      expect(() => parseIsoDuration('P1M')).toThrow('Invalid duration: P1M');
+      expect(() => parseIsoDuration('P1Y2D')).toThrow('Invalid duration');
+      expect(() => parseIsoDuration('PT')).toThrow('Invalid duration');
+      expect(() => parseIsoDuration('P')).toThrow('Invalid duration');
+      expect(() => parseIsoDuration('1:30')).toThrow('Invalid duration');
+    });
+  });
 });
@@ -1,6 +1,111 @@
 /*
  * Date conversion utilities for Excel date handling
  */
+import type { DateTimezone } from '@xlsx/types';
+
+/**
+ * Length of a day in milliseconds; Excel stores durations as fractions of a day
+ */
+export const MILLISECONDS_IN_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Formatters that read the wall-clock time of an instant in a named time zone, by zone
+ */
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets the formatter that reads wall-clock times in a named time zone
+ * @throws {RangeError} If the time zone is unknown
+ */
+function getWallClockFormat(timezone: string): Intl.DateTimeFormat {
+  let wallClockFormat = wallClockFormats.get(timezone);
+  if (!wallClockFormat) {
+    wallClockFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    wallClockFormats.set(timezone, wallClockFormat);
+  }
+  return wallClockFormat;
+}
+
+/**
+ * Checks if a time zone is 'local', 'UTC' or a named IANA time zone known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (timezone === 'local') {
+    return true;
+  }
+  try {
+    getWallClockFormat(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the wall-clock time of an instant in a time zone
+ * @returns The wall-clock time as milliseconds since 1970-01-01 00:00 (read as if it were UTC)
+ */
+export function toWallClockTime(date: Date, timezone: DateTimezone = 'local'): number {
+  if (timezone === 'local') {
+    return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+  }
+  if (timezone === 'UTC') {
+    return date.getTime();
+  }
+  const parts: Record<string, number> = {};
+  for (const part of getWallClockFormat(timezone).formatToParts(date)) {
+    parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!, date.getUTCMilliseconds());
+}
+
+/**
+ * Gets the instant at which a time zone shows a wall-clock time
+ * Wall-clock times skipped by a daylight saving change resolve to the instant after the change.
+ * @param wallClockTime - Milliseconds since 1970-01-01 00:00 (read as if it were UTC)
+ */
+export function fromWallClockTime(wallClockTime: number, timezone: DateTimezone = 'local'): Date {
+  if (timezone === 'local') {
+    const wallClock = new Date(wallClockTime);
+    return new Date(
+      wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate(),
+      wallClock.getUTCHours(), wallClock.getUTCMinutes(), wallClock.getUTCSeconds(), wallClock.getUTCMilliseconds(),
+    );
+  }
+  if (timezone === 'UTC') {
+    return new Date(wallClockTime);
+  }
+  // The offset at the wall-clock time read as UTC is a first guess; the offset at the guess corrects it
+  // when an offset change lies between the two
+  const guess = wallClockTime - (toWallClockTime(new Date(wallClockTime), timezone) - wallClockTime);
+  return new Date(wallClockTime - (toWallClockTime(new Date(guess), timezone) - guess));
+}
+
+/**
+ * Parses an ISO 8601 date string, as stored in t="d" cells.
+ * Dates and times without an offset are wall-clock times in the time zone.
+ *
+ * @param value - ISO 8601 date (e.g., "2024-01-15", "2024-01-15T08:30:00" or "2024-01-15T08:30:00Z")
+ * @param timezone - Time zone of wall-clock times (default: local)
+ */
+export function parseIsoDate(value: string, timezone: DateTimezone = 'local'): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/);
+  if (!match) {
+    return new Date(value);
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = ''] = match;
+  const wallClockTime = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), Number(fraction.padEnd(3, '0')));
+  return fromWallClockTime(wallClockTime, timezone);
+}
 
 /**
  * Converts an Excel timestamp (serial number) to a JavaScript Date object.
@@ -9,11 +114,13 @@
  *
  * @param excelValue - Excel serial number (days since base date)
  * @param use1904Dates - Whether to use 1904-based calendar (default: false for 1900-based)
+ * @param timezone - Time zone of the wall-clock time the serial number represents (default: local)
  * @returns JavaScript Date object
  */
 export function convertExcelTimestamp(
   excelValue: number,
   use1904Dates: boolean = false,
+  timezone: DateTimezone = 'local',
 ): Date {
   // Validate input range
   const minValue = use1904Dates ? -695055 : -693593;
@@ -29,17 +136,15 @@ export function convertExcelTimestamp(
   const days = Math.floor(excelValue);
   const timeFraction = excelValue - days;
 
+  let baseDate: number;
+  let actualDays = days;
   if (use1904Dates) {
     // 1904-based calendar: Excel day 0 = January 1, 1904
-    const baseDate = new Date(1904, 0, 1); // January 1, 1904
-    const millisecondsInDay = 24 * 60 * 60 * 1000;
-    return new Date(baseDate.getTime() + days * millisecondsInDay + timeFraction * millisecondsInDay);
+    baseDate = Date.UTC(1904, 0, 1);
   } else {
     // 1900-based calendar with Excel's leap year bug
     // Excel treats 1900 as a leap year (it wasn't), so Feb 29, 1900 exists in Excel
     // This means dates from March 1, 1900 onward are offset by +1 day
-
-    let actualDays = days;
     if (days >= 60) {
       // For dates on or after March 1, 1900 (Excel day 61), subtract 1 to compensate
       // Excel thinks Feb 29, 1900 exists (day 60), but it doesn't in reality
@@ -48,11 +153,12 @@ export function convertExcelTimestamp(
 
     // Base is December 31, 1899 (Excel day 0)
     // Excel day 1 = January 1, 1900 = December 31 + 1 day
-    const baseDate = new Date(1899, 11, 31); // December 31, 1899
-    const millisecondsInDay = 24 * 60 * 60 * 1000;
-
-    return new Date(baseDate.getTime() + actualDays * millisecondsInDay + timeFraction * millisecondsInDay);
+    baseDate = Date.UTC(1899, 11, 31);
   }
+
+  // Serial numbers are wall-clock times; the time zone decides which instant they are
+  const wallClockTime = baseDate + actualDays * MILLISECONDS_IN_DAY + Math.round(timeFraction * MILLISECONDS_IN_DAY);
+  return fromWallClockTime(wallClockTime, timezone);
 }
 
 /**
@@ -74,3 +180,39 @@ export function isValidExcelDate(value: number, use1904Dates: boolean = false):
     return false;
   }
 }
+
+/**
+ * Formats milliseconds as an ISO 8601 duration in hours, minutes and seconds.
+ * Days are not used, so elapsed hours stay exact (e.g., 25.5 hours => "PT25H30M").
+ *
+ * @param milliseconds - Length of the duration; negative durations get a leading minus sign
+ * @returns ISO 8601 duration (e.g., "PT1H2M3.5S", or "PT0S" for zero)
+ */
+export function formatIsoDuration(milliseconds: number): string {
+  const total = Math.abs(Math.round(milliseconds));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = (total % 60000) / 1000;
+
+  const parts = (hours ? `${hours}H` : '') + (minutes ? `${minutes}M` : '') + (seconds || total === 0 ? `${seconds}S` : '');
+  return `${milliseconds < 0 && total > 0 ? '-' : ''}PT${parts}`;
+}
+
+/**
+ * Parses an ISO 8601 duration in weeks, days, hours, minutes and seconds to milliseconds.
+ * Years and months have no fixed length and are rejected.
+ *
+ * @param duration - ISO 8601 duration (e.g., "PT7H30M", "P1DT2H" or "-PT15M")
+ * @returns Length of the duration in milliseconds
+ */
+export function parseIsoDuration(duration: string): number {
+  const number = '(\\d+(?:[.,]\\d+)?)';
+  const match = duration.match(new RegExp(`^([+-])?P(?:${number}W)?(?:${number}D)?(?:T(?:${number}H)?(?:${number}M)?(?:${number}S)?)?$`));
+  if (!match || match.slice(2).every((part) => part === undefined) || duration.endsWith('T')) {
+    throw new Error(`Invalid duration: ${duration}. Expected an ISO 8601 duration in weeks, days, hours, minutes and seconds (e.g., PT7H30M)`);
+  }
+
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map((part) => (part ? parseFloat(part.replace(',', '.')) : 0));
+  const milliseconds = Math.round(((((weeks! * 7 + days!) * 24 + hours!) * 60 + minutes!) * 60 + seconds!) * 1000);
+  return match[1] === '-' && milliseconds !== 0 ? -milliseconds : milliseconds;
+}
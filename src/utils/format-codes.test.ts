@@ -1,9 +1,13 @@
 import { describe, test, expect } from '@tests/framework';
 import {
+  applyNumberFormat,
   convertExcelFormatToDateFns,
+  formatDuration,
   getBuiltInFormatCode,
+  getBuiltInFormatId,
   isBuiltInDateFormat,
   isDateFormatCode,
+  isDurationFormatCode,
 } from './format-codes';
 
 describe('Format Code Utilities', () => {
@@ -40,6 +44,24 @@ describe('Format Code Utilities', () => {
     test('should handle empty or null format codes', () => {
       expect(isDateFormatCode('')).toBe(false);
     });
+
+    test('should ignore colors and quoted text', () => {
+      expect(isDateFormatCode('#,##0;[Red]-#,##0')).toBe(false);
+      expect(isDateFormatCode('0 "days"')).toBe(false);
+      expect(isDateFormatCode('[Blue]yyyy-mm-dd')).toBe(true);
+    });
+  });
+
+  describe('isDurationFormatCode', () => {
+    test('should identify elapsed time formats', () => {
+      expect(isDurationFormatCode('[h]:mm:ss')).toBe(true);
+      expect(isDurationFormatCode('[mm]:ss.00')).toBe(true);
+      expect(isDurationFormatCode('[Red][H]:mm')).toBe(true);
+      expect(isDurationFormatCode('h:mm:ss')).toBe(false);
+      expect(isDurationFormatCode('[Red]0.00')).toBe(false);
+      expect(isDurationFormatCode('0 "[h]"')).toBe(false);
+      expect(isDurationFormatCode('')).toBe(false);
+    });
   });
 
   describe('convertExcelFormatToDateFns', () => {
@@ -116,4 +138,117 @@ describe('Format Code Utilities', () => {
       expect(getBuiltInFormatCode(13)).toBeNull();
     });
   });
+
+  describe('applyNumberFormat', () => {
+    test('should render General like Excel', () => {
+      expect(applyNumberFormat(0.1 + 0.2, 'General')).toBe('0.3');
+      expect(applyNumberFormat(-1234567.891, 'General')).toBe('-1234567.891');
+      expect(applyNumberFormat(123456789012, 'General')).toBe('1.23457E+11');
+      expect(applyNumberFormat(42, '@')).toBe('42');
+    });
+
+    test('should render digit placeholders, decimals and thousands separators', () => {
+      expect(applyNumberFormat(1234.5, '#,##0.00')).toBe('1,234.50');
+      expect(applyNumberFormat(1.005, '0.00')).toBe('1.01');
+      expect(applyNumberFormat(0.5, '#.##')).toBe('.5');
+      expect(applyNumberFormat(7, '00000')).toBe('00007');
+      expect(applyNumberFormat(3.1, '?.??')).toBe('3.1 ');
+      expect(applyNumberFormat(5551234, '000-0000')).toBe('555-1234');
+      expect(applyNumberFormat(1500000, '#,##0.0,,"M"')).toBe('1.5M');
+    });
+
+    test('should render numbers whose text is in exponent form', () => {
+      expect(applyNumberFormat(1e-7, '0.00')).toBe('0.00');
+      expect(applyNumberFormat(0.1 + 0.2 - 0.3, '0.00')).toBe('0.00');
+      expect(applyNumberFormat(2.5e-7, '0.000000')).toBe('0.000000');
+      expect(applyNumberFormat(5e-7, '0.000000')).toBe('0.000001');
+      expect(applyNumberFormat(1e21, '#,##0')).toBe('1,000,000,000,000,000,000,000');
+      expect(applyNumberFormat(1.5e22, '0.00')).toBe('15000000000000000000000.00');
+      expect(applyNumberFormat(1e-7, '0.00E+00')).toBe('1.00E-07');
+      expect(applyNumberFormat(1e21, '0.00E+00')).toBe('1.00E+21');
+    });
+
+    test('should render percent and scientific notation', () => {
+      expect(applyNumberFormat(0.1234, '0.0%')).toBe('12.3%');
+      expect(applyNumberFormat(12345.678, '0.00E+00')).toBe('1.23E+04');
+      expect(applyNumberFormat(0.000123, '0.00E+00')).toBe('1.23E-04');
+      expect(applyNumberFormat(12345, '##0.0E+0')).toBe('12.3E+3');
+    });
+
+    test('should render fractions', () => {
+      expect(applyNumberFormat(1.5, '# ?/?')).toBe('1 1/2');
+      expect(applyNumberFormat(0.3333, '# ??/??')).toBe(' 1/3 ');
+      expect(applyNumberFormat(0.75, '?/4')).toBe('3/4');
+      expect(applyNumberFormat(2.3, '# ?/8')).toBe('2 2/8');
+    });
+
+    test('should render literal text, currency symbols and ignore colors', () => {
+      expect(applyNumberFormat(1234.5, '#,##0.00 "EUR"')).toBe('1,234.50 EUR');
+      expect(applyNumberFormat(1234.5, '[$€-407]#,##0.00')).toBe('€1,234.50');
+      expect(applyNumberFormat(12, '0.0_);[Red](0.0)')).toBe('12.0 ');
+      expect(applyNumberFormat(5, '0\\h')).toBe('5h');
+    });
+
+    test('should pick the section for positive, negative, zero and text values', () => {
+      expect(applyNumberFormat(-1234.5, '#,##0.00')).toBe('-1,234.50');
+      expect(applyNumberFormat(-5, '#,##0;[Red](#,##0)')).toBe('(5)');
+      expect(applyNumberFormat(0, '0.00;-0.00;"zero"')).toBe('zero');
+      expect(applyNumberFormat('Tea', '0;-0;0;"Item: "@')).toBe('Item: Tea');
+      expect(applyNumberFormat('Tea', '0.00')).toBe('Tea');
+    });
+
+    test('should pick conditional sections', () => {
+      const code = '[>=1000000]0.0,,"M";[>=1000]0.0,"K";0';
+      expect(applyNumberFormat(2500000, code)).toBe('2.5M');
+      expect(applyNumberFormat(2500, code)).toBe('2.5K');
+      expect(applyNumberFormat(25, code)).toBe('25');
+    });
+  });
+
+  describe('formatDuration', () => {
+    test('should count elapsed units past the next larger unit', () => {
+      expect(formatDuration(1.0625, '[h]:mm:ss')).toBe('25:30:00');
+      expect(formatDuration(1.0625, '[mm]:ss')).toBe('1530:00');
+      expect(formatDuration(1 / 1440, '[ss]')).toBe('60');
+      expect(formatDuration(1.0625, '[hh]:mm')).toBe('25:30');
+      expect(formatDuration(0.25, '[hhh]:mm')).toBe('006:00');
+    });
+
+    test('should wrap units without brackets like a clock', () => {
+      expect(formatDuration(1.0625, 'h:mm:ss')).toBe('1:30:00');
+      expect(formatDuration(1.0625, 'mm:ss')).toBe('30:00');
+    });
+
+    test('should render fractional seconds and carry rounding', () => {
+      expect(formatDuration(1.5 / 86400, '[mm]:ss.0')).toBe('00:01.5');
+      expect(formatDuration(59.996 / 86400, '[m]:ss.00')).toBe('1:00.00');
+      expect(formatDuration(59.6 / 86400, '[m]:ss')).toBe('1:00');
+    });
+
+    test('should render literal text and ignore colors', () => {
+      expect(formatDuration(0.5, '[h] "hours"')).toBe('12 hours');
+      expect(formatDuration(0.5, '[Blue][h]\\h mm\\m')).toBe('12h 00m');
+    });
+
+    test('should render negative durations', () => {
+      expect(formatDuration(-0.0625, '[h]:mm')).toBe('-1:30');
+      expect(formatDuration(-0.0625, '[h]:mm;"minus "[h]:mm')).toBe('minus 1:30');
+      expect(formatDuration(0, '[h]:mm:ss')).toBe('0:00:00');
+    });
+  });
+
+  describe('getBuiltInFormatId', () => {
+    test('should return IDs for built-in format codes', () => {
+      expect(getBuiltInFormatId('General')).toBe(0);
+      expect(getBuiltInFormatId('0.00')).toBe(2);
+      expect(getBuiltInFormatId('0.00%')).toBe(10);
+      expect(getBuiltInFormatId('mm/dd/yyyy')).toBe(14);
+      expect(getBuiltInFormatId('@')).toBe(49);
+    });
+
+    test('should return null for custom format codes', () => {
+      expect(getBuiltInFormatId('yyyy-mm-dd')).toBeNull();
+      expect(getBuiltInFormatId('#,##0.00 "EUR"')).toBeNull();
+    });
+  });
 });
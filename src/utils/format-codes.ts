@@ -1,5 +1,5 @@
 /*
- * Format code conversion utilities for Excel date formatting
+ * Format code utilities for Excel date and number formatting
  */
 
 /**
@@ -8,6 +8,60 @@
  */
 export const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
 
+/**
+ * Format codes applied to date cells written without an explicit number format
+ * Dates with a time component use the date-time variant
+ */
+export const DEFAULT_DATE_FORMAT_CODE = 'yyyy-mm-dd';
+export const DEFAULT_DATE_TIME_FORMAT_CODE = 'yyyy-mm-dd hh:mm:ss';
+
+/**
+ * Format code applied to duration cells written without an explicit number format
+ * Elapsed hours keep counting past 24 (e.g., 25:30:00)
+ */
+export const DEFAULT_DURATION_FORMAT_CODE = '[h]:mm:ss';
+
+/**
+ * First number format ID available for custom format codes
+ * IDs below this are reserved for built-in formats
+ */
+export const FIRST_CUSTOM_FORMAT_ID = 164;
+
+/**
+ * Built-in Excel number formats that are referenced by ID only and never written to styles.xml
+ * IDs 27-36 and 50-81 are locale-specific and have no fixed format code
+ */
+const BUILT_IN_FORMAT_CODES: Record<number, string> = {
+  0: 'General',
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'mm/dd/yyyy',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'm/d/yy h:mm',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)',
+  40: '#,##0.00;[Red](#,##0.00)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mmss.0',
+  48: '##0.0E+0',
+  49: '@',
+};
+
 /**
  * Built-in Excel date/time format IDs
  * IDs 14-22 are date/time formats
@@ -38,13 +92,16 @@ export function isDateFormatCode(formatCode: string): boolean {
   if (!formatCode) return false;
 
   // Remove locale prefixes like [$-409]
-  const cleaned = formatCode.replace(/\[\$-\d+\]/g, '');
+  let cleaned = formatCode.replace(/\[\$-\d+\]/g, '');
 
   // Check for duration formats (e.g., [h]:mm:ss) - these are time intervals, not dates
   if (/\[[hms]+\]/.test(cleaned)) {
-    return false; // Duration formats are handled separately
+    return false; // Duration formats are handled separately (see isDurationFormatCode)
   }
 
+  // Colors, conditions, quoted text and escaped characters are not date patterns (e.g., the "d" of [Red])
+  cleaned = cleaned.replace(/\[[^\]]*\]|"[^"]*"|\\./g, '');
+
   // Date patterns: yyyy, yy, mm, m, dd, d, e (year - only when part of year pattern)
   // Time patterns: hh, h, mm (when preceded/followed by :), ss, am/pm
   // Year patterns: yyyy, yy, e (only when part of year pattern like "e" or "ee" or "eee" or "eeee")
@@ -56,6 +113,14 @@ export function isDateFormatCode(formatCode: string): boolean {
   return yearPatterns.test(cleaned) || datePatterns.test(cleaned) || timePatterns.test(cleaned);
 }
 
+/**
+ * Checks if a format code is an elapsed time format (e.g., [h]:mm:ss or [mm]:ss)
+ */
+export function isDurationFormatCode(formatCode: string): boolean {
+  if (!formatCode) return false;
+  return /\[(?:h+|m+|s+)\]/i.test(formatCode.replace(/"[^"]*"|\\./g, ''));
+}
+
 /**
  * Converts Excel format code to date-fns format string
  * Handles common Excel date/time format patterns
@@ -63,7 +128,7 @@ export function isDateFormatCode(formatCode: string): boolean {
  * @limitations Compact time formats without separators are not supported:
  * - hmm, hhmmss (adjacent hour/minute/second tokens without colons)
  * - Cases where 'm' appears adjacent to hour tokens may be mis-handled
- * - Elapsed time formats ([h], [m], [s]) are not supported and will be approximated or ignored
+ * - Elapsed time formats ([h], [m], [s]) are not supported and will be approximated (see formatDuration)
  */
 export function convertExcelFormatToDateFns(excelFormat: string): string {
   if (!excelFormat) {
@@ -297,17 +362,583 @@ export function convertExcelFormatToDateFns(excelFormat: string): string {
  * Gets the default format code for a built-in format ID
  */
 export function getBuiltInFormatCode(id: number): string | null {
-  const formatMap: Record<number, string> = {
-    14: 'mm/dd/yyyy',
-    15: 'd-mmm-yy',
-    16: 'd-mmm',
-    17: 'mmm-yy',
-    18: 'h:mm AM/PM',
-    19: 'h:mm:ss AM/PM',
-    20: 'h:mm',
-    21: 'h:mm:ss',
-    22: 'm/d/yy h:mm',
+  return isBuiltInDateFormat(id) ? BUILT_IN_FORMAT_CODES[id] ?? null : null;
+}
+
+/**
+ * Gets the format code of any built-in format ID, including non-date formats
+ * @returns null for locale-specific IDs, which have no fixed format code
+ */
+export function lookupBuiltInFormatCode(id: number): string | null {
+  return BUILT_IN_FORMAT_CODES[id] ?? null;
+}
+
+/**
+ * Gets the built-in format ID for a format code
+ * @returns The built-in ID, or null if the code needs a custom numFmt entry
+ */
+export function getBuiltInFormatId(formatCode: string): number | null {
+  for (const [id, code] of Object.entries(BUILT_IN_FORMAT_CODES)) {
+    if (code === formatCode) {
+      return Number(id);
+    }
+  }
+  return null;
+}
+
+/**
+ * Token of a number format section
+ */
+type FormatToken =
+  | { type: 'literal'; text: string }
+  | { type: 'digit'; placeholder: '0' | '#' | '?' }
+  | { type: 'point' }
+  | { type: 'comma' }
+  | { type: 'percent' }
+  | { type: 'exponent'; sign: '+' | '-' }
+  | { type: 'slash' }
+  | { type: 'general' }
+  | { type: 'text' };
+
+/**
+ * Section of a number format code, with its optional condition (e.g., [>=100])
+ */
+interface FormatSection {
+  tokens: FormatToken[];
+  condition?: { operator: string; value: number };
+}
+
+/**
+ * Splits a format code into its sections (positive;negative;zero;text)
+ * Semicolons in quoted text, brackets or after a backslash do not split sections.
+ */
+function splitFormatSections(formatCode: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inBrackets = false;
+  for (let i = 0; i < formatCode.length; i++) {
+    const char = formatCode[i]!;
+    if (char === '\\' && !inQuotes && i + 1 < formatCode.length) {
+      current += char + formatCode[++i];
+      continue;
+    }
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === '[' && !inQuotes) inBrackets = true;
+    else if (char === ']' && !inQuotes) inBrackets = false;
+    else if (char === ';' && !inQuotes && !inBrackets) {
+      sections.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  sections.push(current);
+  return sections;
+}
+
+/**
+ * Tokenizes a section of a number format code
+ * Colors and locales are ignored; currency symbols such as [$€-407] become literal text.
+ */
+function parseFormatSection(section: string): FormatSection {
+  const tokens: FormatToken[] = [];
+  let condition: FormatSection['condition'];
+  const literal = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'literal') {
+      last.text += text;
+    } else {
+      tokens.push({ type: 'literal', text });
+    }
   };
 
-  return formatMap[id] || null;
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i]!;
+    const rest = section.slice(i);
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1);
+      literal(section.slice(i + 1, end === -1 ? undefined : end));
+      i = end === -1 ? section.length : end;
+    } else if (char === '\\') {
+      literal(section[++i] ?? '');
+    } else if (char === '_') {
+      // Space as wide as the next character, used to align columns
+      i++;
+      literal(' ');
+    } else if (char === '*') {
+      // Repeats the next character to fill the cell, which has no width here
+      i++;
+    } else if (char === '[') {
+      const end = section.indexOf(']', i);
+      const content = section.slice(i + 1, end === -1 ? undefined : end);
+      const conditionMatch = content.match(/^(<=|>=|<>|<|>|=)\s*(-?\d+(?:\.\d+)?)$/);
+      if (conditionMatch) {
+        condition = { operator: conditionMatch[1]!, value: parseFloat(conditionMatch[2]!) };
+      } else if (content.startsWith('$')) {
+        literal(content.slice(1).split('-')[0]!);
+      }
+      i = end === -1 ? section.length : end;
+    } else if (/^general/i.test(rest)) {
+      tokens.push({ type: 'general' });
+      i += 'general'.length - 1;
+    } else if (char === '0' || char === '#' || char === '?') {
+      tokens.push({ type: 'digit', placeholder: char });
+    } else if (char === '.') {
+      if (tokens.some((token) => token.type === 'point')) {
+        literal('.');
+      } else {
+        tokens.push({ type: 'point' });
+      }
+    } else if (char === ',') {
+      tokens.push({ type: 'comma' });
+    } else if (char === '%') {
+      tokens.push({ type: 'percent' });
+    } else if ((char === 'E' || char === 'e') && (section[i + 1] === '+' || section[i + 1] === '-')) {
+      tokens.push({ type: 'exponent', sign: section[i + 1] as '+' | '-' });
+      i++;
+    } else if (char === '/') {
+      tokens.push({ type: 'slash' });
+    } else if (char === '@') {
+      tokens.push({ type: 'text' });
+    } else {
+      literal(char);
+    }
+  }
+  return { tokens, condition };
+}
+
+/**
+ * Checks a value against the condition of a format section
+ */
+function matchesCondition(value: number, condition: NonNullable<FormatSection['condition']>): boolean {
+  switch (condition.operator) {
+    case '<': return value < condition.value;
+    case '<=': return value <= condition.value;
+    case '>': return value > condition.value;
+    case '>=': return value >= condition.value;
+    case '=': return value === condition.value;
+    default: return value !== condition.value;
+  }
+}
+
+/**
+ * Shifts the decimal point of a number by a power of ten through its decimal text,
+ * without the binary rounding errors of multiplying (1.005 * 100 is 100.49999...)
+ */
+function shiftDecimals(value: number, places: number): number {
+  // String(value) is in exponent form for very small or large numbers (1e-7, 1e+21)
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+}
+
+/**
+ * Rounds a number to a number of decimals like Excel (1.005 rounds to 1.01)
+ */
+function roundDecimals(value: number, decimals: number): number {
+  return shiftDecimals(Math.round(shiftDecimals(value, decimals)), -decimals);
+}
+
+/**
+ * Converts a non-negative number to fixed-point text; unlike toFixed, numbers
+ * from 1e21 up are written out in full instead of in exponent form
+ */
+function toFixedText(value: number, decimals: number): string {
+  if (value < 1e21) {
+    return value.toFixed(decimals);
+  }
+  const integer = BigInt(value).toString();
+  return decimals > 0 ? `${integer}.${'0'.repeat(decimals)}` : integer;
+}
+
+/**
+ * Formats a number in the General format: up to 11 characters, scientific for very large or small numbers
+ */
+function formatGeneral(value: number): string {
+  const abs = Math.abs(value);
+  if (abs === 0) {
+    return '0';
+  }
+  const text = abs >= 1e11 || abs < 1e-9
+    ? value.toExponential(5)
+    : String(Number(value.toPrecision(abs < 1 ? 9 : 10)));
+  const match = text.match(/^(-?[\d.]+)e([+-])(\d+)$/);
+  if (!match) {
+    return text;
+  }
+  const mantissa = match[1]!.includes('.') ? match[1]!.replace(/\.?0+$/, '') : match[1]!;
+  return `${mantissa}E${match[2]}${match[3]!.padStart(2, '0')}`;
+}
+
+/**
+ * Fills integer digit placeholders from the right; the leftmost placeholder takes all remaining digits
+ * @param digits - Integer digits of the value ('' for a zero integer part without 0 placeholders)
+ * @param grouping - Insert thousands separators
+ */
+function fillIntegerPlaceholders(tokens: FormatToken[], digits: string, grouping: boolean): string {
+  const firstDigit = tokens.findIndex((token) => token.type === 'digit');
+  let remaining = digits;
+  let emitted = 0;
+  let output = '';
+  const emit = (digit: string) => {
+    if (grouping && emitted > 0 && emitted % 3 === 0) {
+      output = `,${output}`;
+    }
+    output = digit + output;
+    emitted++;
+  };
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i]!;
+    if (token.type === 'literal') {
+      output = token.text + output;
+    } else if (token.type === 'digit') {
+      if (remaining.length > 0) {
+        const take = i === firstDigit ? remaining.length : 1;
+        for (const digit of remaining.slice(-take).split('').reverse()) {
+          emit(digit);
+        }
+        remaining = remaining.slice(0, -take);
+      } else if (token.placeholder === '0') {
+        emit('0');
+      } else if (token.placeholder === '?') {
+        output = ` ${output}`;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Fills decimal digit placeholders from the left; trailing zeros are dropped for # and blanked for ?
+ */
+function fillDecimalPlaceholders(tokens: FormatToken[], digits: string): string {
+  const significant = digits.replace(/0+$/, '');
+  let index = 0;
+  let output = '';
+  for (const token of tokens) {
+    if (token.type === 'literal') {
+      output += token.text;
+    } else if (token.type === 'digit') {
+      if (index < significant.length || token.placeholder === '0') {
+        output += digits[index] ?? '0';
+      } else if (token.placeholder === '?') {
+        output += ' ';
+      }
+      index++;
+    }
+  }
+  return output;
+}
+
+/**
+ * Renders a non-negative number with the integer and decimal placeholders of a section
+ */
+function formatDecimal(tokens: FormatToken[], value: number, grouping: boolean): string {
+  const pointIndex = tokens.findIndex((token) => token.type === 'point');
+  const integerTokens = pointIndex === -1 ? tokens : tokens.slice(0, pointIndex);
+  const decimalTokens = pointIndex === -1 ? [] : tokens.slice(pointIndex + 1);
+  const decimals = decimalTokens.filter((token) => token.type === 'digit').length;
+
+  const [integerPart, decimalPart = ''] = toFixedText(roundDecimals(value, decimals), decimals).split('.');
+  const hasZeroPlaceholder = integerTokens.some((token) => token.type === 'digit' && token.placeholder === '0');
+  const integerDigits = integerPart === '0' && !hasZeroPlaceholder ? '' : integerPart!;
+
+  const integer = fillIntegerPlaceholders(integerTokens, integerDigits, grouping);
+  return pointIndex === -1 ? integer : `${integer}.${fillDecimalPlaceholders(decimalTokens, decimalPart)}`;
+}
+
+/**
+ * Renders a non-negative number in scientific notation (e.g., 0.00E+00 or engineering ##0.0E+0)
+ */
+function formatScientific(tokens: FormatToken[], value: number): string {
+  const exponentIndex = tokens.findIndex((token) => token.type === 'exponent');
+  const exponentToken = tokens[exponentIndex] as Extract<FormatToken, { type: 'exponent' }>;
+  const mantissaTokens = tokens.slice(0, exponentIndex);
+  const exponentTokens = tokens.slice(exponentIndex + 1);
+  const pointIndex = mantissaTokens.findIndex((token) => token.type === 'point');
+  const integerPlaceholders = (pointIndex === -1 ? mantissaTokens : mantissaTokens.slice(0, pointIndex))
+    .filter((token) => token.type === 'digit');
+  const decimals = pointIndex === -1 ? 0 : mantissaTokens.slice(pointIndex + 1).filter((token) => token.type === 'digit').length;
+
+  // With # in the integer part the exponent is a multiple of the number of integer placeholders
+  const width = Math.max(integerPlaceholders.length, 1);
+  const engineering = integerPlaceholders.some((token) => token.type === 'digit' && token.placeholder === '#');
+  const step = engineering ? width : 1;
+  let exponent = value === 0 ? 0 : Math.floor(Math.log10(value));
+  exponent = engineering ? Math.floor(exponent / step) * step : exponent - (width - 1);
+  let mantissa = roundDecimals(value / 10 ** exponent, decimals);
+  if (value !== 0 && mantissa >= 10 ** (engineering ? step : width)) {
+    exponent += step;
+    mantissa = roundDecimals(value / 10 ** exponent, decimals);
+  }
+
+  const exponentDigits = exponentTokens.filter((token) => token.type === 'digit').length;
+  const sign = exponent < 0 ? '-' : exponentToken.sign === '+' ? '+' : '';
+  const exponentText = String(Math.abs(exponent)).padStart(exponentDigits, '0');
+  const suffix = exponentTokens.filter((token) => token.type === 'literal').map((token) => (token as { text: string }).text).join('');
+  return `${formatDecimal(mantissaTokens, mantissa, false)}E${sign}${exponentText}${suffix}`;
+}
+
+/**
+ * Finds the closest fraction with a denominator up to a maximum
+ */
+function approximateFraction(value: number, maxDenominator: number): { numerator: number; denominator: number } {
+  let best = { numerator: Math.round(value), denominator: 1 };
+  let bestError = Math.abs(value - best.numerator);
+  for (let denominator = 2; denominator <= maxDenominator && bestError > 0; denominator++) {
+    const numerator = Math.round(value * denominator);
+    const error = Math.abs(value - numerator / denominator);
+    if (error < bestError) {
+      best = { numerator, denominator };
+      bestError = error;
+    }
+  }
+  return best;
+}
+
+/**
+ * Renders a non-negative number as a fraction (e.g., # ?/? or # ??/16)
+ * The integer part is optional; without it the value is written as an improper fraction.
+ */
+function formatFraction(tokens: FormatToken[], value: number): string {
+  const slashIndex = tokens.findIndex((token) => token.type === 'slash');
+  const before = tokens.slice(0, slashIndex);
+  const denominatorTokens = tokens.slice(slashIndex + 1);
+
+  // The numerator is the last group of digit placeholders before the slash; an integer part may precede it
+  let numeratorStart = before.length;
+  while (numeratorStart > 0 && before[numeratorStart - 1]!.type === 'digit') numeratorStart--;
+  const numeratorTokens = before.slice(numeratorStart);
+  const integerTokens = before.slice(0, numeratorStart);
+  const hasIntegerPart = integerTokens.some((token) => token.type === 'digit');
+
+  // A fixed denominator is written as digits (e.g., ?/8); otherwise its placeholders limit its size
+  const fixedDenominator = denominatorTokens.map((token) => (token.type === 'literal' ? token.text : '')).join('').match(/^\d+/);
+  const denominatorPlaceholders = denominatorTokens.filter((token) => token.type === 'digit').length;
+
+  let integer = hasIntegerPart ? Math.floor(value) : 0;
+  const fraction = value - integer;
+  const approximation = fixedDenominator
+    ? { numerator: Math.round(fraction * Number(fixedDenominator[0])), denominator: Number(fixedDenominator[0]) }
+    : approximateFraction(fraction, 10 ** Math.max(denominatorPlaceholders, 1) - 1);
+  const denominator = approximation.denominator;
+  let numerator = approximation.numerator;
+  if (hasIntegerPart && numerator === denominator) {
+    integer++;
+    numerator = 0;
+  }
+
+  const integerText = hasIntegerPart
+    ? fillIntegerPlaceholders(integerTokens, integer === 0 && numerator !== 0 ? '' : String(integer), false)
+    : '';
+  if (hasIntegerPart && numerator === 0) {
+    // Whole numbers keep the width of the fraction as spaces
+    const width = numeratorTokens.length + 1 + (fixedDenominator ? fixedDenominator[0].length : denominatorPlaceholders);
+    return `${integerText.trimEnd()}${' '.repeat(width + 1)}`;
+  }
+  const numeratorText = String(numerator).padStart(numeratorTokens.length, ' ');
+  const denominatorText = fixedDenominator ? String(denominator) : String(denominator).padEnd(denominatorPlaceholders, ' ');
+  const suffix = denominatorTokens.filter((token) => token.type === 'literal').map((token) => (token as { text: string }).text).join('')
+    .replace(/^\d+/, '');
+  return `${integer === 0 ? integerText.trim() : integerText}${numeratorText}/${denominatorText}${suffix}`;
+}
+
+/**
+ * Renders a non-negative number with a section of a number format code
+ */
+function formatNumberSection(section: FormatSection, value: number): string {
+  const tokens = section.tokens;
+  if (tokens.some((token) => token.type === 'general') || !tokens.some((token) => token.type === 'digit')) {
+    // Sections without placeholders show their literal text, or the number in the General format
+    const general = formatGeneral(value);
+    const showsNumber = tokens.some((token) => token.type === 'general' || token.type === 'text');
+    return tokens.map((token) => (token.type === 'literal' ? token.text : token.type === 'percent' ? '%' : token.type === 'general' || token.type === 'text' ? general : ''))
+      .join('') || (showsNumber ? general : '');
+  }
+
+  // Each % multiplies by 100; commas after the last digit placeholder divide by 1000,
+  // and commas between integer placeholders turn on thousands separators
+  let scaled = value * 100 ** tokens.filter((token) => token.type === 'percent').length;
+  const numberEnd = tokens.findIndex((token) => token.type === 'exponent' || token.type === 'slash');
+  const pointIndex = tokens.findIndex((token) => token.type === 'point');
+  let lastDigit = -1;
+  let lastIntegerDigit = -1;
+  tokens.forEach((token, index) => {
+    if (token.type === 'digit' && (numberEnd === -1 || index < numberEnd)) {
+      lastDigit = index;
+      if (pointIndex === -1 || index < pointIndex) lastIntegerDigit = index;
+    }
+  });
+  let grouping = false;
+  const digitTokens: FormatToken[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type === 'comma') {
+      if (index > lastDigit && (numberEnd === -1 || index < numberEnd)) {
+        scaled /= 1000;
+      } else if (index < lastIntegerDigit) {
+        grouping = true;
+      } else {
+        digitTokens.push({ type: 'literal', text: ',' });
+      }
+    } else if (token.type === 'percent') {
+      digitTokens.push({ type: 'literal', text: '%' });
+    } else {
+      digitTokens.push(token);
+    }
+  });
+
+  if (digitTokens.some((token) => token.type === 'exponent')) {
+    return formatScientific(digitTokens, scaled);
+  }
+  if (digitTokens.some((token) => token.type === 'slash')) {
+    return formatFraction(digitTokens, scaled);
+  }
+  return formatDecimal(digitTokens, scaled, grouping);
+}
+
+/**
+ * Renders a value as Excel displays it with a number format code
+ * Supports sections (positive;negative;zero;text) with conditions, digit placeholders (0 # ?),
+ * thousands separators and scaling, percent, scientific notation, fractions and literal text.
+ * Colors are ignored. Date and time codes are not rendered here (see convertExcelFormatToDateFns and formatDuration).
+ * @example applyNumberFormat(1234.5, '#,##0.00 "EUR"') => '1,234.50 EUR'
+ */
+export function applyNumberFormat(value: number | string, formatCode: string): string {
+  const sections = splitFormatSections(formatCode).map(parseFormatSection);
+
+  if (typeof value === 'string') {
+    // Text is only changed by a section with an @ placeholder (the fourth, or the only one)
+    const textSection = sections[3] ?? sections.find((section) => section.tokens.some((token) => token.type === 'text'));
+    if (!textSection) {
+      return value;
+    }
+    return textSection.tokens.map((token) => (token.type === 'literal' ? token.text : token.type === 'text' ? value : '')).join('');
+  }
+
+  if (!Number.isFinite(value)) {
+    return String(value);
+  }
+
+  // Conditional sections are tried in order; the section after them applies to all other values
+  let section: FormatSection;
+  let showSign = true;
+  if (sections.some((candidate) => candidate.condition)) {
+    const numberSections = sections.slice(0, 3);
+    section = numberSections.find((candidate) => candidate.condition && matchesCondition(value, candidate.condition))
+      ?? numberSections.find((candidate) => !candidate.condition)
+      ?? sections[0]!;
+  } else if (value < 0 && sections.length > 1) {
+    section = sections[1]!;
+    showSign = false;
+  } else if (value === 0 && sections.length > 2) {
+    section = sections[2]!;
+  } else {
+    section = sections[0]!;
+  }
+
+  const text = formatNumberSection(section, Math.abs(value));
+  return value < 0 && showSign ? `-${text}` : text;
+}
+
+/**
+ * Token of an elapsed time format section
+ * Elapsed units ([h], [mm], ...) count the whole duration; other units show what remains of the next larger unit.
+ */
+type DurationToken =
+  | { type: 'literal'; text: string }
+  | { type: 'unit'; unit: 'h' | 'm' | 's'; width: number; elapsed: boolean }
+  | { type: 'fraction'; digits: number };
+
+/**
+ * Tokenizes a section of an elapsed time format code
+ */
+function parseDurationSection(section: string): DurationToken[] {
+  const tokens: DurationToken[] = [];
+  const literal = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'literal') {
+      last.text += text;
+    } else {
+      tokens.push({ type: 'literal', text });
+    }
+  };
+
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i]!;
+    const lower = char.toLowerCase();
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1);
+      literal(section.slice(i + 1, end === -1 ? undefined : end));
+      i = end === -1 ? section.length : end;
+    } else if (char === '\\') {
+      literal(section[++i] ?? '');
+    } else if (char === '_') {
+      i++;
+      literal(' ');
+    } else if (char === '*') {
+      i++;
+    } else if (char === '[') {
+      const end = section.indexOf(']', i);
+      const content = section.slice(i + 1, end === -1 ? undefined : end);
+      if (/^(?:h+|m+|s+)$/i.test(content)) {
+        tokens.push({ type: 'unit', unit: content[0]!.toLowerCase() as 'h' | 'm' | 's', width: content.length, elapsed: true });
+      }
+      // Colors, conditions and locales are ignored
+      i = end === -1 ? section.length : end;
+    } else if (lower === 'h' || lower === 'm' || lower === 's') {
+      let width = 1;
+      while (section[i + 1]?.toLowerCase() === lower) {
+        width++;
+        i++;
+      }
+      tokens.push({ type: 'unit', unit: lower, width, elapsed: false });
+    } else if (char === '.' && section[i + 1] === '0' && tokens[tokens.length - 1]?.type === 'unit') {
+      let digits = 0;
+      while (section[i + 1] === '0') {
+        digits++;
+        i++;
+      }
+      tokens.push({ type: 'fraction', digits });
+    } else {
+      literal(char);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Renders a duration as Excel displays it with an elapsed time format code
+ * Negative durations use the second section if there is one, or get a minus sign.
+ * @param days - Duration in days (Excel's serial representation)
+ * @example formatDuration(1.0625, '[h]:mm:ss') => '25:30:00'
+ */
+export function formatDuration(days: number, formatCode: string): string {
+  if (!Number.isFinite(days)) {
+    return String(days);
+  }
+  const sections = splitFormatSections(formatCode);
+  const useNegativeSection = days < 0 && sections.length > 1;
+  const tokens = parseDurationSection(useNegativeSection ? sections[1]! : sections[0]!);
+
+  // Round once at the displayed precision so that carries reach the larger units (59.999 seconds => 1:00)
+  const digits = Math.max(0, ...tokens.map((token) => (token.type === 'fraction' ? token.digits : 0)));
+  const scale = 10 ** digits;
+  const units = Math.round(Math.abs(days) * 86400 * scale);
+  const totalSeconds = Math.floor(units / scale);
+  const totals = { h: Math.floor(totalSeconds / 3600), m: Math.floor(totalSeconds / 60), s: totalSeconds };
+  const remainders = { h: totals.h % 24, m: totals.m % 60, s: totals.s % 60 };
+
+  const text = tokens.map((token) => {
+    switch (token.type) {
+      case 'literal':
+        return token.text;
+      case 'fraction':
+        return `.${String(units % scale).padStart(digits, '0').slice(0, token.digits)}`;
+      case 'unit':
+        return token.elapsed
+          ? String(totals[token.unit]).padStart(token.width, '0')
+          : String(remainders[token.unit]).padStart(Math.min(token.width, 2), '0');
+    }
+  }).join('');
+  return days < 0 && !useNegativeSection && units > 0 ? `-${text}` : text;
 }
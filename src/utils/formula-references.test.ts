@@ -0,0 +1,48 @@
+import { describe, test, expect } from '@tests/framework';
+import { shiftFormulaReferences } from './formula-references';
+
+describe('shiftFormulaReferences', () => {
+  test('should shift relative cell references', () => {
+    expect(shiftFormulaReferences('A2*B2', 1, 0)).toBe('A3*B3');
+    expect(shiftFormulaReferences('SUM(A1:C1)', 4, 1)).toBe('SUM(B5:D5)');
+    expect(shiftFormulaReferences('Z1+AA1', 0, 1)).toBe('AA1+AB1');
+  });
+
+  test('should keep absolute parts', () => {
+    expect(shiftFormulaReferences('A2*$B$1', 3, 2)).toBe('C5*$B$1');
+    expect(shiftFormulaReferences('$A2+A$2', 1, 1)).toBe('$A3+B$2');
+  });
+
+  test('should shift whole-column and whole-row ranges', () => {
+    expect(shiftFormulaReferences('SUM(A:A)', 5, 1)).toBe('SUM(B:B)');
+    expect(shiftFormulaReferences('SUM($A:B)', 0, 1)).toBe('SUM($A:C)');
+    expect(shiftFormulaReferences('SUM(2:3)', 2, 0)).toBe('SUM(4:5)');
+  });
+
+  test('should leave string literals, quoted sheet names and structured references untouched', () => {
+    expect(shiftFormulaReferences('IF(A1>0,"A1","B2")', 1, 0)).toBe('IF(A2>0,"A1","B2")');
+    expect(shiftFormulaReferences('"say ""A1"""&A1', 1, 0)).toBe('"say ""A1"""&A2');
+    expect(shiftFormulaReferences('\'Q1 A1\'!B2', 1, 0)).toBe('\'Q1 A1\'!B3');
+    expect(shiftFormulaReferences('SUM(Table1[[#This Row],[A1]])+C1', 1, 0)).toBe('SUM(Table1[[#This Row],[A1]])+C2');
+  });
+
+  test('should shift references qualified with unquoted sheet names', () => {
+    expect(shiftFormulaReferences('Data!A1+Sheet2!B1', 1, 0)).toBe('Data!A2+Sheet2!B2');
+  });
+
+  test('should not treat function and defined names as references', () => {
+    expect(shiftFormulaReferences('LOG10(A1)+ATAN2(B1,C1)', 1, 0)).toBe('LOG10(A2)+ATAN2(B2,C2)');
+    // Letters beyond column XFD cannot start a cell reference
+    expect(shiftFormulaReferences('RATE2023*A1', 1, 0)).toBe('RATE2023*A2');
+    expect(shiftFormulaReferences('A1*Rate_1', 1, 0)).toBe('A2*Rate_1');
+  });
+
+  test('should turn references moved outside the sheet into #REF!', () => {
+    expect(shiftFormulaReferences('A1+B2', -1, 0)).toBe('#REF!+B1');
+    expect(shiftFormulaReferences('A1', 0, -1)).toBe('#REF!');
+  });
+
+  test('should return the formula unchanged for a zero offset', () => {
+    expect(shiftFormulaReferences('A1*"x"', 0, 0)).toBe('A1*"x"');
+  });
+});
@@ -0,0 +1,142 @@
+/*
+ * Formula reference utilities
+ * Moves the relative references of a formula, as Excel does when a formula is copied
+ * or when a shared formula is applied to another cell of its range.
+ */
+import { columnIndexToLetter, columnLetterToIndex } from './cell-reference';
+
+// Excel sheet limits
+const MAX_ROW = 1048576;
+const MAX_COLUMN_INDEX = 16383; // XFD
+
+/**
+ * Matches cell references (A1, $A$1), whole-column ranges (A:C) and whole-row ranges (1:3)
+ * Lookarounds keep function names (LOG10), defined names and unquoted sheet names (Data1!) intact.
+ */
+const REFERENCE_PATTERN = new RegExp(
+  '(?<![A-Za-z0-9_.$])(?:' +
+  '(\\$?)([A-Z]{1,3})(\\$?)(\\d+)(?![A-Za-z0-9_(!])' + // cell
+  '|(\\$?)([A-Z]{1,3}):(\\$?)([A-Z]{1,3})(?![A-Za-z0-9_(!])' + // whole columns
+  '|(\\$?)(\\d+):(\\$?)(\\d+)(?![A-Za-z0-9_(!.])' + // whole rows
+  ')',
+  'g',
+);
+
+/**
+ * Shifts a column letter by an offset unless it is absolute
+ * @returns The shifted column letter, or null if it falls outside the sheet
+ */
+function shiftColumn(absolute: string, column: string, offset: number): string | null {
+  if (absolute) return column;
+  const index = columnLetterToIndex(column) + offset;
+  return index >= 0 && index <= MAX_COLUMN_INDEX ? columnIndexToLetter(index) : null;
+}
+
+/**
+ * Shifts a row number by an offset unless it is absolute
+ * @returns The shifted row number, or null if it falls outside the sheet
+ */
+function shiftRow(absolute: string, row: string, offset: number): string | null {
+  if (absolute) return row;
+  const index = parseInt(row, 10) + offset;
+  return index >= 1 && index <= MAX_ROW ? String(index) : null;
+}
+
+/**
+ * Shifts the references in a formula segment that contains no string literals,
+ * quoted sheet names or structured references
+ */
+function shiftSegment(segment: string, rowOffset: number, colOffset: number): string {
+  return segment.replace(REFERENCE_PATTERN, (match, ...groups: (string | undefined)[]) => {
+    const [cAbsCol, cCol, cAbsRow, cRow, ccAbs1, ccCol1, ccAbs2, ccCol2, rrAbs1, rrRow1, rrAbs2, rrRow2] = groups;
+
+    if (cCol !== undefined && cRow !== undefined) {
+      // Names that look like references but lie outside the sheet (e.g. TAX2023) are not references
+      if (columnLetterToIndex(cCol) > MAX_COLUMN_INDEX || parseInt(cRow, 10) > MAX_ROW) {
+        return match;
+      }
+      const column = shiftColumn(cAbsCol!, cCol, colOffset);
+      const row = shiftRow(cAbsRow!, cRow, rowOffset);
+      return column !== null && row !== null ? `${cAbsCol}${column}${cAbsRow}${row}` : '#REF!';
+    }
+
+    if (ccCol1 !== undefined && ccCol2 !== undefined) {
+      if (columnLetterToIndex(ccCol1) > MAX_COLUMN_INDEX || columnLetterToIndex(ccCol2) > MAX_COLUMN_INDEX) {
+        return match;
+      }
+      const column1 = shiftColumn(ccAbs1!, ccCol1, colOffset);
+      const column2 = shiftColumn(ccAbs2!, ccCol2, colOffset);
+      return column1 !== null && column2 !== null ? `${ccAbs1}${column1}:${ccAbs2}${column2}` : '#REF!';
+    }
+
+    if (rrRow1 !== undefined && rrRow2 !== undefined) {
+      const row1 = shiftRow(rrAbs1!, rrRow1, rowOffset);
+      const row2 = shiftRow(rrAbs2!, rrRow2, rowOffset);
+      return row1 !== null && row2 !== null ? `${rrAbs1}${row1}:${rrAbs2}${row2}` : '#REF!';
+    }
+
+    return match;
+  });
+}
+
+/**
+ * Shifts the relative references of a formula by a row and column offset
+ * Absolute parts ($A$1, A$1, $A1) are kept. References moved outside the sheet become #REF!.
+ * String literals, quoted sheet names and structured table references are left untouched.
+ * @param formula - Formula without "=" prefix (e.g., "A1*$B$1")
+ * @param rowOffset - Number of rows to move (negative moves up)
+ * @param colOffset - Number of columns to move (negative moves left)
+ * @returns The shifted formula
+ */
+export function shiftFormulaReferences(formula: string, rowOffset: number, colOffset: number): string {
+  if (rowOffset === 0 && colOffset === 0) {
+    return formula;
+  }
+
+  let result = '';
+  let segmentStart = 0;
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+    if (char === '"' || char === '\'' || char === '[') {
+      // Shift the plain segment before the literal, then copy the literal verbatim
+      result += shiftSegment(formula.slice(segmentStart, i), rowOffset, colOffset);
+      const literalEnd = findLiteralEnd(formula, i);
+      result += formula.slice(i, literalEnd);
+      i = literalEnd;
+      segmentStart = i;
+    } else {
+      i++;
+    }
+  }
+
+  return result + shiftSegment(formula.slice(segmentStart), rowOffset, colOffset);
+}
+
+/**
+ * Finds the end (exclusive) of a string literal, quoted sheet name or bracketed structured reference
+ * Quotes are escaped by doubling them; brackets may be nested.
+ */
+function findLiteralEnd(formula: string, start: number): number {
+  const open = formula[start];
+  if (open === '[') {
+    let depth = 0;
+    for (let i = start; i < formula.length; i++) {
+      if (formula[i] === '[') depth++;
+      else if (formula[i] === ']' && --depth === 0) return i + 1;
+    }
+    return formula.length;
+  }
+
+  for (let i = start + 1; i < formula.length; i++) {
+    if (formula[i] === open) {
+      if (formula[i + 1] === open) {
+        i++; // Escaped quote
+      } else {
+        return i + 1;
+      }
+    }
+  }
+  return formula.length;
+}
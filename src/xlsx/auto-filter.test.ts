@@ -0,0 +1,148 @@
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { createZipWriter, endZipWriter, writeZipEntry } from '@zip/writer';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readXlsx } from './reader';
+import { parseSheetProperties } from './sheet-properties-reader';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+import { stringToBytes } from '../adapters/common';
+
+/**
+ * Reads a part of a written file
+ */
+async function readPart(filePath: string, fileName: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
+
+/**
+ * Parses the properties of a worksheet XML document
+ */
+async function parseSheetXml(xml: string) {
+  const zipWriter = createZipWriter();
+  await writeZipEntry(zipWriter, 'xl/worksheets/sheet1.xml', stringToBytes(xml));
+  const zipFile = await openZip(await endZipWriter(zipWriter));
+  return parseSheetProperties(zipFile.entries[0]!, zipFile.zipFile);
+}
+
+describe('AutoFilter', () => {
+  const testFile = 'test-auto-filter.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should filter the header row over all written columns', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Sales',
+          autoFilter: true,
+          mergedCells: ['E1:F1'],
+          rows: (async function* () {
+            yield row([cell('Region'), cell('Month'), cell('Amount')]);
+            yield row([cell('North'), cell('Jan'), cell(10)]);
+            yield row([cell('South'), cell('Feb'), cell(20), cell('late')]);
+          })(),
+        },
+      ],
+    });
+
+    const sheetXml = await readPart(testFile, 'xl/worksheets/sheet1.xml');
+    // autoFilter precedes mergeCells in the worksheet schema
+    expect(sheetXml).toContain('</sheetData><autoFilter ref="A1:D3"/><mergeCells');
+
+    const workbookXml = await readPart(testFile, 'xl/workbook.xml');
+    expect(workbookXml).toContain(
+      '<definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">&apos;Sales&apos;!$A$1:$D$3</definedName>',
+    );
+  });
+
+  test('should start the written range at the first written row', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Data',
+          autoFilter: true,
+          autoDetectColumnWidth: true,
+          rows: (async function* () {
+            yield row([cell('Name'), cell('Score')], { rowIndex: 3 });
+            yield row([cell('Alice'), cell(10)]);
+          })(),
+        },
+      ],
+    });
+
+    expect(await readPart(testFile, 'xl/worksheets/sheet1.xml')).toContain('<autoFilter ref="A3:B4"/>');
+  });
+
+  test('should write an explicit range and define the name on the right sheet', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'First',
+          rows: (async function* () {
+            yield row([cell('x')]);
+          })(),
+        },
+        {
+          name: 'Second',
+          autoFilter: '$b$2:$c$50',
+          rows: (async function* () {
+            yield row([cell('x')]);
+          })(),
+        },
+      ],
+    });
+
+    expect(await readPart(testFile, 'xl/worksheets/sheet1.xml')).not.toContain('autoFilter');
+    expect(await readPart(testFile, 'xl/worksheets/sheet2.xml')).toContain('<autoFilter ref="B2:C50"/>');
+    expect(await readPart(testFile, 'xl/workbook.xml')).toContain('localSheetId="1" hidden="1">&apos;Second&apos;!$B$2:$C$50<');
+
+    await using workbook = await readXlsx(testFile);
+    expect(workbook.sheet('First').autoFilter).toBeUndefined();
+    expect(workbook.sheet('Second').autoFilter).toBe('B2:C50');
+  });
+
+  test('should skip the autoFilter for an empty sheet', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Empty',
+          autoFilter: true,
+          rows: (async function* () {})(),
+        },
+      ],
+    });
+
+    expect(await readPart(testFile, 'xl/worksheets/sheet1.xml')).not.toContain('autoFilter');
+    expect(await readPart(testFile, 'xl/workbook.xml')).not.toContain('definedNames');
+  });
+
+  test('should ignore the autoFilter of custom sheet views', async () => {
+    const customSheetViews = '<customSheetViews><customSheetView guid="{00000000-0000-0000-0000-000000000001}">'
+      + '<autoFilter ref="A1:Z9"/></customSheetView></customSheetViews>';
+    const worksheet = (content: string) => '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + `<sheetData/>${content}</worksheet>`;
+
+    expect((await parseSheetXml(worksheet(`<autoFilter ref="A1:C5"/>${customSheetViews}`))).autoFilter).toBe('A1:C5');
+    expect((await parseSheetXml(worksheet(customSheetViews))).autoFilter).toBeUndefined();
+  });
+
+  test('should reject invalid ranges before writing', async () => {
+    await expect(writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Data',
+          autoFilter: 'A1:B',
+          rows: (async function* () {})(),
+        },
+      ],
+    })).rejects.toThrow('AutoFilter must be a range');
+  });
+});
@@ -0,0 +1,147 @@
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { generateChart, splitSheetReference } from './charts';
+import { generateDrawing } from './drawings';
+import { readXlsx } from './reader';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+import type { ChartDefinition } from './types';
+
+/**
+ * Reads the XML of an entry of a written file
+ */
+async function readEntryXml(filePath: string, fileName: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
+
+// 1x1 transparent PNG
+const png = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='), (c) => c.charCodeAt(0));
+
+/**
+ * Monthly sales rows with a header
+ */
+async function* salesRows() {
+  yield row([cell('Month'), cell('North'), cell('South')]);
+  yield row([cell('Jan'), cell(120), cell(80)]);
+  yield row([cell('Feb'), cell(150), cell(95)]);
+  yield row([cell('Mar'), cell(170), cell(110)]);
+}
+
+describe('Charts', () => {
+  const testFile = 'test-charts.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should split ranges into sheet name and range', () => {
+    expect(splitSheetReference('B2:B4')).toEqual({ range: 'B2:B4' });
+    expect(splitSheetReference('Sales!$b$2:$b$4')).toEqual({ sheetName: 'Sales', range: 'B2:B4' });
+    expect(splitSheetReference("'Q1 ''North'''!B2:B4")).toEqual({ sheetName: "Q1 'North'", range: 'B2:B4' });
+    expect(splitSheetReference('Sales!B2:')).toBeNull();
+  });
+
+  test('should write bar chart series as absolute range formulas', () => {
+    const xml = generateChart({
+      type: 'bar',
+      anchor: 'E2',
+      title: 'Sales & Returns',
+      series: [
+        { name: 'North', values: 'B2:B4', categories: 'A2:A4', color: 'FF4472C4' },
+        { name: 'South', values: "'Other Sheet'!C2:C4" },
+      ],
+      horizontal: true,
+      yAxis: { title: 'Units', min: 0, max: 200 },
+      legend: 'bottom',
+    }, 'Sales');
+    expect(xml).toContain('<c:barDir val="bar"/>');
+    expect(xml).toContain('<a:t>Sales &amp; Returns</a:t>');
+    expect(xml).toContain('<c:ser><c:idx val="0"/><c:order val="0"/><c:tx><c:v>North</c:v></c:tx><c:spPr><a:solidFill><a:srgbClr val="4472C4"/></a:solidFill></c:spPr>');
+    expect(xml).toContain("<c:cat><c:strRef><c:f>&apos;Sales&apos;!$A$2:$A$4</c:f></c:strRef></c:cat><c:val><c:numRef><c:f>&apos;Sales&apos;!$B$2:$B$4</c:f></c:numRef></c:val>");
+    expect(xml).toContain('<c:f>&apos;Other Sheet&apos;!$C$2:$C$4</c:f>');
+    expect(xml).toContain('<c:scaling><c:orientation val="minMax"/><c:max val="200"/><c:min val="0"/></c:scaling><c:delete val="0"/><c:axPos val="b"/>');
+    expect(xml).toContain('<c:legendPos val="b"/>');
+  });
+
+  test('should write the plot and axes of each chart type', () => {
+    const chart = (type: ChartDefinition['type']) => generateChart({ type, anchor: 'A1', series: [{ values: 'B2:B4', categories: 'A2:A4' }] }, 'Data');
+    expect(chart('line')).toContain('<c:lineChart><c:grouping val="standard"/>');
+    expect(chart('area')).toContain('<c:areaChart>');
+    expect(chart('scatter')).toContain('<c:xVal><c:numRef><c:f>&apos;Data&apos;!$A$2:$A$4</c:f></c:numRef></c:xVal><c:yVal>');
+    expect(chart('scatter')).not.toContain('<c:catAx>');
+    expect(chart('pie')).toContain('<c:pieChart><c:varyColors val="1"/>');
+    expect(chart('pie')).not.toContain('<c:valAx>');
+    expect(chart('bar')).toContain('<c:autoTitleDeleted val="1"/>');
+  });
+
+  test('should anchor charts in the drawing after the pictures', () => {
+    const xml = generateDrawing(
+      [{ definition: { data: png, anchor: 'A1', width: 10, height: 10 }, relationshipId: 'rId1' }],
+      [{ definition: { type: 'line', anchor: 'C3', series: [{ values: 'B2:B4' }] }, relationshipId: 'rId2' }],
+    );
+    expect(xml).toContain('<xdr:ext cx="4572000" cy="2743200"/>');
+    expect(xml).toContain('<xdr:cNvPr id="3" name="Chart 1"/>');
+    expect(xml).toContain('<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" r:id="rId2"/>');
+  });
+
+  test('should write chart parts with their drawing relationships and content types', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Sales',
+          rows: salesRows(),
+          images: [{ data: png, anchor: 'H1', width: 10, height: 10 }],
+          charts: [
+            { type: 'bar', anchor: 'E2', series: [{ name: 'North', values: 'B2:B4', categories: 'A2:A4' }] },
+            { type: 'line', anchor: 'E20', series: [{ name: 'South', values: 'C2:C4', categories: 'A2:A4' }] },
+          ],
+        },
+        {
+          name: 'Summary',
+          rows: (async function* () {
+            yield row([cell('Totals')]);
+          })(),
+          charts: [{ type: 'pie', anchor: 'B2', title: 'North', series: [{ values: 'Sales!B2:B4', categories: 'Sales!A2:A4' }] }],
+        },
+      ],
+    });
+
+    const drawingRels = await readEntryXml(testFile, 'xl/drawings/_rels/drawing1.xml.rels');
+    expect(drawingRels).toContain('<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart" Target="../charts/chart1.xml"/>');
+    expect(drawingRels).toContain('<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart" Target="../charts/chart2.xml"/>');
+
+    const summaryChart = await readEntryXml(testFile, 'xl/charts/chart3.xml');
+    expect(summaryChart).toContain('<c:f>&apos;Sales&apos;!$B$2:$B$4</c:f>');
+
+    const summarySheet = await readEntryXml(testFile, 'xl/worksheets/sheet2.xml');
+    expect(summarySheet).toContain('<drawing r:id="rId1"/>');
+
+    const contentTypes = await readEntryXml(testFile, '[Content_Types].xml');
+    expect(contentTypes).toContain('<Override PartName="/xl/charts/chart3.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>');
+    expect(contentTypes).toContain('<Override PartName="/xl/drawings/drawing2.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>');
+
+    // Charts are not read back, but they must not disturb the pictures of the drawing
+    const workbook = await readXlsx(testFile);
+    expect(workbook.sheet('Sales').images.map((image) => image.anchor)).toEqual(['H1']);
+    expect(workbook.sheet('Summary').images).toBeUndefined();
+    await workbook.cleanup();
+  });
+
+  test('should reject invalid charts', async () => {
+    const write = (chart: Record<string, unknown>) => writeXlsx(testFile, {
+      sheets: [{ name: 'Sales', rows: salesRows(), charts: [chart as never] }],
+    });
+    await expect(write({ type: 'bar', anchor: 'E2', series: [] })).rejects.toThrow('Chart needs at least one series');
+    await expect(write({ type: 'bar', anchor: 'E2', series: [{ values: 'B2:' }] })).rejects.toThrow('Must be a range in A1 notation');
+    await expect(write({ type: 'bar', anchor: 'E2', series: [{ values: 'Missing!B2:B4' }] })).rejects.toThrow('Chart range refers to an unknown sheet: Missing');
+    await expect(write({ type: 'line', anchor: 'E2', horizontal: true, series: [{ values: 'B2:B4' }] })).rejects.toThrow('Only bar charts can be horizontal');
+    await expect(write({ type: 'pie', anchor: 'E2', xAxis: { title: 'Month' }, series: [{ values: 'B2:B4' }] })).rejects.toThrow('Pie charts have no axes');
+    await expect(write({ type: 'bar', anchor: 'E2', yAxis: { min: 10, max: 5 }, series: [{ values: 'B2:B4' }] })).rejects.toThrow('Axis minimum must be less than its maximum');
+  });
+});
@@ -0,0 +1,191 @@
+/*
+ * Chart part generator (DrawingML charts)
+ */
+
+import { parseRangeReference } from '@utils/cell-reference';
+import { escapeXml } from '@utils/xml';
+import { formatDefinedNameRange } from './structure';
+import type { ChartAxisDefinition, ChartDefinition, ChartSeriesDefinition } from './types';
+
+/**
+ * Default chart size in pixels (Excel's default of 5 x 3 inches)
+ */
+export const DEFAULT_CHART_WIDTH = 480;
+export const DEFAULT_CHART_HEIGHT = 288;
+
+/**
+ * Axis IDs within a chart part
+ */
+const CATEGORY_AXIS_ID = 1;
+const VALUE_AXIS_ID = 2;
+
+const LEGEND_POSITIONS = { right: 'r', left: 'l', top: 't', bottom: 'b' } as const;
+
+/**
+ * Splits a range reference into its sheet name and range
+ * @example splitSheetReference("'Q1 Sales'!B2:B13") => { sheetName: 'Q1 Sales', range: 'B2:B13' }
+ * @returns The parts, with no sheet name for unqualified ranges, or null if the range is invalid
+ */
+export function splitSheetReference(ref: string): { sheetName?: string; range: string } | null {
+  const bang = ref.lastIndexOf('!');
+  const range = ref.slice(bang + 1).replace(/\$/g, '').toUpperCase();
+  if (!parseRangeReference(range)) {
+    return null;
+  }
+  if (bang === -1) {
+    return { range };
+  }
+  const sheet = ref.slice(0, bang);
+  const quoted = sheet.match(/^'(.+)'$/);
+  return { sheetName: quoted ? quoted[1]!.replace(/''/g, "'") : sheet, range };
+}
+
+/**
+ * Resolves a series range to an absolute, sheet-qualified formula (e.g., 'Sales'!$B$2:$B$13)
+ * @param sheetName - Sheet of the chart, used for unqualified ranges
+ */
+function resolveSeriesReference(ref: string, sheetName: string): string {
+  const parts = splitSheetReference(ref);
+  if (!parts) {
+    throw new Error(`Invalid chart range: ${ref}`);
+  }
+  return formatDefinedNameRange(parts.sheetName ?? sheetName, parts.range);
+}
+
+/**
+ * Generates rich text (title of a chart or axis)
+ */
+function generateTitle(text: string): string {
+  return `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>${escapeXml(text)}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/></c:title>`;
+}
+
+/**
+ * Generates the shape properties of a series in its color
+ * Lines and markers of line and scatter series are colored; other series are filled.
+ */
+function generateSeriesShape(chart: ChartDefinition, series: ChartSeriesDefinition): string {
+  if (!series.color) {
+    return '';
+  }
+  const fill = `<a:solidFill><a:srgbClr val="${series.color.slice(2).toUpperCase()}"/></a:solidFill>`;
+  return chart.type === 'line' || chart.type === 'scatter'
+    ? `<c:spPr><a:ln w="28575">${fill}</a:ln></c:spPr>`
+    : `<c:spPr>${fill}</c:spPr>`;
+}
+
+/**
+ * Generates a series of a chart
+ * Only the range formulas are written; Excel reads the values from the cells when the file is opened.
+ */
+function generateSeries(chart: ChartDefinition, series: ChartSeriesDefinition, index: number, sheetName: string): string {
+  const name = series.name !== undefined ? `<c:tx><c:v>${escapeXml(series.name)}</c:v></c:tx>` : '';
+  const shape = generateSeriesShape(chart, series);
+  const values = `<c:numRef><c:f>${escapeXml(resolveSeriesReference(series.values, sheetName))}</c:f></c:numRef>`;
+  const categories = series.categories !== undefined ? escapeXml(resolveSeriesReference(series.categories, sheetName)) : undefined;
+
+  let body: string;
+  switch (chart.type) {
+    case 'scatter':
+      body = `${shape}<c:marker><c:symbol val="circle"/></c:marker>`
+        + (categories ? `<c:xVal><c:numRef><c:f>${categories}</c:f></c:numRef></c:xVal>` : '')
+        + `<c:yVal>${values}</c:yVal><c:smooth val="0"/>`;
+      break;
+    case 'line':
+      body = `${shape}<c:marker><c:symbol val="none"/></c:marker>`
+        + (categories ? `<c:cat><c:strRef><c:f>${categories}</c:f></c:strRef></c:cat>` : '')
+        + `<c:val>${values}</c:val><c:smooth val="0"/>`;
+      break;
+    default:
+      body = shape
+        + (chart.type === 'bar' ? '<c:invertIfNegative val="0"/>' : '')
+        + (categories ? `<c:cat><c:strRef><c:f>${categories}</c:f></c:strRef></c:cat>` : '')
+        + `<c:val>${values}</c:val>`;
+  }
+  return `<c:ser><c:idx val="${index}"/><c:order val="${index}"/>${name}${body}</c:ser>`;
+}
+
+/**
+ * Generates the scaling of an axis (bounds are written max first, as the schema requires)
+ */
+function generateScaling(axis: ChartAxisDefinition | undefined): string {
+  const max = axis?.max !== undefined ? `<c:max val="${axis.max}"/>` : '';
+  const min = axis?.min !== undefined ? `<c:min val="${axis.min}"/>` : '';
+  return `<c:scaling><c:orientation val="minMax"/>${max}${min}</c:scaling>`;
+}
+
+/**
+ * Generates a value axis
+ * @param position - Edge of the plot area the axis is drawn on
+ * @param crossAxisId - Axis this axis crosses
+ */
+function generateValueAxis(id: number, axis: ChartAxisDefinition | undefined, position: string, crossAxisId: number, gridlines: boolean): string {
+  return `<c:valAx><c:axId val="${id}"/>${generateScaling(axis)}<c:delete val="0"/><c:axPos val="${position}"/>`
+    + (gridlines ? '<c:majorGridlines/>' : '')
+    + (axis?.title !== undefined ? generateTitle(axis.title) : '')
+    + '<c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="out"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/>'
+    + `<c:crossAx val="${crossAxisId}"/><c:crosses val="autoZero"/><c:crossBetween val="${id === CATEGORY_AXIS_ID ? 'midCat' : 'between'}"/></c:valAx>`;
+}
+
+/**
+ * Generates the axes of a chart
+ * Scatter charts have two value axes; pie charts have none.
+ */
+function generateAxes(chart: ChartDefinition): string {
+  if (chart.type === 'pie') {
+    return '';
+  }
+  // Horizontal bars put the categories on the left and the values at the bottom
+  const horizontal = chart.type === 'bar' && chart.horizontal === true;
+  const valuePosition = horizontal ? 'b' : 'l';
+  const valueAxis = generateValueAxis(VALUE_AXIS_ID, chart.yAxis, valuePosition, CATEGORY_AXIS_ID, true);
+  if (chart.type === 'scatter') {
+    return generateValueAxis(CATEGORY_AXIS_ID, chart.xAxis, 'b', VALUE_AXIS_ID, false) + valueAxis;
+  }
+  const categoryAxis = `<c:catAx><c:axId val="${CATEGORY_AXIS_ID}"/>${generateScaling(undefined)}<c:delete val="0"/><c:axPos val="${horizontal ? 'l' : 'b'}"/>`
+    + (chart.xAxis?.title !== undefined ? generateTitle(chart.xAxis.title) : '')
+    + '<c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="out"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/>'
+    + `<c:crossAx val="${VALUE_AXIS_ID}"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>`;
+  return categoryAxis + valueAxis;
+}
+
+/**
+ * Generates the plot of a chart: its type element with the series
+ */
+function generatePlot(chart: ChartDefinition, sheetName: string): string {
+  const series = chart.series.map((s, index) => generateSeries(chart, s, index, sheetName)).join('');
+  const axisIds = `<c:axId val="${CATEGORY_AXIS_ID}"/><c:axId val="${VALUE_AXIS_ID}"/>`;
+  switch (chart.type) {
+    case 'bar':
+      return `<c:barChart><c:barDir val="${chart.horizontal ? 'bar' : 'col'}"/><c:grouping val="clustered"/><c:varyColors val="0"/>${series}<c:gapWidth val="150"/>${axisIds}</c:barChart>`;
+    case 'line':
+      return `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}<c:marker val="1"/>${axisIds}</c:lineChart>`;
+    case 'area':
+      return `<c:areaChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}${axisIds}</c:areaChart>`;
+    case 'scatter':
+      return `<c:scatterChart><c:scatterStyle val="lineMarker"/><c:varyColors val="0"/>${series}${axisIds}</c:scatterChart>`;
+    case 'pie':
+      return `<c:pieChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/></c:pieChart>`;
+  }
+}
+
+/**
+ * Generates xl/charts/chartN.xml
+ * @param chart - Chart definition
+ * @param sheetName - Sheet the chart is on, used for ranges without a sheet name
+ */
+export function generateChart(chart: ChartDefinition, sheetName: string): string {
+  // Without a title Excel would show the series name of single-series charts as the title
+  const title = chart.title !== undefined
+    ? `${generateTitle(chart.title)}<c:autoTitleDeleted val="0"/>`
+    : '<c:autoTitleDeleted val="1"/>';
+  const legendPosition = chart.legend ?? 'right';
+  const legend = legendPosition !== false
+    ? `<c:legend><c:legendPos val="${LEGEND_POSITIONS[legendPosition]}"/><c:overlay val="0"/></c:legend>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <c:roundedCorners val="0"/>
+  <c:chart>${title}<c:plotArea><c:layout/>${generatePlot(chart, sheetName)}${generateAxes(chart)}</c:plotArea>${legend}<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart>
+</c:chartSpace>`;
+}
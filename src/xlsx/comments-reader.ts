@@ -0,0 +1,113 @@
+import type * as yauzl from 'yauzl';
+import { readZipEntry, type ZipEntry } from '@zip/reader';
+import { parseXmlEvents } from '@xml/parser';
+import { applyRunProperty } from '@xml/rich-text';
+import type { FontStyle, RichTextRun } from '../types';
+import type { Relationship } from './relationships-reader';
+import type { CommentDefinition } from './types';
+
+const COMMENTS_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments';
+
+/**
+ * Parses a comments part (xl/commentsN.xml)
+ * Text without formatting is returned as a string, formatted text as rich text runs.
+ * Visibility lives in the legacy VML drawing and is not read.
+ * @returns Comments keyed by cell reference
+ */
+export async function parseComments(
+  zipEntry: ZipEntry,
+  zipFile: yauzl.ZipFile,
+): Promise<Record<string, CommentDefinition>> {
+  const comments: Record<string, CommentDefinition> = {};
+  const authors: string[] = [];
+  let author: string | null = null;
+  let ref: string | null = null;
+  let authorId = -1;
+  let runs: RichTextRun[] = [];
+  let run: RichTextRun | null = null;
+  let inRunProperties = false;
+  // Phonetic runs (rPh) hold readings of East Asian text, not comment text
+  let inPhoneticRun = false;
+  let inText = false;
+
+  for await (const event of parseXmlEvents(readZipEntry(zipEntry, zipFile))) {
+    if (event.type === 'startElement') {
+      const attrs = event.attributes;
+      if (event.name === 'author') {
+        author = '';
+      } else if (event.name === 'comment') {
+        ref = attrs?.ref ?? null;
+        authorId = parseInt(attrs?.authorId ?? '-1', 10);
+        runs = [];
+      } else if (event.name === 'r' && ref !== null) {
+        run = { text: '' };
+      } else if (event.name === 'rPr' && run) {
+        inRunProperties = true;
+      } else if (inRunProperties && run && event.name) {
+        const font: FontStyle = run.font ?? {};
+        if (applyRunProperty(font, event.name, attrs)) {
+          run.font = font;
+        }
+      } else if (event.name === 'rPh') {
+        inPhoneticRun = true;
+      } else if (event.name === 't' && ref !== null && !inPhoneticRun) {
+        inText = true;
+        // Text directly under <text> is a single unformatted run
+        if (!run) {
+          run = { text: '' };
+        }
+      }
+    } else if (event.type === 'endElement') {
+      if (event.name === 'author' && author !== null) {
+        authors.push(author);
+        author = null;
+      } else if (event.name === 't') {
+        inText = false;
+      } else if (event.name === 'rPr') {
+        inRunProperties = false;
+      } else if (event.name === 'rPh') {
+        inPhoneticRun = false;
+      } else if ((event.name === 'r' || event.name === 'text') && run) {
+        // A run ends with </r>, or with </text> for unformatted text
+        runs.push(run);
+        run = null;
+      } else if (event.name === 'comment' && ref !== null) {
+        const isPlain = runs.length <= 1 && !runs[0]?.font;
+        const comment: CommentDefinition = { text: isPlain ? (runs[0]?.text ?? '') : runs };
+        const commentAuthor = authors[authorId];
+        if (commentAuthor) {
+          comment.author = commentAuthor;
+        }
+        comments[ref] = comment;
+        ref = null;
+      }
+    } else if (event.type === 'text') {
+      if (author !== null) {
+        author += event.text;
+      } else if (inText && run) {
+        run.text += event.text;
+      }
+    }
+  }
+
+  return comments;
+}
+
+/**
+ * Parses the comments of a worksheet, found through the worksheet's relationships
+ * @param relationships - Relationships of the worksheet part
+ * @returns Comments keyed by cell reference, or undefined if the sheet has none
+ */
+export async function parseSheetComments(
+  relationships: Relationship[],
+  entries: ZipEntry[],
+  zipFile: yauzl.ZipFile,
+): Promise<Record<string, CommentDefinition> | undefined> {
+  const relationship = relationships.find((r) => r.type === COMMENTS_RELATIONSHIP_TYPE && !r.external);
+  const commentsEntry = relationship && entries.find((e) => e.fileName === relationship.target);
+  if (!commentsEntry) {
+    return undefined;
+  }
+  const comments = await parseComments(commentsEntry, zipFile);
+  return Object.keys(comments).length > 0 ? comments : undefined;
+}
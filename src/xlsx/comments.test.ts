@@ -0,0 +1,144 @@
+import { cell, cellFromHyperlink } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { generateComments, generateVmlDrawing } from './comments';
+import { readXlsx } from './reader';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+
+/**
+ * Reads the XML of an entry of a written file
+ */
+async function readEntryXml(filePath: string, fileName: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
+
+describe('Comments', () => {
+  const testFile = 'test-comments.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should list authors once and sort comments by row then column', () => {
+    const xml = generateComments({
+      C1: { author: 'Ann', text: 'Third' },
+      A2: { text: 'Fourth' },
+      B1: { author: 'Bob', text: 'Second' },
+      A1: { author: 'Ann', text: '  First & <only>  ' },
+    });
+    expect(xml).toContain('<authors>\n    <author>Ann</author>\n    <author>Bob</author>\n    <author></author>\n  </authors>');
+    expect(xml).toContain('<comment ref="A1" authorId="0"><text><t xml:space="preserve">  First &amp; &lt;only&gt;  </t></text></comment>');
+    expect(xml.indexOf('ref="B1"')).toBeLessThan(xml.indexOf('ref="C1"'));
+    expect(xml.indexOf('ref="C1"')).toBeLessThan(xml.indexOf('ref="A2"'));
+    expect(xml).toContain('<comment ref="A2" authorId="2">');
+  });
+
+  test('should write rich text runs with their fonts', () => {
+    const xml = generateComments({
+      B2: { text: [{ text: 'Note: ', font: { bold: true, fontColor: 'ff0000ff' } }, { text: 'check totals' }] },
+    });
+    expect(xml).toContain(
+      '<text><r><rPr><b/><color rgb="FF0000FF"/></rPr><t xml:space="preserve">Note: </t></r><r><t xml:space="preserve">check totals</t></r></text>',
+    );
+  });
+
+  test('should write a note shape per comment in the legacy drawing', () => {
+    const xml = generateVmlDrawing({ C5: { text: 'Shown', visible: true }, A1: { text: 'Hidden' } }, 2);
+    expect(xml).toContain('<o:idmap v:ext="edit" data="2"/>');
+    expect(xml).toContain('id="_x0000_s2049"');
+    expect(xml).toContain('id="_x0000_s2050"');
+    expect(xml).toContain('<x:Anchor>1, 15, 0, 10, 3, 15, 4, 4</x:Anchor>');
+    expect(xml).toContain('<x:Row>4</x:Row>\n   <x:Column>2</x:Column>\n   <x:Visible/>');
+    expect(xml).toContain('visibility:hidden');
+    expect(xml).toContain('visibility:visible');
+  });
+
+  test('should reserve more shape id blocks for drawings with many comments', () => {
+    const comments = Object.fromEntries(Array.from({ length: 1100 }, (_, index) => [`A${index + 1}`, { text: 'Note' }]));
+    const xml = generateVmlDrawing(comments, 1);
+    expect(xml).toContain('<o:idmap v:ext="edit" data="1,2"/>');
+    expect(xml).toContain('id="_x0000_s2124"');
+  });
+
+  test('should link comments and the legacy drawing to the sheet', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Notes',
+          rows: (async function* () {
+            yield row([cell('Total'), cellFromHyperlink('Site', 'https://example.com')]);
+          })(),
+          tables: [{ name: 'Totals', range: 'A1:B2' }],
+          comments: { A1: { author: 'Ann', text: 'Adjusted for returns' } },
+        },
+        {
+          name: 'Plain',
+          rows: (async function* () {
+            yield row([cell('No notes')]);
+          })(),
+        },
+      ],
+    });
+
+    const sheetXml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(sheetXml).toContain('<hyperlink ref="B1" r:id="rId4"/></hyperlinks><legacyDrawing r:id="rId2"/><tableParts');
+
+    const rels = await readEntryXml(testFile, 'xl/worksheets/_rels/sheet1.xml.rels');
+    expect(rels).toContain('<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/table" Target="../tables/table1.xml"/>');
+    expect(rels).toContain('<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/vmlDrawing" Target="../drawings/vmlDrawing1.vml"/>');
+    expect(rels).toContain('<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments" Target="../comments1.xml"/>');
+    expect(rels).toContain('<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com" TargetMode="External"/>');
+
+    const contentTypes = await readEntryXml(testFile, '[Content_Types].xml');
+    expect(contentTypes).toContain('<Default Extension="vml" ContentType="application/vnd.openxmlformats-officedocument.vmlDrawing"/>');
+    expect(contentTypes).toContain('<Override PartName="/xl/comments1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml"/>');
+    expect(contentTypes).not.toContain('/xl/comments2.xml');
+
+    expect(await readEntryXml(testFile, 'xl/drawings/vmlDrawing1.vml')).toContain('<x:ClientData ObjectType="Note">');
+    expect(await readEntryXml(testFile, 'xl/worksheets/sheet2.xml')).not.toContain('legacyDrawing');
+  });
+
+  test('should read comments back by cell reference', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Notes',
+        rows: (async function* () {
+          yield row([cell('Revenue'), cell(1200)]);
+        })(),
+        comments: {
+          A1: { author: 'Ann', text: 'Plain note' },
+          B1: { text: [{ text: 'Ann:', font: { bold: true } }, { text: '\nDouble-check', font: { italic: true, fontSize: 9, fontName: 'Tahoma' } }] },
+        },
+      }],
+    });
+
+    const workbook = await readXlsx(testFile);
+    const sheet = workbook.sheet('Notes');
+    expect(sheet.comments).toEqual({
+      A1: { author: 'Ann', text: 'Plain note' },
+      B1: { text: [{ text: 'Ann:', font: { bold: true } }, { text: '\nDouble-check', font: { italic: true, fontSize: 9, fontName: 'Tahoma' } }] },
+    });
+  });
+
+  test('should reject invalid comments', async () => {
+    const write = (comments: Record<string, unknown>) => writeXlsx(testFile, {
+      sheets: [{
+        name: 'Notes',
+        rows: (async function* () {
+          yield row([cell('A')]);
+        })(),
+        comments: comments as never,
+      }],
+    });
+    await expect(write({ A0: { text: 'Bad ref' } })).rejects.toThrow('Must be a cell reference in A1 notation');
+    await expect(write({ A1: { text: [] } })).rejects.toThrow('Rich text needs at least one run');
+    await expect(write({ A1: { text: [{ text: 'x', font: { fontColor: 'red' } }] } })).rejects.toThrow('Font color must be 8 hex characters');
+    await expect(write({ A1: { text: 'x'.repeat(32768) } })).rejects.toThrow('Comment text cannot exceed 32767 characters');
+  });
+});
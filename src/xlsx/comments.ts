@@ -0,0 +1,119 @@
+/*
+ * Comments part and the legacy VML drawing Excel uses to display them
+ */
+
+import { parseCellReference } from '@utils/cell-reference';
+import { escapeXml } from '@utils/xml';
+import { serializeRichText, serializeText } from '@xml/rich-text';
+import type { CommentDefinition } from './types';
+
+/**
+ * VML shape ids are allocated in blocks of 1024, listed by the drawing's idmap
+ */
+export const VML_SHAPE_BLOCK_SIZE = 1024;
+
+/**
+ * Comment resolved to its cell position
+ */
+interface PositionedComment {
+  ref: string;
+  rowIndex: number; // 1-based
+  colIndex: number; // 0-based
+  comment: CommentDefinition;
+}
+
+/**
+ * Resolves comments keyed by cell reference, sorted by row then column like Excel writes them
+ */
+function positionComments(comments: Record<string, CommentDefinition>): PositionedComment[] {
+  return Object.entries(comments)
+    .map(([ref, comment]) => {
+      // Absolute markers are allowed in references but not in the ref attribute
+      const normalizedRef = ref.replace(/\$/g, '').toUpperCase();
+      const position = parseCellReference(normalizedRef);
+      if (!position) {
+        throw new Error(`Invalid comment cell reference: ${ref}`);
+      }
+      return { ref: normalizedRef, ...position, comment };
+    })
+    .sort((a, b) => a.rowIndex - b.rowIndex || a.colIndex - b.colIndex);
+}
+
+/**
+ * Number of VML shape id blocks needed by the comments of a sheet
+ * Shape ids start at 1 within the first block, so a full block needs one id of the next.
+ */
+export function getVmlShapeBlockCount(commentCount: number): number {
+  return Math.ceil((commentCount + 1) / VML_SHAPE_BLOCK_SIZE);
+}
+
+/**
+ * Generates xl/commentsN.xml
+ * Authors are listed once and referenced by index; comments without an author share an empty one.
+ */
+export function generateComments(comments: Record<string, CommentDefinition>): string {
+  const authors: string[] = [];
+  const commentElements = positionComments(comments).map(({ ref, comment }) => {
+    const author = comment.author ?? '';
+    let authorId = authors.indexOf(author);
+    if (authorId === -1) {
+      authorId = authors.push(author) - 1;
+    }
+    const text = typeof comment.text === 'string' ? serializeText(comment.text) : serializeRichText(comment.text);
+    return `    <comment ref="${ref}" authorId="${authorId}"><text>${text}</text></comment>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<comments xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <authors>
+${authors.map((author) => `    <author>${escapeXml(author)}</author>`).join('\n')}
+  </authors>
+  <commentList>
+${commentElements.join('\n')}
+  </commentList>
+</comments>`;
+}
+
+/**
+ * Generates xl/drawings/vmlDrawingN.vml
+ * Excel only displays comments that have a note shape in the sheet's legacy drawing.
+ * @param comments - Comments of the sheet
+ * @param firstShapeBlock - First block of shape ids reserved for this drawing (unique within the workbook)
+ */
+export function generateVmlDrawing(comments: Record<string, CommentDefinition>, firstShapeBlock: number): string {
+  const positioned = positionComments(comments);
+  const blocks = Array.from({ length: getVmlShapeBlockCount(positioned.length) }, (_, index) => firstShapeBlock + index);
+
+  const shapes = positioned.map(({ rowIndex, colIndex, comment }, index) => {
+    const visible = comment.visible ?? false;
+    const row = rowIndex - 1;
+    // The note box sits to the right of the cell: columns c+1 to c+3, from a row above to a few rows below
+    const top = Math.max(row - 1, 0);
+    const anchor = `${colIndex + 1}, 15, ${top}, 10, ${colIndex + 3}, 15, ${top + 4}, 4`;
+    return ` <v:shape id="_x0000_s${firstShapeBlock * VML_SHAPE_BLOCK_SIZE + index + 1}" type="#_x0000_t202" style="position:absolute;margin-left:59.25pt;margin-top:1.5pt;width:108pt;height:59.25pt;z-index:${index + 1};visibility:${visible ? 'visible' : 'hidden'}" fillcolor="#ffffe1" o:insetmode="auto">
+  <v:fill color2="#ffffe1"/>
+  <v:shadow on="t" color="black" obscured="t"/>
+  <v:path o:connecttype="none"/>
+  <v:textbox style="mso-direction-alt:auto"><div style="text-align:left"></div></v:textbox>
+  <x:ClientData ObjectType="Note">
+   <x:MoveWithCells/>
+   <x:SizeWithCells/>
+   <x:Anchor>${anchor}</x:Anchor>
+   <x:AutoFill>False</x:AutoFill>
+   <x:Row>${row}</x:Row>
+   <x:Column>${colIndex}</x:Column>${visible ? '\n   <x:Visible/>' : ''}
+  </x:ClientData>
+ </v:shape>`;
+  });
+
+  return `<xml xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel">
+ <o:shapelayout v:ext="edit">
+  <o:idmap v:ext="edit" data="${blocks.join(',')}"/>
+ </o:shapelayout>
+ <v:shapetype id="_x0000_t202" coordsize="21600,21600" o:spt="202" path="m,l,21600r21600,l21600,xe">
+  <v:stroke joinstyle="miter"/>
+  <v:path gradientshapeok="t" o:connecttype="rect"/>
+ </v:shapetype>
+${shapes.join('\n')}
+</xml>`;
+}
@@ -0,0 +1,118 @@
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+
+/**
+ * Reads the XML of an entry of a written file
+ */
+async function readEntryXml(filePath: string, fileName: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
+
+const rows = () => (async function* () {
+  yield row([cell('Region'), cell('Sales'), cell('Target')]);
+  yield row([cell('North'), cell(120), cell(100)]);
+  yield row([cell('South'), cell(80), cell(100)]);
+})();
+
+describe('Conditional Formats', () => {
+  const testFile = 'test-conditional-formats.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should write highlight rules with differential styles', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'KPIs',
+          conditionalFormats: [
+            { range: 'B2:B3', type: 'cellIs', operator: 'greaterThan', formula1: 100, style: { font: { fontColor: 'FF006100' }, fill: { backgroundColor: 'FFC6EFCE' } } },
+            { range: '$B$2:$B$3', type: 'cellIs', operator: 'between', formula1: '$C$2*0.5', formula2: '$C$2', style: { font: { bold: true } }, stopIfTrue: true },
+            { range: 'A2:C3', type: 'expression', formula: '=$B2<$C2', style: { fill: { backgroundColor: 'FFFFC7CE' } } },
+          ],
+          rows: rows(),
+        },
+      ],
+    });
+
+    const xml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(xml).toContain(
+      '<conditionalFormatting sqref="B2:B3"><cfRule type="cellIs" dxfId="0" priority="1" operator="greaterThan"><formula>100</formula></cfRule></conditionalFormatting>'
+      + '<conditionalFormatting sqref="B2:B3"><cfRule type="cellIs" dxfId="1" priority="2" stopIfTrue="1" operator="between"><formula>$C$2*0.5</formula><formula>$C$2</formula></cfRule></conditionalFormatting>'
+      + '<conditionalFormatting sqref="A2:C3"><cfRule type="expression" dxfId="2" priority="3"><formula>$B2&lt;$C2</formula></cfRule></conditionalFormatting>',
+    );
+
+    // Differential styles alone are enough to write styles.xml
+    const stylesXml = await readEntryXml(testFile, 'xl/styles.xml');
+    expect(stylesXml).toContain('<dxfs count="3">');
+    expect(stylesXml).toContain('<font><color rgb="FF006100"/></font>');
+    expect(stylesXml).toContain('<cellXfs count="1">');
+  });
+
+  test('should write color scales, data bars and icon sets', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'KPIs',
+          conditionalFormats: [
+            { range: 'B2:B3', type: 'colorScale', colors: ['FFF8696B', 'FFFFEB84', 'FF63BE7B'] },
+            { range: 'C2:C3', type: 'colorScale', colors: ['FFFFFFFF', 'FF5A8AC6'], thresholds: [{ type: 'num', value: 0 }, { type: 'formula', value: '$C$1' }] },
+            { range: 'B2:B3', type: 'dataBar', color: 'ff638ec6', showValue: false },
+            { range: 'C2:C3', type: 'iconSet' },
+            { range: 'B2:B3', type: 'iconSet', iconSet: '4Arrows', reverse: true, thresholds: [{ type: 'min' }, { type: 'percentile', value: 25 }, { type: 'percentile', value: 50 }, { type: 'percentile', value: 75 }] },
+          ],
+          rows: rows(),
+        },
+      ],
+    });
+
+    const xml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(xml).toContain('<cfRule type="colorScale" priority="1"><colorScale><cfvo type="min"/><cfvo type="percentile" val="50"/><cfvo type="max"/><color rgb="FFF8696B"/><color rgb="FFFFEB84"/><color rgb="FF63BE7B"/></colorScale></cfRule>');
+    expect(xml).toContain('<colorScale><cfvo type="num" val="0"/><cfvo type="formula" val="$C$1"/><color rgb="FFFFFFFF"/><color rgb="FF5A8AC6"/></colorScale>');
+    expect(xml).toContain('<cfRule type="dataBar" priority="3"><dataBar showValue="0"><cfvo type="min"/><cfvo type="max"/><color rgb="FF638EC6"/></dataBar></cfRule>');
+    expect(xml).toContain('<cfRule type="iconSet" priority="4"><iconSet><cfvo type="percent" val="0"/><cfvo type="percent" val="33"/><cfvo type="percent" val="67"/></iconSet></cfRule>');
+    expect(xml).toContain('<iconSet iconSet="4Arrows" reverse="1"><cfvo type="min"/><cfvo type="percentile" val="25"/>');
+    expect(await readEntryXml(testFile, 'xl/styles.xml')).toBe('');
+  });
+
+  test('should place conditionalFormatting after mergeCells and before dataValidations', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'KPIs',
+          mergedCells: ['E1:F1'],
+          conditionalFormats: [{ range: 'B2:B3', type: 'dataBar', color: 'FF638EC6' }],
+          dataValidations: [{ range: 'B2:B3', type: 'decimal', operator: 'greaterThan', formula1: 0 }],
+          rows: rows(),
+        },
+      ],
+    });
+
+    const xml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(xml.indexOf('<conditionalFormatting')).toBeGreaterThan(xml.indexOf('</mergeCells>'));
+    expect(xml.indexOf('<dataValidations')).toBeGreaterThan(xml.indexOf('</conditionalFormatting>'));
+  });
+
+  test('should reject invalid formats before writing', async () => {
+    await expect(
+      writeXlsx(testFile, {
+        sheets: [
+          {
+            name: 'KPIs',
+            conditionalFormats: [{ range: 'B2:B3', type: 'colorScale', colors: ['FFF8696B', 'FF63BE7B'], thresholds: [{ type: 'min' }] }],
+            rows: rows(),
+          },
+        ],
+      }),
+    ).rejects.toThrow('one threshold per color');
+  });
+});
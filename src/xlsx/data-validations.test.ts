@@ -0,0 +1,123 @@
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+
+/**
+ * Reads the XML of the first worksheet of a written file
+ */
+async function readSheetXml(filePath: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const sheetEntry = zipFile.entries.find((e) => e.fileName === 'xl/worksheets/sheet1.xml');
+  return sheetEntry ? bytesToString(readZipEntry(sheetEntry, zipFile.zipFile)) : '';
+}
+
+describe('Data Validations', () => {
+  const testFile = 'test-data-validations.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should write list validations with messages', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Orders',
+          dataValidations: [
+            {
+              range: 'b2:b100 $D$2:$D$100',
+              type: 'list',
+              values: ['Open', 'Say "hi"', 'R&D'],
+              input: { title: 'Status', message: 'Pick a status' },
+              error: { title: 'Invalid', message: 'Not in list', style: 'warning' },
+            },
+            { range: 'C2:C100', type: 'list', formula1: '=$Z$1:$Z$5', showDropdown: false, allowBlank: false },
+          ],
+          rows: (async function* () {
+            yield row([cell('Id'), cell('Status')]);
+          })(),
+        },
+      ],
+    });
+
+    const xml = await readSheetXml(testFile);
+    expect(xml).toContain(
+      '<dataValidations count="2">'
+      + '<dataValidation type="list" errorStyle="warning" allowBlank="1" showInputMessage="1" showErrorMessage="1" errorTitle="Invalid" error="Not in list" promptTitle="Status" prompt="Pick a status" sqref="B2:B100 D2:D100">'
+      + '<formula1>&quot;Open,Say &quot;&quot;hi&quot;&quot;,R&amp;D&quot;</formula1></dataValidation>'
+      + '<dataValidation type="list" showDropDown="1" showErrorMessage="1" sqref="C2:C100"><formula1>$Z$1:$Z$5</formula1></dataValidation>'
+      + '</dataValidations>',
+    );
+  });
+
+  test('should write comparison operators and formula2 only when needed', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Data',
+          dataValidations: [
+            { range: 'A1:A10', type: 'whole', formula1: 1, formula2: 10 },
+            { range: 'B1:B10', type: 'decimal', operator: 'greaterThanOrEqual', formula1: 0.5, formula2: 9 },
+            { range: 'C1:C10', type: 'textLength', operator: 'lessThan', formula1: 'MAX_LEN', error: false },
+            { range: 'D1', type: 'custom', formula1: 'AND(D1>0,D1<A1)' },
+          ],
+          rows: (async function* () {
+            yield row([cell(1)]);
+          })(),
+        },
+      ],
+    });
+
+    const xml = await readSheetXml(testFile);
+    expect(xml).toContain('<dataValidation type="whole" allowBlank="1" showErrorMessage="1" sqref="A1:A10"><formula1>1</formula1><formula2>10</formula2></dataValidation>');
+    expect(xml).toContain('<dataValidation type="decimal" operator="greaterThanOrEqual" allowBlank="1" showErrorMessage="1" sqref="B1:B10"><formula1>0.5</formula1></dataValidation>');
+    expect(xml).toContain('<dataValidation type="textLength" operator="lessThan" allowBlank="1" sqref="C1:C10"><formula1>MAX_LEN</formula1></dataValidation>');
+    expect(xml).toContain('<formula1>AND(D1&gt;0,D1&lt;A1)</formula1>');
+  });
+
+  test('should place dataValidations after mergeCells and before tableParts', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Data',
+          autoDetectColumnWidth: true,
+          mergedCells: ['D1:E1'],
+          tables: [{ name: 'Items', range: 'A1:B3' }],
+          dataValidations: [{ range: 'B2:B3', type: 'decimal', operator: 'greaterThan', formula1: 0 }],
+          rows: (async function* () {
+            yield row([cell('Item'), cell('Price')]);
+            yield row([cell('Pen'), cell(1.5)]);
+            yield row([cell('Ink'), cell(3)]);
+          })(),
+        },
+      ],
+    });
+
+    const xml = await readSheetXml(testFile);
+    const mergeIndex = xml.indexOf('<mergeCells');
+    const validationIndex = xml.indexOf('<dataValidations');
+    const tablePartsIndex = xml.indexOf('<tableParts');
+    expect(mergeIndex).toBeGreaterThan(xml.indexOf('</sheetData>'));
+    expect(validationIndex).toBeGreaterThan(mergeIndex);
+    expect(tablePartsIndex).toBeGreaterThan(validationIndex);
+  });
+
+  test('should reject invalid rules before writing', async () => {
+    await expect(
+      writeXlsx(testFile, {
+        sheets: [
+          {
+            name: 'Data',
+            dataValidations: [{ range: 'A1', type: 'whole', formula1: 1 }],
+            rows: (async function* () {})(),
+          },
+        ],
+      }),
+    ).rejects.toThrow('requires formula2');
+  });
+});
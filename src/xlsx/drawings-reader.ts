@@ -0,0 +1,140 @@
+import type * as yauzl from 'yauzl';
+import { getCellReference } from '@utils/cell-reference';
+import { readZipEntry, type ZipEntry } from '@zip/reader';
+import { parseXmlEvents } from '@xml/parser';
+import { EMUS_PER_PIXEL } from './drawings';
+import { parsePartRelationships, type Relationship } from './relationships-reader';
+import type { SheetImage } from './sheet-properties-reader';
+import { bytesToUint8Array } from '../adapters';
+
+const DRAWING_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing';
+const IMAGE_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+
+/**
+ * Anchor of a picture being read
+ */
+interface PictureAnchor {
+  from: Record<'col' | 'colOff' | 'row' | 'rowOff', number>;
+  hasFrom: boolean;
+  width?: number; // EMUs
+  height?: number; // EMUs
+  name?: string;
+  description?: string;
+  relationshipId?: string;
+}
+
+/**
+ * Strips the namespace prefix of an element name (drawings may use any prefix)
+ */
+function localName(name: string | undefined): string {
+  return name ? name.slice(name.indexOf(':') + 1) : '';
+}
+
+/**
+ * Converts EMUs to pixels
+ */
+function toPixels(emus: number): number {
+  return Math.round(emus / EMUS_PER_PIXEL);
+}
+
+/**
+ * Parses the pictures of a drawing part (xl/drawings/drawingN.xml)
+ * Pictures with a cell anchor are returned with a reader of their media bytes, so the bytes
+ * stay in the archive until requested; absolute anchors and shapes other than pictures are skipped.
+ */
+export async function parseDrawingImages(
+  drawingEntry: ZipEntry,
+  entries: ZipEntry[],
+  zipFile: yauzl.ZipFile,
+): Promise<SheetImage[]> {
+  const anchors: PictureAnchor[] = [];
+  let anchor: PictureAnchor | null = null;
+  let section: 'from' | 'to' | null = null;
+  let fromField: keyof PictureAnchor['from'] | null = null;
+  let inPicture = false;
+
+  for await (const event of parseXmlEvents(readZipEntry(drawingEntry, zipFile))) {
+    const name = localName(event.name);
+    if (event.type === 'startElement') {
+      const attrs = event.attributes;
+      if (name === 'oneCellAnchor' || name === 'twoCellAnchor') {
+        anchor = { from: { col: 0, colOff: 0, row: 0, rowOff: 0 }, hasFrom: false };
+      } else if (!anchor) {
+        continue;
+      } else if (name === 'from' || name === 'to') {
+        section = name;
+        anchor.hasFrom ||= name === 'from';
+      } else if (section === 'from' && (name === 'col' || name === 'colOff' || name === 'row' || name === 'rowOff')) {
+        fromField = name;
+      } else if (name === 'ext' && attrs?.cx !== undefined && attrs?.cy !== undefined && anchor.width === undefined) {
+        // The anchor's own ext (one-cell anchors) or the picture's a:xfrm ext
+        anchor.width = parseInt(attrs.cx, 10);
+        anchor.height = parseInt(attrs.cy, 10);
+      } else if (name === 'pic') {
+        inPicture = true;
+      } else if (inPicture && name === 'cNvPr') {
+        if (attrs?.name) anchor.name = attrs.name;
+        if (attrs?.descr) anchor.description = attrs.descr;
+      } else if (inPicture && name === 'blip') {
+        anchor.relationshipId = attrs?.['r:embed'];
+      }
+    } else if (event.type === 'endElement') {
+      if ((name === 'oneCellAnchor' || name === 'twoCellAnchor') && anchor) {
+        if (anchor.hasFrom && anchor.relationshipId) {
+          anchors.push(anchor);
+        }
+        anchor = null;
+        inPicture = false;
+      } else if (name === 'from' || name === 'to') {
+        section = null;
+      } else if (name === fromField) {
+        fromField = null;
+      } else if (name === 'pic') {
+        inPicture = false;
+      }
+    } else if (event.type === 'text' && anchor && fromField) {
+      anchor.from[fromField] = parseInt(event.text ?? '0', 10) || 0;
+    }
+  }
+
+  if (anchors.length === 0) {
+    return [];
+  }
+
+  const relationships = await parsePartRelationships(drawingEntry.fileName, entries, zipFile);
+  const images: SheetImage[] = [];
+  for (const { from, width, height, name, description, relationshipId } of anchors) {
+    const relationship = relationships.find((r) => r.id === relationshipId && r.type === IMAGE_RELATIONSHIP_TYPE && !r.external);
+    const mediaEntry = relationship && entries.find((e) => e.fileName === relationship.target);
+    if (!mediaEntry) {
+      continue;
+    }
+    const image: SheetImage = {
+      getData: () => bytesToUint8Array(readZipEntry(mediaEntry, zipFile)),
+      anchor: getCellReference(from.row + 1, from.col),
+      width: toPixels(width ?? 0),
+      height: toPixels(height ?? 0),
+    };
+    if (from.colOff !== 0 || from.rowOff !== 0) {
+      image.offset = { x: toPixels(from.colOff), y: toPixels(from.rowOff) };
+    }
+    if (name !== undefined) image.name = name;
+    if (description !== undefined) image.description = description;
+    images.push(image);
+  }
+  return images;
+}
+
+/**
+ * Parses the pictures of a worksheet, found through the worksheet's drawing relationship
+ * @param relationships - Relationships of the worksheet part
+ */
+export async function parseSheetImages(
+  relationships: Relationship[],
+  entries: ZipEntry[],
+  zipFile: yauzl.ZipFile,
+): Promise<SheetImage[]> {
+  const relationship = relationships.find((r) => r.type === DRAWING_RELATIONSHIP_TYPE && !r.external);
+  const drawingEntry = relationship && entries.find((e) => e.fileName === relationship.target);
+  return drawingEntry ? parseDrawingImages(drawingEntry, entries, zipFile) : [];
+}
@@ -0,0 +1,109 @@
+/*
+ * Drawing part generator (pictures and charts anchored on a sheet)
+ */
+
+import { parseCellReference } from '@utils/cell-reference';
+import { escapeXml } from '@utils/xml';
+import { DEFAULT_CHART_HEIGHT, DEFAULT_CHART_WIDTH } from './charts';
+import type { ChartDefinition, ImageDefinition } from './types';
+
+/**
+ * DrawingML lengths are in EMUs (English Metric Units); a pixel at 96 DPI is 9525 EMUs
+ */
+export const EMUS_PER_PIXEL = 9525;
+
+/**
+ * Image formats that can be embedded, by file extension
+ */
+export type ImageFormat = 'png' | 'jpeg';
+
+/**
+ * Detects the format of image bytes from their signature
+ * @returns The format, or null if the data is not a PNG or JPEG image
+ */
+export function detectImageFormat(data: Uint8Array): ImageFormat | null {
+  if (data.length >= 8 && [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, index) => data[index] === byte)) {
+    return 'png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'jpeg';
+  }
+  return null;
+}
+
+/**
+ * Converts pixels to EMUs
+ */
+function toEmus(pixels: number): number {
+  return Math.round(pixels * EMUS_PER_PIXEL);
+}
+
+/**
+ * Generates the start of a one-cell anchor: the cell and offset of the top-left corner, and the size
+ * A one-cell anchor moves the object with its cell but keeps its size when rows and columns are resized.
+ */
+function generateAnchorStart(anchor: string, offset: { x?: number; y?: number } | undefined, cx: number, cy: number): string {
+  const position = parseCellReference(anchor.replace(/\$/g, '').toUpperCase());
+  if (!position) {
+    throw new Error(`Invalid drawing anchor: ${anchor}`);
+  }
+  return `  <xdr:oneCellAnchor>
+    <xdr:from><xdr:col>${position.colIndex}</xdr:col><xdr:colOff>${toEmus(offset?.x ?? 0)}</xdr:colOff><xdr:row>${position.rowIndex - 1}</xdr:row><xdr:rowOff>${toEmus(offset?.y ?? 0)}</xdr:rowOff></xdr:from>
+    <xdr:ext cx="${cx}" cy="${cy}"/>`;
+}
+
+/**
+ * Generates the anchor of a picture
+ * @param pictureNumber - Number of the picture in the drawing, used for its default name
+ */
+function generatePictureAnchor(image: ImageDefinition, relationshipId: string, shapeId: number, pictureNumber: number): string {
+  const cx = toEmus(image.width);
+  const cy = toEmus(image.height);
+  const name = image.name ?? `Picture ${pictureNumber}`;
+  const descr = image.description !== undefined ? ` descr="${escapeXml(image.description)}"` : '';
+  return `${generateAnchorStart(image.anchor, image.offset, cx, cy)}
+    <xdr:pic>
+      <xdr:nvPicPr><xdr:cNvPr id="${shapeId}" name="${escapeXml(name)}"${descr}/><xdr:cNvPicPr><a:picLocks noChangeAspect="1"/></xdr:cNvPicPr></xdr:nvPicPr>
+      <xdr:blipFill><a:blip r:embed="${escapeXml(relationshipId)}"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>
+      <xdr:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></xdr:spPr>
+    </xdr:pic>
+    <xdr:clientData/>
+  </xdr:oneCellAnchor>`;
+}
+
+/**
+ * Generates the anchor of a chart: a graphic frame pointing at the chart part
+ * @param chartNumber - Number of the chart in the drawing, used for its default name
+ */
+function generateChartAnchor(chart: ChartDefinition, relationshipId: string, shapeId: number, chartNumber: number): string {
+  const name = chart.name ?? `Chart ${chartNumber}`;
+  return `${generateAnchorStart(chart.anchor, chart.offset, toEmus(chart.width ?? DEFAULT_CHART_WIDTH), toEmus(chart.height ?? DEFAULT_CHART_HEIGHT))}
+    <xdr:graphicFrame macro="">
+      <xdr:nvGraphicFramePr><xdr:cNvPr id="${shapeId}" name="${escapeXml(name)}"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>
+      <xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>
+      <a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart"><c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" r:id="${escapeXml(relationshipId)}"/></a:graphicData></a:graphic>
+    </xdr:graphicFrame>
+    <xdr:clientData/>
+  </xdr:oneCellAnchor>`;
+}
+
+/**
+ * Generates xl/drawings/drawingN.xml
+ * @param images - Pictures of the sheet with the drawing relationship IDs of their media parts
+ * @param charts - Charts of the sheet with the drawing relationship IDs of their chart parts
+ */
+export function generateDrawing(
+  images: { definition: ImageDefinition; relationshipId: string }[],
+  charts: { definition: ChartDefinition; relationshipId: string }[] = [],
+): string {
+  // Shape id 1 is reserved for the drawing itself
+  const anchors = [
+    ...images.map(({ definition, relationshipId }, index) => generatePictureAnchor(definition, relationshipId, index + 2, index + 1)),
+    ...charts.map(({ definition, relationshipId }, index) => generateChartAnchor(definition, relationshipId, images.length + index + 2, index + 1)),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+${anchors.join('\n')}
+</xdr:wsDr>`;
+}
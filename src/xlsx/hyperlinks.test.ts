@@ -0,0 +1,127 @@
+import { cell, cellFromHyperlink } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readXlsx } from './reader';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+import type { Row } from '../types';
+
+/**
+ * Reads the XML of an entry of a written file
+ */
+async function readEntryXml(filePath: string, fileName: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
+
+describe('Hyperlinks', () => {
+  const testFile = 'test-hyperlinks.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should write hyperlinks with external targets in the sheet relationships', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Links',
+          rows: (async function* () {
+            yield row([cellFromHyperlink('Website', 'https://example.com/?q=a&b'), cellFromHyperlink('Mail', 'mailto:team@example.com')]);
+            yield row([cell('Plain'), cellFromHyperlink('Summary', { location: "'Q1 Sales'!A1", tooltip: 'Go to "Q1"' })]);
+            yield row([cellFromHyperlink('Website again', 'https://example.com/?q=a&b')]);
+          })(),
+        },
+        {
+          name: 'Q1 Sales',
+          rows: (async function* () {
+            yield row([cell('Total')]);
+          })(),
+        },
+      ],
+    });
+
+    const xml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(xml).toContain(
+      '</sheetData><hyperlinks><hyperlink ref="A1" r:id="rId1"/><hyperlink ref="B1" r:id="rId2"/>'
+      + '<hyperlink ref="B2" location="&apos;Q1 Sales&apos;!A1" tooltip="Go to &quot;Q1&quot;"/><hyperlink ref="A3" r:id="rId3"/></hyperlinks></worksheet>',
+    );
+
+    const rels = await readEntryXml(testFile, 'xl/worksheets/_rels/sheet1.xml.rels');
+    expect(rels).toContain('<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/?q=a&amp;b" TargetMode="External"/>');
+    expect(rels).toContain('<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="mailto:team@example.com" TargetMode="External"/>');
+    expect(rels).toContain('<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/?q=a&amp;b" TargetMode="External"/>');
+    // Sheets without external links have no relationships part
+    expect(await readEntryXml(testFile, 'xl/worksheets/_rels/sheet2.xml.rels')).toBe('');
+  });
+
+  test('should number hyperlink relationships after tables', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Data',
+          tables: [{ name: 'Sites' }],
+          rows: (async function* () {
+            yield row([cell('Site')]);
+            yield row([cellFromHyperlink('Example', 'https://example.com')]);
+          })(),
+        },
+      ],
+    });
+
+    const xml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(xml).toContain('<hyperlinks><hyperlink ref="A2" r:id="rId2"/></hyperlinks><tableParts count="1"><tablePart r:id="rId1"/></tableParts>');
+    const rels = await readEntryXml(testFile, 'xl/worksheets/_rels/sheet1.xml.rels');
+    expect(rels).toContain('Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/table"');
+    expect(rels).toContain('Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink"');
+  });
+
+  test('should read hyperlinks back onto cells', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Links',
+          autoDetectColumnWidth: true,
+          rows: (async function* () {
+            yield row([cellFromHyperlink('Website', { url: 'https://example.com', tooltip: 'Open' }), cell(1)]);
+            yield row([cellFromHyperlink('Top', { location: 'Links!A1' })]);
+          })(),
+        },
+      ],
+    });
+
+    await using workbook = await readXlsx(testFile);
+    const sheet = workbook.sheet('Links');
+    const rows: Row[] = [];
+    for await (const r of sheet.rows()) {
+      rows.push(r);
+    }
+
+    expect(rows[0]?.cells[0]).toEqual({ value: 'Website', type: 'string', hyperlink: { url: 'https://example.com', tooltip: 'Open' } });
+    expect(rows[0]?.cells[1]?.hyperlink).toBeUndefined();
+    expect(rows[1]?.cells[0]?.hyperlink).toEqual({ location: 'Links!A1' });
+    expect(sheet.hyperlinks).toEqual([
+      { ref: 'A1', hyperlink: { url: 'https://example.com', tooltip: 'Open' } },
+      { ref: 'A2', hyperlink: { location: 'Links!A1' } },
+    ]);
+  });
+
+  test('should reject hyperlinks without a target', async () => {
+    await expect(
+      writeXlsx(testFile, {
+        sheets: [
+          {
+            name: 'Links',
+            rows: (async function* () {
+              yield row([cellFromHyperlink('Nowhere', {})]);
+            })(),
+          },
+        ],
+      }),
+    ).rejects.toThrow('Hyperlink for cell A1 needs a url or a location');
+  });
+});
@@ -0,0 +1,139 @@
+import { cell, cellFromHyperlink } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { detectImageFormat, generateDrawing } from './drawings';
+import { readXlsx } from './reader';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString, bytesToUint8Array } from '../adapters';
+
+/**
+ * Reads the XML of an entry of a written file
+ */
+async function readEntryXml(filePath: string, fileName: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
+
+// 1x1 transparent PNG
+const png = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='), (c) => c.charCodeAt(0));
+// JPEG signature followed by a JFIF header
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0xff, 0xd9]);
+
+describe('Images', () => {
+  const testFile = 'test-images.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should detect PNG and JPEG data', () => {
+    expect(detectImageFormat(png)).toBe('png');
+    expect(detectImageFormat(jpeg)).toBe('jpeg');
+    expect(detectImageFormat(new TextEncoder().encode('GIF89a'))).toBeNull();
+  });
+
+  test('should anchor pictures to their cell with offsets and sizes in EMUs', () => {
+    const xml = generateDrawing([
+      { definition: { data: png, anchor: 'C3', offset: { x: 4, y: 2 }, width: 120, height: 60, description: 'Logo & name' }, relationshipId: 'rId1' },
+      { definition: { data: jpeg, anchor: 'A10', width: 32, height: 32, name: 'Thumbnail' }, relationshipId: 'rId2' },
+    ]);
+    expect(xml).toContain('<xdr:from><xdr:col>2</xdr:col><xdr:colOff>38100</xdr:colOff><xdr:row>2</xdr:row><xdr:rowOff>19050</xdr:rowOff></xdr:from>');
+    expect(xml).toContain('<xdr:ext cx="1143000" cy="571500"/>');
+    expect(xml).toContain('<xdr:cNvPr id="2" name="Picture 1" descr="Logo &amp; name"/>');
+    expect(xml).toContain('<a:blip r:embed="rId1"/>');
+    expect(xml).toContain('<xdr:cNvPr id="3" name="Thumbnail"/>');
+    expect(xml).toContain('<xdr:from><xdr:col>0</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>9</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>');
+  });
+
+  test('should write media, the drawing and their relationships', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Products',
+          rows: (async function* () {
+            yield row([cell('Logo'), cellFromHyperlink('Shop', 'https://example.com')]);
+          })(),
+          comments: { A1: { text: 'Brand logo' } },
+          images: [
+            { data: png, anchor: 'B2', width: 100, height: 40 },
+            { data: jpeg, anchor: 'B5', width: 64, height: 64 },
+          ],
+        },
+        {
+          name: 'More',
+          rows: (async function* () {
+            yield row([cell('Thumbnail')]);
+          })(),
+          images: [{ data: png, anchor: 'A2', width: 10, height: 10 }],
+        },
+      ],
+    });
+
+    const zipFile = await openZip(await readFile(testFile));
+    const media = zipFile.entries.filter((e) => e.fileName.startsWith('xl/media/')).map((e) => e.fileName).sort();
+    expect(media).toEqual(['xl/media/image1.png', 'xl/media/image2.jpeg', 'xl/media/image3.png']);
+    const image1 = zipFile.entries.find((e) => e.fileName === 'xl/media/image1.png')!;
+    expect(await bytesToUint8Array(readZipEntry(image1, zipFile.zipFile))).toEqual(png);
+
+    const sheetXml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(sheetXml).toContain('</hyperlinks><drawing r:id="rId3"/><legacyDrawing r:id="rId1"/></worksheet>');
+
+    const sheetRels = await readEntryXml(testFile, 'xl/worksheets/_rels/sheet1.xml.rels');
+    expect(sheetRels).toContain('<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing" Target="../drawings/drawing1.xml"/>');
+    expect(sheetRels).toContain('<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com" TargetMode="External"/>');
+
+    const drawingRels = await readEntryXml(testFile, 'xl/drawings/_rels/drawing2.xml.rels');
+    expect(drawingRels).toContain('<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="../media/image3.png"/>');
+
+    const contentTypes = await readEntryXml(testFile, '[Content_Types].xml');
+    expect(contentTypes).toContain('<Default Extension="png" ContentType="image/png"/>');
+    expect(contentTypes).toContain('<Default Extension="jpeg" ContentType="image/jpeg"/>');
+    expect(contentTypes).toContain('<Override PartName="/xl/drawings/drawing1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>');
+    expect(contentTypes).toContain('<Override PartName="/xl/drawings/drawing2.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>');
+  });
+
+  test('should read images back with their anchors', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Products',
+        rows: (async function* () {
+          yield row([cell('Logo')]);
+        })(),
+        images: [
+          { data: png, anchor: 'B2', offset: { x: 5, y: 3 }, width: 100, height: 40, name: 'Logo', description: 'Company logo' },
+          { data: jpeg, anchor: 'D7', width: 64, height: 48 },
+        ],
+      }],
+    });
+
+    const workbook = await readXlsx(testFile);
+    const images = workbook.sheet('Products').images!;
+    expect(images.map(({ getData: _, ...image }) => image)).toEqual([
+      { anchor: 'B2', offset: { x: 5, y: 3 }, width: 100, height: 40, name: 'Logo', description: 'Company logo' },
+      { anchor: 'D7', width: 64, height: 48, name: 'Picture 2' },
+    ]);
+    // The bytes are read from the archive on demand
+    expect(await images[1]!.getData()).toEqual(jpeg);
+    expect(await images[0]!.getData()).toEqual(png);
+    await workbook.cleanup();
+  });
+
+  test('should reject images that are not PNG or JPEG', async () => {
+    const write = (image: Record<string, unknown>) => writeXlsx(testFile, {
+      sheets: [{
+        name: 'Products',
+        rows: (async function* () {
+          yield row([cell('Logo')]);
+        })(),
+        images: [image as never],
+      }],
+    });
+    await expect(write({ data: new TextEncoder().encode('GIF89a'), anchor: 'A1', width: 10, height: 10 })).rejects.toThrow('Image data must be a PNG or JPEG image');
+    await expect(write({ data: png, anchor: 'A0', width: 10, height: 10 })).rejects.toThrow('Must be a cell reference in A1 notation');
+    await expect(write({ data: png, anchor: 'A1', width: 0, height: 10 })).rejects.toThrow('Image width must be positive');
+  });
+});
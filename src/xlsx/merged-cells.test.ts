@@ -0,0 +1,123 @@
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readXlsx } from './reader';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+
+/**
+ * Reads the XML of the first worksheet of a written file
+ */
+async function readSheetXml(filePath: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const sheetEntry = zipFile.entries.find((e) => e.fileName === 'xl/worksheets/sheet1.xml');
+  return sheetEntry ? bytesToString(readZipEntry(sheetEntry, zipFile.zipFile)) : '';
+}
+
+describe('Merged Cells', () => {
+  const testFile = 'test-merged-cells.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should write merged cells after sheetData', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Report',
+          mergedCells: ['A1:D1', { startRow: 1, startColumn: 0, endRow: 2, endColumn: 0 }, '$b$2:$c$3'],
+          rows: (async function* () {
+            yield row([cell('Quarterly Report')]);
+            yield row([cell('North'), cell(1)]);
+            yield row([cell(''), cell(2)]);
+          })(),
+        },
+      ],
+    });
+
+    const xml = await readSheetXml(testFile);
+    expect(xml).toContain(
+      '</sheetData><mergeCells count="3"><mergeCell ref="A1:D1"/><mergeCell ref="A2:A3"/><mergeCell ref="B2:C3"/></mergeCells></worksheet>',
+    );
+  });
+
+  test('should not write mergeCells when no ranges are given', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Data',
+          mergedCells: [],
+          rows: (async function* () {
+            yield row([cell('A')]);
+          })(),
+        },
+      ],
+    });
+
+    expect(await readSheetXml(testFile)).not.toContain('mergeCells');
+  });
+
+  test('should write merged cells on the buffered path used for column widths', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Data',
+          autoDetectColumnWidth: true,
+          mergedCells: ['A1:B1'],
+          rows: (async function* () {
+            yield row([cell('Header')]);
+          })(),
+        },
+      ],
+    });
+
+    expect(await readSheetXml(testFile)).toContain('<mergeCells count="1"><mergeCell ref="A1:B1"/></mergeCells>');
+  });
+
+  test('should read merged cells back', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Report',
+          mergedCells: ['A1:C1', { startRow: 4, startColumn: 1, endRow: 5, endColumn: 2 }],
+          rows: (async function* () {
+            yield row([cell('Title')]);
+          })(),
+        },
+        {
+          name: 'Plain',
+          rows: (async function* () {
+            yield row([cell('No merges')]);
+          })(),
+        },
+      ],
+    });
+
+    await using workbook = await readXlsx(testFile);
+    expect(workbook.sheet('Report').mergedCells).toEqual(['A1:C1', 'B5:C6']);
+    expect(workbook.sheet('Plain').mergedCells).toBeUndefined();
+  });
+
+  test('should reject invalid and overlapping merged cells before writing', async () => {
+    const definition = (mergedCells: any[]) => ({
+      sheets: [
+        {
+          name: 'Data',
+          mergedCells,
+          rows: (async function* () {
+            yield row([cell('A')]);
+          })(),
+        },
+      ],
+    });
+
+    await expect(writeXlsx(testFile, definition(['A1:B2', 'B2:C3']))).rejects.toThrow('Merged cell ranges overlap: A1:B2 and B2:C3');
+    await expect(writeXlsx(testFile, definition(['A1']))).rejects.toThrow('must span at least two cells');
+    await expect(writeXlsx(testFile, definition(['Sheet1!A1:B2']))).rejects.toThrow('A1-style range');
+    await expect(writeXlsx(testFile, definition([{ startRow: -1, startColumn: 0, endRow: 0, endColumn: 1 }]))).rejects.toThrow();
+  });
+});
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { cell } from '@sheet/cell';
+import { cell, cellFromDate, cellFromDuration, cellFromFormula } from '@sheet/cell';
 import { parseSheet } from '@sheet/reader';
 import { row } from '@sheet/row';
 import { parseXmlEvents } from '@xml/parser';
@@ -7,7 +7,7 @@ import { describe, test, expect, afterEach } from '@tests/framework';
 import { cleanupTestFiles } from '@tests/helpers';
 import { readXlsx } from './reader';
 import { readFile, writeFile } from '../adapters';
-import { writeXlsx } from './writer';
+import { writeXlsx, writeXlsxToBuffer } from './writer';
 
 describe('XLSXReader', () => {
   const testFile = 'test-read.xlsx';
@@ -1167,4 +1167,206 @@ describe('XLSXReader', () => {
     expect((dateCell?.value as Date)?.getFullYear()).toBe(1900);
     expect((dateCell?.value as Date)?.getDate()).toBe(1);
   });
+
+  test('should round-trip dates exactly in the configured time zone', async () => {
+    const meeting = new Date('2024-03-31T07:30:00Z'); // 09:30 in Berlin, the day summer time starts
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Calendar',
+        rows: (async function* () {
+          yield row([cell(meeting), { ...cellFromDate(meeting), style: { numberFormat: 'yyyy-mm-dd hh:mm' } }]);
+        })(),
+      }],
+    }, { timezone: 'Europe/Berlin' });
+
+    const workbook = await readXlsx(testFile, { timezone: 'Europe/Berlin', formattedValues: true });
+    for await (const r of workbook.sheet('Calendar').rows()) {
+      expect(r.cells[0]?.value).toEqual(meeting);
+      expect(r.cells[1]?.value).toEqual(meeting);
+      // Formatted values show the wall-clock time stored in the cell
+      expect(r.cells[1]?.formattedValue).toBe('2024-03-31 09:30');
+    }
+    await workbook.cleanup();
+
+    const utcWorkbook = await readXlsx(testFile, { timezone: 'UTC' });
+    for await (const r of utcWorkbook.sheet('Calendar').rows()) {
+      expect((r.cells[0]?.value as Date).toISOString()).toBe('2024-03-31T09:30:00.000Z');
+    }
+    await utcWorkbook.cleanup();
+  });
+
+  test('should round-trip dates through the 1904 date system', async () => {
+    const invoiceDate = new Date(2024, 4, 17);
+    const dueAt = new Date(2024, 5, 16, 17, 30);
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Invoices',
+        rows: (async function* () {
+          yield row([
+            cell(invoiceDate),
+            cell(dueAt),
+            { ...cell(45429), type: 'date' },
+            cellFromFormula('TODAY()', invoiceDate),
+            { value: 0.75, type: 'date' },
+          ]);
+        })(),
+      }],
+    }, { dateSystem: '1904' });
+
+    // The date system is detected from workbookPr
+    const workbook = await readXlsx(testFile);
+    for await (const r of workbook.sheet('Invoices').rows()) {
+      expect(r.cells.slice(0, 3).map((c) => c?.value)).toEqual([invoiceDate, dueAt, invoiceDate]);
+      // The cached result of the formula is written as a 1904 serial
+      expect(r.cells[3]?.computedValue).toBe(45429 - 1462);
+      // Times of day are not shifted
+      expect(r.cells[4]?.value).toEqual(new Date(1904, 0, 1, 18));
+    }
+    await workbook.cleanup();
+
+    // Without the detected date system the serials would be four years early
+    const misread = await readXlsx(testFile, { use1904Dates: false });
+    for await (const r of misread.sheet('Invoices').rows()) {
+      expect((r.cells[0]?.value as Date).getFullYear()).toBe(2020);
+    }
+    await misread.cleanup();
+  });
+
+  test('should reject unknown time zones', async () => {
+    const rows = (async function* () {
+      yield row([cell(new Date())]);
+    })();
+    await expect(writeXlsx(testFile, { sheets: [{ name: 'Sheet1', rows }] }, { timezone: 'Mars/Olympus_Mons' })).rejects.toThrow('Unknown time zone: Mars/Olympus_Mons');
+    await expect(readXlsx(testFile, { timezone: 'Mars/Olympus_Mons' })).rejects.toThrow('Unknown time zone');
+  });
+
+  test('should read formatted values of written number formats', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Prices',
+        rows: (async function* () {
+          yield row([
+            { ...cell(1234.5), style: { numberFormat: 4 } },
+            { ...cell(0.075), style: { numberFormat: 10 } },
+            { ...cell(1.25), style: { numberFormat: '# ?/?' } },
+            cell(99),
+          ]);
+        })(),
+      }],
+    });
+
+    const workbook = await readXlsx(testFile, { formattedValues: true });
+    for await (const r of workbook.sheet('Prices').rows()) {
+      expect(r.cells.map((c) => c?.formattedValue)).toEqual(['1,234.50', '7.50%', '1 1/4', '99']);
+    }
+    await workbook.cleanup();
+  });
+
+  test('should read elapsed time formats as durations', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Timesheet',
+        rows: (async function* () {
+          yield row([
+            cellFromDuration('PT25H30M'),
+            { ...cell(0.0625), style: { numberFormat: '[mm]:ss' } },
+            { ...cellFromFormula('A1*2', 2.125), style: { numberFormat: '[h]:mm' } },
+            { ...cell(0.0625), style: { numberFormat: 'h:mm' } },
+          ]);
+        })(),
+      }],
+    });
+
+    const workbook = await readXlsx(testFile, { formattedValues: true });
+    for await (const r of workbook.sheet('Timesheet').rows()) {
+      expect(r.cells.slice(0, 2)).toEqual([
+        { value: 91800000, type: 'duration', formattedValue: '25:30:00' },
+        { value: 5400000, type: 'duration', formattedValue: '90:00' },
+      ]);
+      expect(r.cells[2]?.formattedValue).toBe('51:00');
+      // Clock times are dates, not durations
+      expect(r.cells[3]?.type).toBe('date');
+    }
+    await workbook.cleanup();
+
+    const isoWorkbook = await readXlsx(testFile, { durations: 'iso' });
+    for await (const r of isoWorkbook.sheet('Timesheet').rows()) {
+      expect(r.cells.slice(0, 2).map((c) => c?.value)).toEqual(['PT25H30M', 'PT1H30M']);
+    }
+    await isoWorkbook.cleanup();
+  });
+
+  describe('In-memory and streamed sources', () => {
+    const writeSample = () => writeXlsxToBuffer({
+      sheets: [
+        {
+          name: 'Data',
+          rows: (async function* () {
+            yield row([cell('Name'), cell('Age')]);
+            yield row([cell('Alice'), cell(30)]);
+          })(),
+        },
+      ],
+    });
+
+    async function readValues(source: Parameters<typeof readXlsx>[0]): Promise<unknown[][]> {
+      await using workbook = await readXlsx(source);
+      const values: unknown[][] = [];
+      for await (const r of workbook.sheet('Data').rows()) {
+        values.push(r.cells.map((c) => c?.value));
+      }
+      return values;
+    }
+
+    const expected = [['Name', 'Age'], ['Alice', 30]];
+
+    test('should read from a Uint8Array', async () => {
+      expect(await readValues(await writeSample())).toEqual(expected);
+    });
+
+    test('should read from a Uint8Array view with an offset', async () => {
+      const bytes = await writeSample();
+      const padded = new Uint8Array(bytes.length + 8);
+      padded.set(bytes, 8);
+      expect(await readValues(padded.subarray(8))).toEqual(expected);
+    });
+
+    test('should read from an ArrayBuffer', async () => {
+      const bytes = await writeSample();
+      const arrayBuffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+      expect(await readValues(arrayBuffer)).toEqual(expected);
+    });
+
+    test('should read from a Blob', async () => {
+      const blob = new Blob([await writeSample()]);
+      expect(await readValues(blob)).toEqual(expected);
+    });
+
+    test('should read from a ReadableStream', async () => {
+      const bytes = await writeSample();
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          // Deliver in several chunks like a network body
+          for (let offset = 0; offset < bytes.length; offset += 100) {
+            controller.enqueue(bytes.slice(offset, offset + 100));
+          }
+          controller.close();
+        },
+      });
+      expect(await readValues(stream)).toEqual(expected);
+    });
+
+    test('should read from an AsyncIterable<Uint8Array>', async () => {
+      const bytes = await writeSample();
+      const iterable = (async function* () {
+        yield bytes.slice(0, 10);
+        yield bytes.slice(10);
+      })();
+      expect(await readValues(iterable)).toEqual(expected);
+    });
+
+    test('should reject unsupported sources', async () => {
+      await expect(readXlsx(42 as any)).rejects.toThrow('Unsupported XLSX source');
+    });
+  });
 });
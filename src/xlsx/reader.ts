@@ -1,11 +1,16 @@
 import type * as yauzl from 'yauzl';
 import { parseBooleanAttribute } from '@utils/xml';
-import { openZip, readZipEntry, type ZipEntry } from '@zip/reader';
+import { openZip, openZipFile, readZipEntry, type ZipEntry } from '@zip/reader';
 import { parseXmlEvents } from '@xml/parser';
+import { parseSheetComments } from './comments-reader';
+import { parseSheetImages } from './drawings-reader';
+import { parsePartRelationships } from './relationships-reader';
 import { parseSheetProperties, type SheetProperties } from './sheet-properties-reader';
-import type { ReadOptions } from './types';
+import { parseSheetTables } from './tables-reader';
+import type { ReadOptions, XlsxSource } from './types';
+import { timezoneSchema } from './validation';
 import { Workbook, type SheetInfo } from './workbook';
-import { readFile } from '../adapters';
+import { blobToBytes, bytesToUint8Array, readableStreamToBytes } from '../adapters';
 
 /**
  * Result of parsing workbook.xml
@@ -59,7 +64,21 @@ async function parseWorkbook(
           // Parse sheet properties (column widths, row heights, etc.)
           let sheetProperties: SheetProperties | undefined;
           try {
-            sheetProperties = await parseSheetProperties(sheetEntry, zipFile);
+            // Tables, comments, drawings and external hyperlink targets are linked through the sheet's relationships
+            const relationships = await parsePartRelationships(sheetEntry.fileName, entries, zipFile);
+            sheetProperties = await parseSheetProperties(sheetEntry, zipFile, relationships);
+            const tables = await parseSheetTables(relationships, entries, zipFile);
+            if (tables.length > 0) {
+              sheetProperties.tables = tables;
+            }
+            const comments = await parseSheetComments(relationships, entries, zipFile);
+            if (comments) {
+              sheetProperties.comments = comments;
+            }
+            const images = await parseSheetImages(relationships, entries, zipFile);
+            if (images.length > 0) {
+              sheetProperties.images = images;
+            }
           } catch {
             // If parsing fails, continue without properties
             sheetProperties = undefined;
@@ -88,20 +107,55 @@ async function parseWorkbook(
 }
 
 /**
- * Reads an XLSX file and returns a Workbook instance
+ * Collects an in-memory or streamed XLSX source into a single Buffer
+ */
+async function sourceToBuffer(source: Exclude<XlsxSource, string>): Promise<Buffer> {
+  if (source instanceof Uint8Array) {
+    // Wrap without copying
+    return Buffer.from(source.buffer, source.byteOffset, source.byteLength);
+  }
+  if (source instanceof ArrayBuffer) {
+    return Buffer.from(source);
+  }
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    return Buffer.from(await bytesToUint8Array(blobToBytes(source)));
+  }
+  if (typeof ReadableStream !== 'undefined' && source instanceof ReadableStream) {
+    return Buffer.from(await bytesToUint8Array(readableStreamToBytes(source)));
+  }
+  if (typeof source === 'object' && source !== null && Symbol.asyncIterator in source) {
+    return Buffer.from(await bytesToUint8Array(source));
+  }
+  throw new Error('Unsupported XLSX source. Expected a file path, Uint8Array, ArrayBuffer, Blob, ReadableStream or AsyncIterable<Uint8Array>.');
+}
+
+/**
+ * Reads an XLSX workbook and returns a Workbook instance
+ * @param source - File path, or the workbook bytes as Uint8Array, ArrayBuffer, Blob,
+ *   ReadableStream or AsyncIterable<Uint8Array>
+ * @throws {z.ZodError} If the timezone option is unknown
  */
-export async function readXlsx(filePath: string, options?: ReadOptions): Promise<Workbook> {
-  // Read file to buffer
-  const buffer = await readFile(filePath);
+export async function readXlsx(source: XlsxSource, options?: ReadOptions): Promise<Workbook> {
+  if (options?.timezone !== undefined) {
+    timezoneSchema.parse(options.timezone);
+  }
 
-  // Open ZIP
-  const zipFile = await openZip(buffer);
+  // Open ZIP: files are read on demand through their file descriptor,
+  // other inputs are collected into memory first
+  const zipFile = typeof source === 'string'
+    ? await openZipFile(source)
+    : await openZip(await sourceToBuffer(source));
 
   // Parse workbook.xml to get sheet names, relationships, and date system
-  const { sheets: sheetInfos, use1904Dates: detectedUse1904Dates } = await parseWorkbook(
-    zipFile.zipFile,
-    zipFile.entries,
-  );
+  let parsed: WorkbookParseResult;
+  try {
+    parsed = await parseWorkbook(zipFile.zipFile, zipFile.entries);
+  } catch (error) {
+    // Release the file descriptor, the caller never receives a Workbook to clean up
+    zipFile.zipFile.close();
+    throw error;
+  }
+  const { sheets: sheetInfos, use1904Dates: detectedUse1904Dates } = parsed;
 
   // Merge detected date system with user options (user option takes precedence)
   // Create immutable options object
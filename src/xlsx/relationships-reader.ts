@@ -0,0 +1,76 @@
+import type * as yauzl from 'yauzl';
+import { readZipEntry, type ZipEntry } from '@zip/reader';
+import { parseXmlEvents } from '@xml/parser';
+
+/**
+ * Relationship from a package part to another part or an external target
+ */
+export interface Relationship {
+  id: string;
+  type: string; // Full relationship type URI
+  target: string; // Resolved part path (e.g., "xl/tables/table1.xml"), or the raw target if external
+  external: boolean;
+}
+
+/**
+ * Gets the path of the relationships part of a package part
+ * @example getRelationshipsPath('xl/worksheets/sheet1.xml') === 'xl/worksheets/_rels/sheet1.xml.rels'
+ */
+export function getRelationshipsPath(partPath: string): string {
+  const slash = partPath.lastIndexOf('/');
+  return `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+}
+
+/**
+ * Resolves a relationship target relative to the part that owns the relationship
+ * Absolute targets ("/xl/...") are relative to the package root.
+ */
+export function resolveRelationshipTarget(partPath: string, target: string): string {
+  const segments = target.startsWith('/')
+    ? []
+    : partPath.split('/').slice(0, -1);
+  for (const segment of target.replace(/^\//, '').split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Parses the relationships of a package part
+ * Returns an empty list when the part has no relationships
+ */
+export async function parsePartRelationships(
+  partPath: string,
+  entries: ZipEntry[],
+  zipFile: yauzl.ZipFile,
+): Promise<Relationship[]> {
+  const relsPath = getRelationshipsPath(partPath);
+  const relsEntry = entries.find((e) => e.fileName === relsPath);
+  if (!relsEntry) {
+    return [];
+  }
+
+  const relationships: Relationship[] = [];
+  for await (const event of parseXmlEvents(readZipEntry(relsEntry, zipFile))) {
+    if (event.type === 'startElement' && event.name === 'Relationship') {
+      const id = event.attributes?.Id;
+      const type = event.attributes?.Type;
+      const target = event.attributes?.Target;
+      if (!id || !type || target === undefined) {
+        continue;
+      }
+      const external = event.attributes?.TargetMode === 'External';
+      relationships.push({
+        id,
+        type,
+        target: external ? target : resolveRelationshipTarget(partPath, target),
+        external,
+      });
+    }
+  }
+  return relationships;
+}
@@ -0,0 +1,107 @@
+import { cell, cellFromRichText } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readXlsx } from './reader';
+import { SharedStringsTable } from './shared-strings';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+import type { Row, RichTextRun } from '../types';
+
+/**
+ * Reads the XML of an entry of a written file
+ */
+async function readEntryXml(filePath: string, fileName: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : '';
+}
+
+const runs: RichTextRun[] = [
+  { text: 'Revenue', font: { bold: true, fontColor: 'FF1F4E79' } },
+  { text: ' (EUR)', font: { italic: true, fontSize: 9, fontName: 'Calibri', underline: true, strikethrough: true } },
+];
+
+describe('Rich Text Cells', () => {
+  const testFile = 'test-rich-text.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  const writeRichText = (sharedStrings: 'inline' | 'shared') => writeXlsx(testFile, {
+    sheets: [{
+      name: 'Report',
+      rows: (async function* () {
+        yield row([cellFromRichText(runs), cell('Revenue'), cellFromRichText(runs)]);
+      })(),
+    }],
+  }, { sharedStrings });
+
+  test('should write inline rich text as runs with their fonts', async () => {
+    await writeRichText('inline');
+
+    const xml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(xml).toContain(
+      '<c r="A1" t="inlineStr"><is><r><rPr><b/><color rgb="FF1F4E79"/></rPr><t xml:space="preserve">Revenue</t></r>'
+      + '<r><rPr><rFont val="Calibri"/><i/><strike/><sz val="9"/><u/></rPr><t xml:space="preserve"> (EUR)</t></r></is></c>',
+    );
+  });
+
+  test('should share rich text separately from plain strings', async () => {
+    await writeRichText('shared');
+
+    const sheetXml = await readEntryXml(testFile, 'xl/worksheets/sheet1.xml');
+    expect(sheetXml).toContain('<c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>0</v></c>');
+
+    const sst = await readEntryXml(testFile, 'xl/sharedStrings.xml');
+    expect(sst).toContain('count="3" uniqueCount="2"');
+    expect(sst).toContain('<si><r><rPr><b/><color rgb="FF1F4E79"/></rPr><t xml:space="preserve">Revenue</t></r>');
+    expect(sst).toContain('<si><t>Revenue</t></si>');
+  });
+
+  test('should keep the plain text of rich text in the shared strings table', () => {
+    const table = new SharedStringsTable();
+    expect(table.addString(runs)).toBe(0);
+    expect(table.addString('Revenue (EUR)')).toBe(1);
+    expect(table.addString([...runs])).toBe(0);
+    expect(table.getStrings()).toEqual(['Revenue (EUR)', 'Revenue (EUR)']);
+  });
+
+  for (const sharedStrings of ['inline', 'shared'] as const) {
+    test(`should read ${sharedStrings} rich text back only with the richText option`, async () => {
+      await writeRichText(sharedStrings);
+
+      const readCells = async (richText: boolean) => {
+        const workbook = await readXlsx(testFile, { richText });
+        const rows: Row[] = [];
+        for await (const r of workbook.sheet('Report').rows()) {
+          rows.push(r);
+        }
+        await workbook.cleanup();
+        return rows[0]!.cells;
+      };
+
+      const flattened = await readCells(false);
+      expect(flattened[0]).toEqual({ value: 'Revenue (EUR)', type: 'string' });
+
+      const preserved = await readCells(true);
+      expect(preserved[0]).toEqual({ value: 'Revenue (EUR)', type: 'string', richText: runs });
+      expect(preserved[1]).toEqual({ value: 'Revenue', type: 'string' });
+      expect(preserved[2]?.richText).toEqual(runs);
+    });
+  }
+
+  test('should reject invalid run fonts', async () => {
+    await expect(writeXlsx(testFile, {
+      sheets: [{
+        name: 'Report',
+        rows: (async function* () {
+          yield row([cellFromRichText([{ text: 'Bad', font: { fontColor: 'blue' } }])]);
+        })(),
+      }],
+    })).rejects.toThrow('Rich text font color for cell A1 must be 8 hex characters');
+  });
+});
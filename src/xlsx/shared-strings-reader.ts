@@ -1,14 +1,19 @@
 import type * as yauzl from 'yauzl';
 import { readZipEntry, type ZipEntry } from '@zip/reader';
 import { parseXmlEvents } from '@xml/parser';
+import { applyRunProperty } from '@xml/rich-text';
+import type { FontStyle, RichTextRun } from '../types';
 import { CachingStrategyFactory, type SharedStringsCachingStrategy } from './shared-strings-caching';
 
 /**
  * Parses shared strings XML and returns a caching strategy
+ * @param onRichText - Called with the runs of each item made of rich text runs (<r>), if runs are to be preserved.
+ * The caching strategy still gets the plain text of those items.
  */
 export async function parseSharedStrings(
   zipEntry: ZipEntry,
   zipFile: yauzl.ZipFile,
+  onRichText?: (index: number, runs: RichTextRun[]) => void,
 ): Promise<SharedStringsCachingStrategy> {
   // First pass: try to get uniqueCount from <sst> element attributes
   let uniqueCount: number | null = null;
@@ -16,6 +21,10 @@ export async function parseSharedStrings(
   let currentString = '';
   let inStringItem = false;
   let inText = false;
+  // Runs of the current item, only collected when onRichText is given
+  let runs: RichTextRun[] = [];
+  let run: RichTextRun | null = null;
+  let inRunProperties = false;
   let strategy: SharedStringsCachingStrategy | null = null;
 
   for await (const event of parseXmlEvents(readZipEntry(zipEntry, zipFile))) {
@@ -34,6 +43,16 @@ export async function parseSharedStrings(
       } else if (event.name === 'si') {
         inStringItem = true;
         currentString = '';
+        runs = [];
+      } else if (event.name === 'r' && inStringItem && onRichText) {
+        run = { text: '' };
+      } else if (event.name === 'rPr' && run) {
+        inRunProperties = true;
+      } else if (inRunProperties && run && event.name) {
+        const font: FontStyle = run.font ?? {};
+        if (applyRunProperty(font, event.name, event.attributes)) {
+          run.font = font;
+        }
       } else if (event.name === 't' && inStringItem) {
         inText = true;
       }
@@ -45,14 +64,25 @@ export async function parseSharedStrings(
         }
         // Add string to strategy
         await strategy.addString(currentIndex, currentString);
+        if (onRichText && runs.length > 0) {
+          onRichText(currentIndex, runs);
+        }
         currentIndex++;
         inStringItem = false;
         currentString = '';
       } else if (event.name === 't' && inText) {
         inText = false;
+      } else if (event.name === 'rPr') {
+        inRunProperties = false;
+      } else if (event.name === 'r' && run) {
+        runs.push(run);
+        run = null;
       }
     } else if (event.type === 'text' && inText && inStringItem) {
       currentString += event.text || '';
+      if (run) {
+        run.text += event.text || '';
+      }
     }
   }
 
@@ -3,6 +3,8 @@
  */
 
 import { escapeXml } from '@utils/xml';
+import { serializeRichText } from '@xml/rich-text';
+import type { RichTextRun } from '../types';
 
 /**
  * Shared strings table builder
@@ -10,12 +12,19 @@ import { escapeXml } from '@utils/xml';
 export class SharedStringsTable {
   private strings: string[] = [];
   private indexMap: Map<string, number> = new Map();
+  // Rich text items by their serialized runs, and the runs XML by index
+  private richTextIndexMap: Map<string, number> = new Map();
+  private richTextXml: Map<number, string> = new Map();
   private totalCount: number = 0;
 
   /**
-   * Adds a string to the table and returns its index
+   * Adds a string or rich text to the table and returns its index
+   * Rich text is deduplicated by its runs and fonts, separately from plain strings.
    */
-  addString(str: string): number {
+  addString(str: string | RichTextRun[]): number {
+    if (typeof str !== 'string') {
+      return this.addRichText(str);
+    }
     this.totalCount++;
     if (this.indexMap.has(str)) {
       return this.indexMap.get(str)!;
@@ -26,6 +35,24 @@ export class SharedStringsTable {
     return index;
   }
 
+  /**
+   * Adds rich text to the table and returns its index
+   */
+  private addRichText(runs: RichTextRun[]): number {
+    this.totalCount++;
+    const xml = serializeRichText(runs);
+    const existing = this.richTextIndexMap.get(xml);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const index = this.strings.length;
+    // The plain text keeps getStrings() meaningful; it is not used to look up rich text
+    this.strings.push(runs.map((run) => run.text).join(''));
+    this.richTextIndexMap.set(xml, index);
+    this.richTextXml.set(index, xml);
+    return index;
+  }
+
   /**
    * Gets the index of a string (must have been added first)
    */
@@ -38,7 +65,7 @@ export class SharedStringsTable {
   }
 
   /**
-   * Gets all strings in order
+   * Gets all strings in order (the plain text of rich text items)
    */
   getStrings(): readonly string[] {
     return this.strings;
@@ -68,7 +95,11 @@ export class SharedStringsTable {
     }
 
     const stringElements = this.strings
-      .map((str) => {
+      .map((str, index) => {
+        const richText = this.richTextXml.get(index);
+        if (richText !== undefined) {
+          return `    <si>${richText}</si>`;
+        }
         const escaped = escapeXml(str);
         return `    <si><t>${escaped}</t></si>`;
       })
@@ -1,7 +1,27 @@
 import type * as yauzl from 'yauzl';
+import { parseBooleanAttribute } from '@utils/xml';
 import { readZipEntry, type ZipEntry } from '@zip/reader';
 import { parseXmlEvents } from '@xml/parser';
-import type { ColumnWidthDefinition, RowHeightDefinition } from './types';
+import type { Hyperlink } from '../types';
+import type { Relationship } from './relationships-reader';
+import type { ColumnWidthDefinition, CommentDefinition, ImageDefinition, RowHeightDefinition, SheetViewDefinition, TableDefinition } from './types';
+
+const HYPERLINK_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink';
+
+/**
+ * Hyperlink of a cell or range of a sheet
+ */
+export interface SheetHyperlink {
+  ref: string; // A1-style cell or range (e.g., "B2" or "B2:C3")
+  hyperlink: Hyperlink;
+}
+
+/**
+ * Picture of a sheet; its media bytes are read from the archive only when requested
+ */
+export interface SheetImage extends Omit<ImageDefinition, 'data'> {
+  getData(): Promise<Uint8Array>; // Reads the PNG or JPEG bytes; the workbook must not be cleaned up yet
+}
 
 export interface SheetProperties {
   hidden?: boolean;
@@ -9,18 +29,35 @@ export interface SheetProperties {
   columnWidths?: ColumnWidthDefinition[];
   defaultRowHeight?: number;
   rowHeights?: RowHeightDefinition[];
+  mergedCells?: string[]; // A1-style ranges (e.g., "A1:D1")
+  view?: SheetViewDefinition;
+  autoFilter?: string; // A1-style range (e.g., "A1:D100")
+  tables?: TableDefinition[]; // Read from the table parts linked to the sheet
+  hyperlinks?: SheetHyperlink[]; // External targets resolved from the sheet's relationships
+  comments?: Record<string, CommentDefinition>; // Read from the comments part linked to the sheet, by cell reference
+  images?: SheetImage[]; // Pictures of the drawing linked to the sheet
 }
 
 /**
- * Parses worksheet XML to extract sheet properties (column widths, row heights, etc.)
+ * Parses worksheet XML to extract sheet properties (column widths, row heights, merged cells, view, autoFilter, etc.)
+ * @param relationships - Relationships of the worksheet part, used to resolve external hyperlink targets
  */
 export async function parseSheetProperties(
   zipEntry: ZipEntry,
   zipFile: yauzl.ZipFile,
+  relationships: Relationship[] = [],
 ): Promise<SheetProperties> {
   const properties: SheetProperties = {};
   const columnWidths: ColumnWidthDefinition[] = [];
   const rowHeights: RowHeightDefinition[] = [];
+  const mergedCells: string[] = [];
+  const hyperlinks: SheetHyperlink[] = [];
+
+  const view: SheetViewDefinition = {};
+  // Only the first sheetView is read (one per workbook window; writers emit a single one)
+  let sheetViewCount = 0;
+  let inSheetView = false;
+  let activePane = 'topLeft';
 
   let inCols = false;
   let inCol = false;
@@ -34,9 +71,48 @@ export async function parseSheetProperties(
   let currentRowIndex: number | null = null;
   let currentRowHeight: number | null = null;
 
+  // Element depth (1 for worksheet), to tell the sheet's own elements from those nested
+  // elsewhere, e.g., the autoFilter of a customSheetView
+  let depth = 0;
+
   for await (const event of parseXmlEvents(readZipEntry(zipEntry, zipFile))) {
     if (event.type === 'startElement') {
-      if (event.name === 'sheetFormatPr') {
+      depth++;
+      if (event.name === 'sheetView') {
+        inSheetView = sheetViewCount++ === 0;
+        if (inSheetView) {
+          const attrs = event.attributes;
+          if (parseBooleanAttribute(attrs?.showGridLines) === false) view.showGridLines = false;
+          if (parseBooleanAttribute(attrs?.showRowColHeaders) === false) view.showHeaders = false;
+          if (parseBooleanAttribute(attrs?.rightToLeft)) view.rightToLeft = true;
+          const zoomScale = attrs?.zoomScale ? parseInt(attrs.zoomScale, 10) : 100;
+          if (zoomScale !== 100) view.zoom = zoomScale;
+        }
+      } else if (event.name === 'pane' && inSheetView) {
+        const attrs = event.attributes;
+        const xSplit = attrs?.xSplit ? parseFloat(attrs.xSplit) : 0;
+        const ySplit = attrs?.ySplit ? parseFloat(attrs.ySplit) : 0;
+        activePane = attrs?.activePane ?? 'topLeft';
+        if (attrs?.state === 'frozen' || attrs?.state === 'frozenSplit') {
+          // Frozen splits count rows and columns
+          if (ySplit > 0) view.frozenRows = ySplit;
+          if (xSplit > 0) view.frozenColumns = xSplit;
+        } else if (xSplit > 0 || ySplit > 0) {
+          // Unfrozen splits are positions in twips
+          view.split = {
+            ...(xSplit > 0 && { xSplit }),
+            ...(ySplit > 0 && { ySplit }),
+            ...(attrs?.topLeftCell && { topLeftCell: attrs.topLeftCell }),
+          };
+        }
+      } else if (event.name === 'selection' && inSheetView) {
+        // Excel keeps a selection per pane; the one of the active pane is the current selection
+        const attrs = event.attributes;
+        if ((attrs?.pane ?? 'topLeft') === activePane) {
+          if (attrs?.activeCell) view.activeCell = attrs.activeCell;
+          if (attrs?.sqref && attrs.sqref !== attrs.activeCell) view.selection = attrs.sqref;
+        }
+      } else if (event.name === 'sheetFormatPr') {
         const defaultColWidth = event.attributes?.defaultColWidth;
         const defaultRowHeight = event.attributes?.defaultRowHeight;
         if (defaultColWidth) {
@@ -63,9 +139,34 @@ export async function parseSheetProperties(
         const ht = event.attributes?.ht;
         if (r) currentRowIndex = parseInt(r, 10);
         if (ht) currentRowHeight = parseFloat(ht);
+      } else if (event.name === 'autoFilter' && depth === 2) {
+        const ref = event.attributes?.ref;
+        if (ref) properties.autoFilter = ref;
+      } else if (event.name === 'mergeCell') {
+        const ref = event.attributes?.ref;
+        if (ref) mergedCells.push(ref);
+      } else if (event.name === 'hyperlink') {
+        const attrs = event.attributes;
+        const relationshipId = attrs?.['r:id'];
+        const url = relationshipId
+          ? relationships.find((r) => r.id === relationshipId && r.type === HYPERLINK_RELATIONSHIP_TYPE)?.target
+          : undefined;
+        if (attrs?.ref && (url !== undefined || attrs.location !== undefined)) {
+          hyperlinks.push({
+            ref: attrs.ref,
+            hyperlink: {
+              ...(url !== undefined && { url }),
+              ...(attrs.location !== undefined && { location: attrs.location }),
+              ...(attrs.tooltip !== undefined && { tooltip: attrs.tooltip }),
+            },
+          });
+        }
       }
     } else if (event.type === 'endElement') {
-      if (event.name === 'cols') {
+      depth--;
+      if (event.name === 'sheetView') {
+        inSheetView = false;
+      } else if (event.name === 'cols') {
         inCols = false;
       } else if (event.name === 'col' && inCol) {
         inCol = false;
@@ -107,6 +208,15 @@ export async function parseSheetProperties(
   if (rowHeights.length > 0) {
     properties.rowHeights = rowHeights;
   }
+  if (mergedCells.length > 0) {
+    properties.mergedCells = mergedCells;
+  }
+  if (Object.keys(view).length > 0) {
+    properties.view = view;
+  }
+  if (hyperlinks.length > 0) {
+    properties.hyperlinks = hyperlinks;
+  }
 
   return properties;
 }
@@ -0,0 +1,97 @@
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readXlsx } from './reader';
+import type { SheetViewDefinition } from './types';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+
+/**
+ * Reads the XML of the first worksheet of a written file
+ */
+async function readSheetXml(filePath: string): Promise<string> {
+  const zipFile = await openZip(await readFile(filePath));
+  const sheetEntry = zipFile.entries.find((e) => e.fileName === 'xl/worksheets/sheet1.xml');
+  return sheetEntry ? bytesToString(readZipEntry(sheetEntry, zipFile.zipFile)) : '';
+}
+
+describe('Sheet Views', () => {
+  const testFile = 'test-sheet-views.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  const writeWithView = (view: SheetViewDefinition | undefined, defaultColumnWidth?: number) => writeXlsx(testFile, {
+    sheets: [
+      {
+        name: 'Data',
+        view,
+        defaultColumnWidth,
+        rows: (async function* () {
+          yield row([cell('Name'), cell('Amount')]);
+          yield row([cell('Alice'), cell(10)]);
+        })(),
+      },
+    ],
+  });
+
+  test('should freeze the header row', async () => {
+    await writeWithView({ frozenRows: 1 });
+
+    const xml = await readSheetXml(testFile);
+    expect(xml).toContain(
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    );
+  });
+
+  test('should freeze rows and columns and select a cell in the scrolling pane', async () => {
+    await writeWithView({ frozenRows: 2, frozenColumns: 1, activeCell: 'c5' });
+
+    const xml = await readSheetXml(testFile);
+    expect(xml).toContain(
+      '<pane xSplit="1" ySplit="2" topLeftCell="B3" activePane="bottomRight" state="frozen"/>' +
+      '<selection pane="bottomRight" activeCell="C5" sqref="C5"/>',
+    );
+  });
+
+  test('should write display settings before sheetFormatPr', async () => {
+    await writeWithView({ zoom: 150, showGridLines: false, showHeaders: false, rightToLeft: true }, 12);
+
+    const xml = await readSheetXml(testFile);
+    expect(xml).toContain(
+      '<sheetViews><sheetView showGridLines="0" showRowColHeaders="0" rightToLeft="1" zoomScale="150" zoomScaleNormal="150" workbookViewId="0"></sheetView></sheetViews>    <sheetFormatPr',
+    );
+  });
+
+  test('should not write sheetViews for default settings', async () => {
+    await writeWithView({ zoom: 100, showGridLines: true, frozenRows: 0 });
+
+    expect(await readSheetXml(testFile)).not.toContain('sheetViews');
+  });
+
+  test('should round-trip view settings', async () => {
+    const views: SheetViewDefinition[] = [
+      { frozenRows: 1, frozenColumns: 2, activeCell: 'D4', selection: 'D4:E6 G1' },
+      { split: { xSplit: 2400, ySplit: 1800, topLeftCell: 'C5' }, zoom: 75 },
+      { showGridLines: false, showHeaders: false, rightToLeft: true, activeCell: 'B2' },
+    ];
+
+    for (const view of views) {
+      await writeWithView(view);
+      await using workbook = await readXlsx(testFile);
+      expect(workbook.sheet(0).view).toEqual(view);
+      expect(workbook.sheet(0).properties?.view).toEqual(view);
+    }
+  });
+
+  test('should reject invalid view settings before writing', async () => {
+    await expect(writeWithView({ zoom: 500 })).rejects.toThrow('Zoom must be between 10 and 400');
+    await expect(writeWithView({ frozenRows: 1, split: { ySplit: 600 } })).rejects.toThrow('cannot be combined');
+    await expect(writeWithView({ activeCell: 'A1:B2' })).rejects.toThrow('A1 notation');
+    await expect(writeWithView({ frozenRows: -1 })).rejects.toThrow();
+  });
+});
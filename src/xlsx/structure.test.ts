@@ -5,6 +5,7 @@ import {
   generateWorkbook,
   generateWorkbookRels,
   generateCustomProperties,
+  generateSheetRels,
 } from './structure';
 
 describe('XLSX Structure Generators', () => {
@@ -49,6 +50,27 @@ describe('XLSX Structure Generators', () => {
       expect(result).toContain('/xl/worksheets/sheet1.xml');
       expect(result).toContain('/xl/worksheets/sheet5.xml');
     });
+
+    test('should add overrides for the tables of each sheet', () => {
+      const result = generateContentTypes([{ id: 1, tableIds: [1, 2] }, { id: 2 }, { id: 3, tableIds: [3] }]);
+      const tableMatches = result.match(/PartName="\/xl\/tables\/table\d+\.xml" ContentType="application\/vnd\.openxmlformats-officedocument\.spreadsheetml\.table\+xml"/g);
+      expect(tableMatches).toHaveLength(3);
+      expect(result).toContain('/xl/tables/table3.xml');
+    });
+  });
+
+  describe('generateSheetRels', () => {
+    test('should link tables in order', () => {
+      const result = generateSheetRels([4, 5]);
+      expect(result).toContain('<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/table" Target="../tables/table4.xml"/>');
+      expect(result).toContain('<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/table" Target="../tables/table5.xml"/>');
+    });
+
+    test('should number external hyperlink targets after the tables', () => {
+      const result = generateSheetRels([1], ['https://example.com/?a=1&b=2', 'mailto:team@example.com']);
+      expect(result).toContain('<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/?a=1&amp;b=2" TargetMode="External"/>');
+      expect(result).toContain('<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="mailto:team@example.com" TargetMode="External"/>');
+    });
   });
 
   describe('generateRels', () => {
@@ -119,6 +141,23 @@ describe('XLSX Structure Generators', () => {
       expect(result2).toMatch(/<sheet name="Sheet1" sheetId="1" r:id="rId3"/);
       expect(result2).toMatch(/<sheet name="Sheet2" sheetId="2" r:id="rId4"/);
     });
+
+    test('should add a _xlnm._FilterDatabase name for sheets with an autoFilter', () => {
+      const result = generateWorkbook([
+        { name: 'Plain', id: 1 },
+        { name: "Bob's Data", id: 2, autoFilter: 'A1:C10' },
+      ]);
+      expect(result).toContain('</sheets>\n  <definedNames>');
+      expect(result).toContain(
+        '<definedName name="_xlnm._FilterDatabase" localSheetId="1" hidden="1">&apos;Bob&apos;&apos;s Data&apos;!$A$1:$C$10</definedName>',
+      );
+      expect(generateWorkbook([{ name: 'Plain', id: 1 }])).not.toContain('definedNames');
+    });
+
+    test('should mark workbooks that use the 1904 date system', () => {
+      expect(generateWorkbook([{ name: 'Sheet1', id: 1 }], 0, true)).toContain('relationships">\n  <workbookPr date1904="1"/>\n  <sheets>');
+      expect(generateWorkbook([{ name: 'Sheet1', id: 1 }])).not.toContain('workbookPr');
+    });
   });
 
   describe('generateWorkbookRels', () => {
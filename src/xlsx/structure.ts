@@ -3,22 +3,49 @@
  * Keep generators dumb - pass full sheet definitions, not counts
  */
 
+import { columnIndexToLetter, parseRangeReference } from '@utils/cell-reference';
 import { escapeXml } from '@utils/xml';
 
 /**
  * Generates [Content_Types].xml
  */
 export function generateContentTypes(
-  sheets: { id: number }[],
+  sheets: { id: number; tableIds?: number[]; hasComments?: boolean; hasDrawing?: boolean; mediaExtensions?: string[]; chartIds?: number[] }[],
   hasSharedStrings: boolean = false,
   hasCoreProperties: boolean = false,
   hasCustomProperties: boolean = false,
   hasStyles: boolean = false,
+  hasMetadata: boolean = false,
 ): string {
   const sheetOverrides = sheets
     .map((sheet) => `  <Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
     .join('\n');
 
+  const tableOverrides = sheets
+    .flatMap((sheet) => sheet.tableIds ?? [])
+    .map((tableId) => `  <Override PartName="/xl/tables/table${tableId}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml"/>`);
+
+  const commentOverrides = sheets
+    .filter((sheet) => sheet.hasComments)
+    .map((sheet) => `  <Override PartName="/xl/comments${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml"/>`);
+  const drawingOverrides = sheets
+    .filter((sheet) => sheet.hasDrawing)
+    .map((sheet) => `  <Override PartName="/xl/drawings/drawing${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>`);
+  const chartOverrides = sheets
+    .flatMap((sheet) => sheet.chartIds ?? [])
+    .map((chartId) => `  <Override PartName="/xl/charts/chart${chartId}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>`);
+  const partOverrides = [...tableOverrides, ...commentOverrides, ...drawingOverrides, ...chartOverrides];
+
+  // Legacy drawings of comments are the only .vml parts; media parts are typed by extension
+  const defaults: string[] = [];
+  if (commentOverrides.length > 0) {
+    defaults.push('  <Default Extension="vml" ContentType="application/vnd.openxmlformats-officedocument.vmlDrawing"/>');
+  }
+  for (const extension of new Set(sheets.flatMap((sheet) => sheet.mediaExtensions ?? []))) {
+    defaults.push(`  <Default Extension="${extension}" ContentType="image/${extension}"/>`);
+  }
+  const extraDefaults = defaults.length > 0 ? '\n' + defaults.join('\n') : '';
+
   const overrides: string[] = [];
 
   if (hasSharedStrings) {
@@ -29,6 +56,10 @@ export function generateContentTypes(
     overrides.push('  <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>');
   }
 
+  if (hasMetadata) {
+    overrides.push('  <Override PartName="/xl/metadata.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheetMetadata+xml"/>');
+  }
+
   if (hasCoreProperties) {
     overrides.push('  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>');
   }
@@ -40,9 +71,9 @@ export function generateContentTypes(
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
   <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
-  <Default Extension="xml" ContentType="application/xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>${extraDefaults}
   <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
-${overrides.length > 0 ? overrides.join('\n') + '\n' : ''}${sheetOverrides}
+${overrides.length > 0 ? overrides.join('\n') + '\n' : ''}${sheetOverrides}${partOverrides.length > 0 ? '\n' + partOverrides.join('\n') : ''}
 </Types>`;
 }
 
@@ -75,14 +106,31 @@ ${relationships.join('\n')}
 </Relationships>`;
 }
 
+/**
+ * Formats a sheet-qualified absolute range for defined names (e.g., 'Sales Data'!$A$1:$C$10)
+ */
+export function formatDefinedNameRange(sheetName: string, range: string): string {
+  const parsed = parseRangeReference(range);
+  if (!parsed) {
+    throw new Error(`Invalid range: ${range}`);
+  }
+  const { start, end } = parsed;
+  const startRef = `$${columnIndexToLetter(start.colIndex)}$${start.rowIndex}`;
+  const endRef = `$${columnIndexToLetter(end.colIndex)}$${end.rowIndex}`;
+  const quotedName = `'${sheetName.replace(/'/g, "''")}'`;
+  return startRef === endRef ? `${quotedName}!${startRef}` : `${quotedName}!${startRef}:${endRef}`;
+}
+
 /**
  * Generates xl/workbook.xml
- * @param sheets - Array of sheet definitions
+ * @param sheets - Array of sheet definitions (autoFilter: resolved range in A1 notation)
  * @param idOffset - Offset for relationship IDs (sheets come after shared strings and styles)
+ * @param date1904 - Mark the workbook as using the 1904 date system
  */
 export function generateWorkbook(
-  sheets: { name: string; id: number; hidden?: boolean }[],
+  sheets: { name: string; id: number; hidden?: boolean; autoFilter?: string }[],
   idOffset: number = 0,
+  date1904: boolean = false,
 ): string {
   const sheetElements = sheets
     .map(
@@ -94,11 +142,21 @@ export function generateWorkbook(
     )
     .join('\n');
 
+  // Excel requires a hidden _xlnm._FilterDatabase name for every sheet with an autoFilter
+  const definedNames = sheets
+    .map((sheet, index) => sheet.autoFilter
+      ? `    <definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">${escapeXml(formatDefinedNameRange(sheet.name, sheet.autoFilter))}</definedName>`
+      : null)
+    .filter((name) => name !== null);
+  const definedNamesXml = definedNames.length > 0
+    ? `\n  <definedNames>\n${definedNames.join('\n')}\n  </definedNames>`
+    : '';
+
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">${date1904 ? '\n  <workbookPr date1904="1"/>' : ''}
   <sheets>
 ${sheetElements}
-  </sheets>
+  </sheets>${definedNamesXml}
 </workbook>`;
 }
 
@@ -109,6 +167,7 @@ export function generateWorkbookRels(
   sheets: { id: number }[],
   hasSharedStrings: boolean = false,
   hasStyles: boolean = false,
+  hasMetadata: boolean = false,
 ): string {
   const relationships: string[] = [];
 
@@ -139,12 +198,97 @@ export function generateWorkbookRels(
     );
   });
 
+  // Metadata comes after the sheets so sheet relationship IDs are unaffected
+  if (hasMetadata) {
+    relationships.push(
+      `  <Relationship Id="rId${sheets.length + 1 + idOffset}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sheetMetadata" Target="metadata.xml"/>`,
+    );
+  }
+
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
 ${relationships.join('\n')}
 </Relationships>`;
 }
 
+/**
+ * Generates xl/worksheets/_rels/sheetN.xml.rels
+ * @param tableIds - Tables of the sheet, in the order of their tableParts (rId1, rId2, ...)
+ * @param hyperlinkUrls - External hyperlink targets, numbered after the tables, comments and drawing
+ * @param commentsId - Id of the sheet's comments and legacy drawing parts, numbered after the tables
+ * @param drawingId - Id of the sheet's drawing part, numbered after the comments
+ */
+export function generateSheetRels(tableIds: number[], hyperlinkUrls: string[] = [], commentsId?: number, drawingId?: number): string {
+  const targets: { type: string; target: string; external?: boolean }[] = [
+    ...tableIds.map((tableId) => ({ type: 'table', target: `../tables/table${tableId}.xml` })),
+    ...(commentsId !== undefined
+      ? [
+        { type: 'vmlDrawing', target: `../drawings/vmlDrawing${commentsId}.vml` },
+        { type: 'comments', target: `../comments${commentsId}.xml` },
+      ]
+      : []),
+    ...(drawingId !== undefined ? [{ type: 'drawing', target: `../drawings/drawing${drawingId}.xml` }] : []),
+    ...hyperlinkUrls.map((url) => ({ type: 'hyperlink', target: url, external: true })),
+  ];
+  const relationships = targets.map(
+    ({ type, target, external }, index) =>
+      `  <Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${relationships.join('\n')}
+</Relationships>`;
+}
+
+/**
+ * Generates xl/drawings/_rels/drawingN.xml.rels
+ * @param mediaFiles - File names of the drawing's pictures in xl/media, in the order of their IDs (rId1, rId2, ...)
+ * @param chartIds - Charts of the drawing, numbered after the pictures
+ */
+export function generateDrawingRels(mediaFiles: string[], chartIds: number[] = []): string {
+  const relationships = [
+    ...mediaFiles.map(
+      (file, index) => `  <Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="../media/${escapeXml(file)}"/>`,
+    ),
+    ...chartIds.map(
+      (chartId, index) => `  <Relationship Id="rId${mediaFiles.length + index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart" Target="../charts/chart${chartId}.xml"/>`,
+    ),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${relationships.join('\n')}
+</Relationships>`;
+}
+
+/**
+ * Generates xl/metadata.xml
+ * Declares the dynamic array cell metadata referenced by cm="1" on dynamic array formula cells
+ */
+export function generateMetadata(): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<metadata xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:xda="http://schemas.microsoft.com/office/spreadsheetml/2017/dynamicarray">
+  <metadataTypes count="1">
+    <metadataType name="XLDAPR" minSupportedVersion="120000" copy="1" pasteAll="1" pasteValues="1" merge="1" splitFirst="1" rowColShift="1" clearFormats="1" clearComments="1" assign="1" coerce="1" cellMeta="1"/>
+  </metadataTypes>
+  <futureMetadata name="XLDAPR" count="1">
+    <bk>
+      <extLst>
+        <ext uri="{bdbb8cdc-fa1e-496e-a857-3c3f30c029c3}">
+          <xda:dynamicArrayProperties fDynamic="1" fCollapsed="0"/>
+        </ext>
+      </extLst>
+    </bk>
+  </futureMetadata>
+  <cellMetadata count="1">
+    <bk>
+      <rc t="1" v="0"/>
+    </bk>
+  </cellMetadata>
+</metadata>`;
+}
+
 /**
  * Generates docProps/core.xml
  */
@@ -0,0 +1,154 @@
+import { cell } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip } from '@zip/reader';
+import { createZipWriter, endZipWriter, writeZipEntry } from '@zip/writer';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readXlsx } from './reader';
+import { parseCellStyles } from './styles-reader';
+import { writeXlsx } from './writer';
+import { stringToBytes } from '../adapters/common';
+import type { Cell, Style } from '../types';
+
+/**
+ * Parses the cell styles of a styles.xml document
+ */
+async function parseStylesXml(xml: string) {
+  const zipWriter = createZipWriter();
+  await writeZipEntry(zipWriter, 'xl/styles.xml', stringToBytes(xml));
+  const zipFile = await openZip(await endZipWriter(zipWriter));
+  return parseCellStyles(zipFile.entries[0]!, zipFile.zipFile);
+}
+
+describe('Cell style reading', () => {
+  const testFile = 'test-styles-reader.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  test('should read written styles back in the shape the writer accepts', async () => {
+    const header: Style = {
+      font: { bold: true, fontSize: 12, fontColor: 'FFFFFFFF', fontName: 'Calibri' },
+      fill: { backgroundColor: 'FF4472C4' },
+      border: { bottom: { style: 'medium', color: 'FF000000' } },
+      alignment: { horizontal: 'center', wrapText: true },
+    };
+    const price: Style = { numberFormat: '#,##0.00 "EUR"' };
+    const percent: Style = { numberFormat: 10, fill: { pattern: 'lightGray', patternColor: 'FF808080' } };
+
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Prices',
+        rows: (async function* () {
+          yield row([{ ...cell('Product'), style: header }, { ...cell('Price'), style: header }, cell('Plain')]);
+          yield row([cell('Tea'), { ...cell(4.5), style: price }, { ...cell(0.2), style: percent }]);
+        })(),
+      }],
+    });
+
+    const workbook = await readXlsx(testFile, { includeStyles: true });
+    const rows: Cell[][] = [];
+    for await (const r of workbook.sheet('Prices').rows()) {
+      rows.push(r.cells);
+    }
+    await workbook.cleanup();
+
+    expect(rows[0]![0]!.style).toEqual(header);
+    // Cells with the same formatting share one style object
+    expect(rows[0]![1]!.style).toBe(rows[0]![0]!.style!);
+    expect(rows[0]![2]!.style).toBeUndefined();
+    expect(rows[1]![1]!.style).toEqual(price);
+    expect(rows[1]![2]!.style).toEqual(percent);
+  });
+
+  test('should round-trip styles through read and write', async () => {
+    const style: Style = { font: { italic: true, underline: true }, alignment: { vertical: 'top', indent: 2 } };
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Template',
+        rows: (async function* () {
+          yield row([{ ...cell('Total'), style }]);
+        })(),
+      }],
+    });
+
+    const template = await readXlsx(testFile, { includeStyles: true });
+    const cells: Cell[] = [];
+    for await (const r of template.sheet('Template').rows()) {
+      cells.push(...r.cells.map((c) => ({ ...c, value: `${c.value}: 42` })));
+    }
+    await template.cleanup();
+    // The writer writes complete fonts, so the default font properties are read back too
+    expect(cells[0]!.style).toEqual({ ...style, font: { italic: true, underline: true, fontSize: 11, fontColor: 'FF000000', fontName: 'Arial' } });
+
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Template',
+        rows: (async function* () {
+          yield row(cells);
+        })(),
+      }],
+    });
+    const workbook = await readXlsx(testFile, { includeStyles: true });
+    for await (const r of workbook.sheet('Template').rows()) {
+      expect(r.cells[0]!.value).toBe('Total: 42');
+      expect(r.cells[0]!.style).toEqual(cells[0]!.style!);
+    }
+    await workbook.cleanup();
+  });
+
+  test('should not read styles without the includeStyles option', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Sheet1',
+        rows: (async function* () {
+          yield row([{ ...cell('Bold'), style: { font: { bold: true } } }]);
+        })(),
+      }],
+    });
+
+    const workbook = await readXlsx(testFile);
+    for await (const r of workbook.sheet('Sheet1').rows()) {
+      expect(r.cells[0]!.style).toBeUndefined();
+    }
+    await workbook.cleanup();
+  });
+
+  test('should resolve styles written by other tools', async () => {
+    const styles = await parseStylesXml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <numFmts count="1"><numFmt numFmtId="165" formatCode="0.0%"/></numFmts>
+  <fonts count="2">
+    <font><sz val="11"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font>
+    <font><b/><sz val="14"/><color rgb="C00000"/><name val="Calibri"/><family val="2"/></font>
+  </fonts>
+  <fills count="3">
+    <fill><patternFill patternType="none"/></fill>
+    <fill><patternFill patternType="gray125"/></fill>
+    <fill><patternFill patternType="solid"><fgColor theme="4"/><bgColor indexed="64"/></patternFill></fill>
+  </fills>
+  <borders count="2">
+    <border><left/><right/><top/><bottom/><diagonal/></border>
+    <border><left style="thin"><color indexed="64"/></left><right/><top/><bottom style="double"><color rgb="FF0000FF"/></bottom><diagonal/></border>
+  </borders>
+  <cellStyleXfs count="1"><xf numFmtId="0" fontId="1" fillId="0" borderId="0"/></cellStyleXfs>
+  <cellXfs count="4">
+    <xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+    <xf numFmtId="165" fontId="1" fillId="0" borderId="1" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+    <xf numFmtId="14" fontId="0" fillId="2" borderId="0" xfId="0" applyAlignment="1"><alignment horizontal="right" textRotation="90"/></xf>
+    <xf numFmtId="0" fontId="0" fillId="2" borderId="0" xfId="0"/>
+  </cellXfs>
+  <dxfs count="1"><dxf><font><i/></font><fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf></dxfs>
+</styleSheet>`);
+
+    expect([...styles.keys()]).toEqual([1, 2]);
+    expect(styles.get(1)).toEqual({
+      font: { bold: true, fontSize: 14, fontColor: 'FFC00000', fontName: 'Calibri' },
+      border: { left: { style: 'thin' }, bottom: { style: 'double', color: 'FF0000FF' } },
+      numberFormat: '0.0%',
+    });
+    // Theme colors have no fixed ARGB value, so the solid fill is left out
+    expect(styles.get(2)).toEqual({ alignment: { horizontal: 'right', textRotation: 90 }, numberFormat: 14 });
+  });
+});
@@ -1,13 +1,21 @@
 import type * as yauzl from 'yauzl';
-import { getBuiltInFormatCode } from '@utils/format-codes';
+import { FIRST_CUSTOM_FORMAT_ID, lookupBuiltInFormatCode } from '@utils/format-codes';
 import { readZipEntry, type ZipEntry } from '@zip/reader';
 import { parseXmlEvents } from '@xml/parser';
+import { applyRunProperty } from '@xml/rich-text';
+import type { AlignmentStyle, BorderEdge, BorderLineStyle, BorderStyle, FillPattern, FillStyle, FontStyle, Style } from '../types';
 
 /**
  * Map from style index to format code
  */
 export type StyleFormatMap = Map<number, string>;
 
+/**
+ * Map from style index to the resolved cell style
+ * Style indices without any formatting are left out.
+ */
+export type CellStyleMap = Map<number, Style>;
+
 /**
  * Parses styles.xml to extract format codes mapped to style indices
  */
@@ -76,8 +84,8 @@ export async function parseStyles(
 
   // Map style indices to format codes
   for (const [styleIndex, numFmtId] of styleMap.entries()) {
-    // Check if it's a built-in format first
-    const builtInCode = getBuiltInFormatCode(numFmtId);
+    // Check if it's a built-in format first (General needs no entry)
+    const builtInCode = numFmtId !== 0 ? lookupBuiltInFormatCode(numFmtId) : null;
     if (builtInCode) {
       result.set(styleIndex, builtInCode);
     } else {
@@ -117,3 +125,188 @@ export function getFormatCodeForStyle(
   // This happens when the style index doesn't have an associated format code
   return null;
 }
+
+/**
+ * Fill of styles.xml being read, with its raw pattern colors
+ */
+interface RawFill {
+  pattern?: string;
+  fgColor?: string;
+  bgColor?: string;
+}
+
+/**
+ * Cell format (xf) of styles.xml being read, with its section indices
+ */
+interface RawCellFormat {
+  numFmtId: number;
+  fontId: number;
+  fillId: number;
+  borderId: number;
+  alignment?: AlignmentStyle;
+}
+
+/**
+ * Reads an ARGB color attribute; RGB colors get an opaque alpha
+ * Theme and indexed colors have no fixed ARGB value and are skipped
+ */
+function readRgbColor(attributes: Record<string, string> | undefined): string | undefined {
+  const rgb = attributes?.rgb?.toUpperCase();
+  if (rgb && /^[0-9A-F]{8}$/.test(rgb)) {
+    return rgb;
+  }
+  return rgb && /^[0-9A-F]{6}$/.test(rgb) ? `FF${rgb}` : undefined;
+}
+
+/**
+ * Reads the alignment of a cell format
+ */
+function readAlignment(attributes: Record<string, string> | undefined): AlignmentStyle | undefined {
+  if (!attributes) {
+    return undefined;
+  }
+  const isOn = (value: string) => value === '1' || value === 'true';
+  const alignment: AlignmentStyle = {};
+  if (attributes.horizontal) alignment.horizontal = attributes.horizontal as AlignmentStyle['horizontal'];
+  if (attributes.vertical) alignment.vertical = attributes.vertical as AlignmentStyle['vertical'];
+  if (attributes.wrapText && isOn(attributes.wrapText)) alignment.wrapText = true;
+  if (attributes.shrinkToFit && isOn(attributes.shrinkToFit)) alignment.shrinkToFit = true;
+  if (attributes.indent && parseInt(attributes.indent, 10) > 0) alignment.indent = parseInt(attributes.indent, 10);
+  if (attributes.textRotation && parseInt(attributes.textRotation, 10) > 0) alignment.textRotation = parseInt(attributes.textRotation, 10);
+  return Object.keys(alignment).length > 0 ? alignment : undefined;
+}
+
+/**
+ * Converts a fill of styles.xml to the writer's fill style
+ * For solid fills the foreground color is the visible cell color.
+ * @returns undefined for empty fills and solid fills without an ARGB color
+ */
+function toFillStyle(fill: RawFill | undefined): FillStyle | undefined {
+  if (!fill?.pattern || fill.pattern === 'none') {
+    return undefined;
+  }
+  if (fill.pattern === 'solid') {
+    return fill.fgColor ? { backgroundColor: fill.fgColor } : undefined;
+  }
+  const style: FillStyle = { pattern: fill.pattern as FillPattern };
+  if (fill.fgColor) style.patternColor = fill.fgColor;
+  if (fill.bgColor) style.backgroundColor = fill.bgColor;
+  return style;
+}
+
+/**
+ * Parses styles.xml into the style of each cell format (cellXfs index)
+ * Fonts, fills, borders, alignment and number formats are resolved into the same
+ * Style shape the writer accepts; cell formats without any formatting are left out.
+ */
+export async function parseCellStyles(
+  zipEntry: ZipEntry,
+  zipFile: yauzl.ZipFile,
+): Promise<CellStyleMap> {
+  const customFormats = new Map<number, string>(); // numFmtId -> formatCode
+  const fonts: FontStyle[] = [];
+  const fills: RawFill[] = [];
+  const borders: BorderStyle[] = [];
+  const cellFormats: RawCellFormat[] = [];
+  // Only the top-level sections are read; dxfs have fonts, fills and borders of their own
+  let section: 'numFmts' | 'fonts' | 'fills' | 'borders' | 'cellXfs' | null = null;
+  let font: FontStyle | null = null;
+  let fill: RawFill | null = null;
+  let border: BorderStyle | null = null;
+  let edge: { side: keyof BorderStyle; style: BorderLineStyle; color?: string } | null = null;
+  let cellFormat: RawCellFormat | null = null;
+
+  for await (const event of parseXmlEvents(readZipEntry(zipEntry, zipFile))) {
+    const name = event.name ?? '';
+    const attrs = event.attributes;
+    if (event.type === 'startElement') {
+      if (name === 'numFmts' || name === 'fonts' || name === 'fills' || name === 'borders' || name === 'cellXfs') {
+        section = name;
+      } else if (section === 'numFmts' && name === 'numFmt') {
+        const numFmtId = parseInt(attrs?.numFmtId ?? '', 10);
+        if (!isNaN(numFmtId) && attrs?.formatCode) {
+          customFormats.set(numFmtId, attrs.formatCode);
+        }
+      } else if (section === 'fonts' && name === 'font') {
+        font = {};
+      } else if (font) {
+        if (name === 'name') {
+          if (attrs?.val !== undefined) font.fontName = attrs.val;
+        } else if (name === 'color') {
+          const color = readRgbColor(attrs);
+          if (color) font.fontColor = color;
+        } else {
+          applyRunProperty(font, name, attrs);
+        }
+      } else if (section === 'fills' && name === 'fill') {
+        fill = {};
+      } else if (fill) {
+        if (name === 'patternFill') {
+          fill.pattern = attrs?.patternType;
+        } else if (name === 'fgColor') {
+          fill.fgColor = readRgbColor(attrs);
+        } else if (name === 'bgColor') {
+          fill.bgColor = readRgbColor(attrs);
+        }
+      } else if (section === 'borders' && name === 'border') {
+        border = {};
+      } else if (border) {
+        if ((name === 'left' || name === 'right' || name === 'top' || name === 'bottom') && attrs?.style && attrs.style !== 'none') {
+          edge = { side: name, style: attrs.style as BorderLineStyle };
+        } else if (edge && name === 'color') {
+          edge.color = readRgbColor(attrs);
+        }
+      } else if (section === 'cellXfs' && name === 'xf') {
+        const id = (key: string) => parseInt(attrs?.[key] ?? '0', 10) || 0;
+        cellFormat = { numFmtId: id('numFmtId'), fontId: id('fontId'), fillId: id('fillId'), borderId: id('borderId') };
+      } else if (cellFormat && name === 'alignment') {
+        cellFormat.alignment = readAlignment(attrs);
+      }
+    } else if (event.type === 'endElement') {
+      if (name === section) {
+        section = null;
+      } else if (font && name === 'font') {
+        fonts.push(font);
+        font = null;
+      } else if (fill && name === 'fill') {
+        fills.push(fill);
+        fill = null;
+      } else if (edge && border && name === edge.side) {
+        const borderEdge: BorderEdge = { style: edge.style };
+        if (edge.color) borderEdge.color = edge.color;
+        border[edge.side] = borderEdge;
+        edge = null;
+      } else if (border && name === 'border') {
+        borders.push(border);
+        border = null;
+      } else if (cellFormat && name === 'xf') {
+        cellFormats.push(cellFormat);
+        cellFormat = null;
+      }
+    }
+  }
+
+  const styles: CellStyleMap = new Map();
+  cellFormats.forEach((format, index) => {
+    const style: Style = {};
+    // Font 0 is the workbook's default font
+    const fontStyle = format.fontId !== 0 ? fonts[format.fontId] : undefined;
+    if (fontStyle && Object.keys(fontStyle).length > 0) style.font = { ...fontStyle };
+    const fillStyle = toFillStyle(fills[format.fillId]);
+    if (fillStyle) style.fill = fillStyle;
+    const borderStyle = borders[format.borderId];
+    if (borderStyle && Object.keys(borderStyle).length > 0) style.border = borderStyle;
+    if (format.alignment) style.alignment = format.alignment;
+    // Built-in formats are kept as their ID, custom formats as their format code
+    if (format.numFmtId >= FIRST_CUSTOM_FORMAT_ID) {
+      const formatCode = customFormats.get(format.numFmtId);
+      if (formatCode) style.numberFormat = formatCode;
+    } else if (format.numFmtId !== 0) {
+      style.numberFormat = format.numFmtId;
+    }
+    if (Object.keys(style).length > 0) {
+      styles.set(index, style);
+    }
+  });
+  return styles;
+}
@@ -132,6 +132,196 @@ describe('StyleRegistry', () => {
     });
   });
 
+  describe('Fills', () => {
+    test('should emit a solid fill after the two reserved fills', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({ fill: { backgroundColor: 'FFFFFF00' } });
+      const xml = registry.generateXml();
+      expect(xml).toContain('<fills count="3">');
+      expect(xml).toContain('<patternFill patternType="gray125"/>');
+      expect(xml).toContain('<patternFill patternType="solid">\n        <fgColor rgb="FFFFFF00"/>');
+      expect(xml).toContain('fillId="2" borderId="0" applyFill="1"/>');
+    });
+
+    test('should use patternColor as foreground for non-solid patterns', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({ fill: { pattern: 'lightGrid', patternColor: 'FF0000FF', backgroundColor: 'FFFFFFFF' } });
+      const xml = registry.generateXml();
+      expect(xml).toContain('<patternFill patternType="lightGrid">');
+      expect(xml).toContain('<fgColor rgb="FF0000FF"/>');
+      expect(xml).toContain('<bgColor rgb="FFFFFFFF"/>');
+    });
+
+    test('should deduplicate fills shared by different styles', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({ fill: { backgroundColor: 'FFD9D9D9' } });
+      registry.addStyle({ font: { bold: true }, fill: { backgroundColor: 'ffd9d9d9' } });
+      const xml = registry.generateXml();
+      expect(registry.getCount()).toBe(2);
+      expect(xml).toContain('<fills count="3">');
+      expect(xml.match(/fillId="2"/g)?.length).toBe(2);
+    });
+
+    test('should reject a solid fill without a color', () => {
+      const registry = new StyleRegistry();
+      expect(() => registry.addStyle({ fill: {} })).toThrow();
+      expect(() => registry.addStyle({ fill: { backgroundColor: 'yellow' } })).toThrow();
+    });
+  });
+
+  describe('Borders', () => {
+    test('should emit borders in Excel edge order with default color', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({ border: { bottom: { style: 'thick' }, top: { style: 'thin', color: 'FFFF0000' } } });
+      const xml = registry.generateXml();
+      expect(xml).toContain('<borders count="2">');
+      expect(xml).toContain(
+        '<left/>\n      <right/>\n' +
+        '      <top style="thin">\n        <color rgb="FFFF0000"/>\n      </top>\n' +
+        '      <bottom style="thick">\n        <color rgb="FF000000"/>\n      </bottom>',
+      );
+      expect(xml).toContain('borderId="1" applyBorder="1"/>');
+    });
+
+    test('should deduplicate identical borders', () => {
+      const registry = new StyleRegistry();
+      const border = { left: { style: 'thin' as const }, right: { style: 'thin' as const } };
+      registry.addStyle({ border });
+      registry.addStyle({ border, font: { italic: true } });
+      expect(registry.generateXml()).toContain('<borders count="2">');
+    });
+
+    test('should treat an empty border as no border', () => {
+      const registry = new StyleRegistry();
+      const index1 = registry.addStyle({ font: { bold: true }, border: {} });
+      const index2 = registry.addStyle({ font: { bold: true } });
+      expect(index1).toBe(index2);
+    });
+
+    test('should reject unknown line styles', () => {
+      const registry = new StyleRegistry();
+      expect(() => registry.addStyle({ border: { top: { style: 'wavy' as never } } })).toThrow();
+    });
+  });
+
+  describe('Alignment', () => {
+    test('should emit only non-default alignment attributes', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({
+        alignment: { horizontal: 'center', vertical: 'top', wrapText: true, indent: 2, textRotation: 45 },
+      });
+      const xml = registry.generateXml();
+      expect(xml).toContain(
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" applyAlignment="1">' +
+        '<alignment horizontal="center" vertical="top" textRotation="45" wrapText="1" indent="2"/></xf>',
+      );
+    });
+
+    test('should treat default alignment as no alignment', () => {
+      const registry = new StyleRegistry();
+      const index1 = registry.addStyle({ font: { bold: true }, alignment: { horizontal: 'general', wrapText: false } });
+      const index2 = registry.addStyle({ font: { bold: true } });
+      expect(index1).toBe(index2);
+      expect(registry.generateXml()).not.toContain('<alignment');
+    });
+
+    test('should distinguish styles by alignment', () => {
+      const registry = new StyleRegistry();
+      const index1 = registry.addStyle({ alignment: { horizontal: 'left' } });
+      const index2 = registry.addStyle({ alignment: { horizontal: 'right' } });
+      expect(index1).not.toBe(index2);
+    });
+
+    test('should validate indent and rotation ranges', () => {
+      const registry = new StyleRegistry();
+      expect(() => registry.addStyle({ alignment: { indent: -1 } })).toThrow();
+      expect(() => registry.addStyle({ alignment: { textRotation: 200 } })).toThrow();
+      expect(registry.addStyle({ alignment: { textRotation: 255 } })).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe('Number Formats', () => {
+    test('should reference built-in formats by ID without a numFmts section', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({ numberFormat: 10 });
+      const xml = registry.generateXml();
+      expect(xml).not.toContain('<numFmts');
+      expect(xml).toContain('<xf numFmtId="10" fontId="0" fillId="0" borderId="0" applyNumberFormat="1"/>');
+    });
+
+    test('should map built-in format codes to their IDs', () => {
+      const registry = new StyleRegistry();
+      const index1 = registry.addStyle({ numberFormat: '0.00%' });
+      const index2 = registry.addStyle({ numberFormat: 10 });
+      expect(index1).toBe(index2);
+      expect(registry.generateXml()).not.toContain('<numFmts');
+    });
+
+    test('should register custom format codes from ID 164', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({ numberFormat: '#,##0.00 "EUR"' });
+      registry.addStyle({ numberFormat: 'yyyy-mm-dd' });
+      registry.addStyle({ numberFormat: 'yyyy-mm-dd', font: { bold: true } });
+      const xml = registry.generateXml();
+      expect(xml).toContain('<numFmts count="2">');
+      expect(xml).toContain('<numFmt numFmtId="164" formatCode="#,##0.00 &quot;EUR&quot;"/>');
+      expect(xml).toContain('<numFmt numFmtId="165" formatCode="yyyy-mm-dd"/>');
+      expect(xml.match(/<xf numFmtId="165"/g)?.length).toBe(2);
+      // numFmts must precede fonts
+      expect(xml.indexOf('<numFmts')).toBeLessThan(xml.indexOf('<fonts'));
+    });
+
+    test('should reject invalid number formats', () => {
+      const registry = new StyleRegistry();
+      expect(() => registry.addStyle({ numberFormat: 164 })).toThrow();
+      expect(() => registry.addStyle({ numberFormat: -1 })).toThrow();
+      expect(() => registry.addStyle({ numberFormat: '' })).toThrow();
+    });
+  });
+
+  describe('Differential Styles', () => {
+    test('should register differential styles separately from cell styles', () => {
+      const registry = new StyleRegistry();
+      registry.addStyle({ font: { bold: true } });
+      expect(registry.addDifferentialStyle({ font: { bold: true } })).toBe(0);
+      expect(registry.addDifferentialStyle({ fill: { backgroundColor: 'FFFFC7CE' } })).toBe(1);
+      expect(registry.addDifferentialStyle({ font: { bold: true } })).toBe(0);
+      expect(registry.getCount()).toBe(1);
+      expect(registry.getDifferentialCount()).toBe(2);
+    });
+
+    test('should only write the given properties in dxfs', () => {
+      const registry = new StyleRegistry();
+      registry.addDifferentialStyle({
+        font: { bold: true, italic: false, fontColor: 'ff9c0006' },
+        fill: { backgroundColor: 'ffffc7ce' },
+        border: { bottom: { style: 'thin' } },
+        numberFormat: '0.0%',
+      });
+      const xml = registry.generateXml();
+      expect(xml).toContain('<dxfs count="1">');
+      expect(xml).toContain('<font><b/><i val="0"/><color rgb="FF9C0006"/></font>');
+      expect(xml).toContain('<numFmt numFmtId="164" formatCode="0.0%"/>');
+      expect(xml).toContain('<fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill>');
+      expect(xml).toContain('<border><bottom style="thin"><color rgb="FF000000"/></bottom></border>');
+      // Custom formats of differential styles are declared in numFmts
+      expect(xml).toContain('<numFmts count="1">');
+      expect(xml.indexOf('<dxfs')).toBeGreaterThan(xml.indexOf('</cellXfs>'));
+    });
+
+    test('should write built-in number formats with their format code', () => {
+      const registry = new StyleRegistry();
+      registry.addDifferentialStyle({ numberFormat: 10 });
+      expect(registry.generateXml()).toContain('<numFmt numFmtId="10" formatCode="0.00%"/>');
+    });
+
+    test('should validate differential styles', () => {
+      const registry = new StyleRegistry();
+      expect(() => registry.addDifferentialStyle({ font: { fontColor: 'red' } })).toThrow();
+      expect(() => registry.addDifferentialStyle({ fill: { pattern: 'solid' } })).toThrow();
+    });
+  });
+
   describe('getCellXfIndex', () => {
     test('should return cellXfs index for registered style', () => {
       const registry = new StyleRegistry();
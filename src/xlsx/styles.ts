@@ -4,11 +4,12 @@
  * Style registry and styles.xml generator
  */
 import { z } from 'zod';
+import { FIRST_CUSTOM_FORMAT_ID, getBuiltInFormatId, lookupBuiltInFormatCode } from '@utils/format-codes';
 import { escapeXml } from '@utils/xml';
-import type { Style, FontStyle } from '../types';
+import type { AlignmentStyle, BorderEdge, BorderLineStyle, BorderStyle, FillPattern, FillStyle, FontStyle, Style } from '../types';
 
 // Zod schema for font style validation
-const fontStyleSchema = z.object({
+export const fontStyleSchema = z.object({
   bold: z.boolean().optional(),
   italic: z.boolean().optional(),
   underline: z.boolean().optional(),
@@ -66,11 +67,237 @@ function shouldApplyFont(font: Required<FontStyle>): boolean {
   );
 }
 
+// ARGB color used by fills and borders
+const argbColorSchema = z.string().regex(/^[0-9A-Fa-f]{8}$/, 'Color must be 8 hex characters (ARGB format)');
+
+const FILL_PATTERNS = [
+  'solid', 'darkGray', 'mediumGray', 'lightGray', 'gray125', 'gray0625',
+  'darkHorizontal', 'darkVertical', 'darkDown', 'darkUp', 'darkGrid', 'darkTrellis',
+  'lightHorizontal', 'lightVertical', 'lightDown', 'lightUp', 'lightGrid', 'lightTrellis',
+] as const satisfies readonly FillPattern[];
+
+const BORDER_LINE_STYLES = [
+  'thin', 'medium', 'thick', 'hair', 'dotted', 'dashed', 'double', 'mediumDashed',
+  'dashDot', 'mediumDashDot', 'dashDotDot', 'mediumDashDotDot', 'slantDashDot',
+] as const satisfies readonly BorderLineStyle[];
+
+// Zod schema for fill style validation
+const fillStyleSchema = z.object({
+  backgroundColor: argbColorSchema.optional(),
+  pattern: z.enum(FILL_PATTERNS).optional(),
+  patternColor: argbColorSchema.optional(),
+}).strict().refine(
+  (fill) => fill.backgroundColor !== undefined || (fill.pattern !== undefined && fill.pattern !== 'solid'),
+  'Solid fills require a backgroundColor',
+);
+
+// Zod schema for border validation
+const borderEdgeSchema = z.object({
+  style: z.enum(BORDER_LINE_STYLES),
+  color: argbColorSchema.optional(),
+}).strict();
+
+const borderStyleSchema = z.object({
+  top: borderEdgeSchema.optional(),
+  right: borderEdgeSchema.optional(),
+  bottom: borderEdgeSchema.optional(),
+  left: borderEdgeSchema.optional(),
+}).strict();
+
+// Zod schema for alignment validation
+const alignmentStyleSchema = z.object({
+  horizontal: z.enum(['general', 'left', 'center', 'right', 'fill', 'justify', 'centerContinuous', 'distributed']).optional(),
+  vertical: z.enum(['top', 'center', 'bottom', 'justify', 'distributed']).optional(),
+  wrapText: z.boolean().optional(),
+  shrinkToFit: z.boolean().optional(),
+  indent: z.number().int().min(0).max(250).optional(), // Excel max is 250
+  textRotation: z.number().int().refine(
+    (rotation) => (rotation >= 0 && rotation <= 180) || rotation === 255,
+    'Text rotation must be between 0 and 180, or 255 for vertical text',
+  ).optional(),
+}).strict();
+
+// Zod schema for number format validation
+// Numeric IDs must be built-in; IDs from 164 up are assigned to custom format codes
+const numberFormatSchema = z.union([
+  z.number().int().min(0).max(FIRST_CUSTOM_FORMAT_ID - 1, `Built-in number format IDs must be below ${FIRST_CUSTOM_FORMAT_ID}`),
+  z.string().min(1, 'Number format code cannot be empty').max(255, 'Number format code cannot exceed 255 characters'),
+]);
+
+// Default alignment values (Excel's implicit alignment)
+const DEFAULT_ALIGNMENT: Required<AlignmentStyle> = {
+  horizontal: 'general',
+  vertical: 'bottom',
+  wrapText: false,
+  shrinkToFit: false,
+  indent: 0,
+  textRotation: 0,
+};
+
+// Default color for pattern foregrounds and border lines
+const DEFAULT_LINE_COLOR = 'FF000000';
+
+/**
+ * Internal representation of a normalized fill
+ */
+interface NormalizedFill {
+  pattern: FillPattern;
+  backgroundColor: string | null;
+  patternColor: string;
+}
+
+/**
+ * Internal representation of a normalized border
+ * Missing edges are null
+ */
+interface NormalizedBorder {
+  top: Required<BorderEdge> | null;
+  right: Required<BorderEdge> | null;
+  bottom: Required<BorderEdge> | null;
+  left: Required<BorderEdge> | null;
+}
+
+/**
+ * Normalizes and validates a fill style
+ * @returns null when no fill should be applied
+ * @throws {z.ZodError} If fill style validation fails
+ */
+function normalizeFillStyle(fill?: FillStyle): NormalizedFill | null {
+  if (!fill) {
+    return null;
+  }
+
+  const validated = fillStyleSchema.parse(fill);
+
+  return {
+    pattern: validated.pattern ?? 'solid',
+    backgroundColor: validated.backgroundColor?.toUpperCase() ?? null,
+    patternColor: validated.patternColor?.toUpperCase() ?? DEFAULT_LINE_COLOR,
+  };
+}
+
+/**
+ * Normalizes and validates a border style
+ * @returns null when no edge has a border
+ * @throws {z.ZodError} If border style validation fails
+ */
+function normalizeBorderStyle(border?: BorderStyle): NormalizedBorder | null {
+  if (!border) {
+    return null;
+  }
+
+  const validated = borderStyleSchema.parse(border);
+  const normalizeEdge = (edge?: BorderEdge): Required<BorderEdge> | null => edge
+    ? { style: edge.style, color: edge.color?.toUpperCase() ?? DEFAULT_LINE_COLOR }
+    : null;
+
+  const normalized: NormalizedBorder = {
+    top: normalizeEdge(validated.top),
+    right: normalizeEdge(validated.right),
+    bottom: normalizeEdge(validated.bottom),
+    left: normalizeEdge(validated.left),
+  };
+
+  if (!normalized.top && !normalized.right && !normalized.bottom && !normalized.left) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Normalizes and validates an alignment by filling in defaults
+ * @returns null when the alignment equals Excel's default alignment
+ * @throws {z.ZodError} If alignment validation fails
+ */
+function normalizeAlignmentStyle(alignment?: AlignmentStyle): Required<AlignmentStyle> | null {
+  if (!alignment) {
+    return null;
+  }
+
+  const validated = alignmentStyleSchema.parse(alignment);
+
+  const normalized: Required<AlignmentStyle> = {
+    horizontal: validated.horizontal ?? DEFAULT_ALIGNMENT.horizontal,
+    vertical: validated.vertical ?? DEFAULT_ALIGNMENT.vertical,
+    wrapText: validated.wrapText ?? DEFAULT_ALIGNMENT.wrapText,
+    shrinkToFit: validated.shrinkToFit ?? DEFAULT_ALIGNMENT.shrinkToFit,
+    indent: validated.indent ?? DEFAULT_ALIGNMENT.indent,
+    textRotation: validated.textRotation ?? DEFAULT_ALIGNMENT.textRotation,
+  };
+
+  const isDefault = (Object.keys(DEFAULT_ALIGNMENT) as (keyof AlignmentStyle)[])
+    .every((key) => normalized[key] === DEFAULT_ALIGNMENT[key]);
+  return isDefault ? null : normalized;
+}
+
+/**
+ * Normalizes and validates a number format
+ * Format codes that match a built-in format are replaced by its ID
+ * @returns A built-in format ID, or a custom format code
+ * @throws {z.ZodError} If number format validation fails
+ */
+function normalizeNumberFormat(numberFormat?: number | string): number | string {
+  if (numberFormat === undefined) {
+    return 0;
+  }
+
+  const validated = numberFormatSchema.parse(numberFormat);
+  if (typeof validated === 'number') {
+    return validated;
+  }
+  return getBuiltInFormatId(validated) ?? validated;
+}
+
 /**
  * Internal representation of a normalized style
  */
 interface NormalizedStyle {
   font: Required<FontStyle>;
+  fill: NormalizedFill | null;
+  border: NormalizedBorder | null;
+  alignment: Required<AlignmentStyle> | null;
+  numberFormat: number | string;
+}
+
+/**
+ * Normalizes and validates all parts of a style
+ * @throws {z.ZodError} If style validation fails
+ */
+function normalizeStyle(style: Style): NormalizedStyle {
+  return {
+    font: normalizeFontStyle(style.font),
+    fill: normalizeFillStyle(style.fill),
+    border: normalizeBorderStyle(style.border),
+    alignment: normalizeAlignmentStyle(style.alignment),
+    numberFormat: normalizeNumberFormat(style.numberFormat),
+  };
+}
+
+/**
+ * Internal representation of a normalized differential style (dxf)
+ * Only the properties given in the style are set; unset parts are null
+ */
+interface NormalizedDifferentialStyle {
+  font: FontStyle | null;
+  fill: NormalizedFill | null;
+  border: NormalizedBorder | null;
+  alignment: AlignmentStyle | null;
+  numberFormat: number | string | null;
+}
+
+/**
+ * Normalizes and validates a differential style without filling in defaults,
+ * so that conditional formats only override what they specify
+ * @throws {z.ZodError} If style validation fails
+ */
+function normalizeDifferentialStyle(style: Style): NormalizedDifferentialStyle {
+  return {
+    font: style.font ? fontStyleSchema.parse(style.font) : null,
+    fill: normalizeFillStyle(style.fill),
+    border: normalizeBorderStyle(style.border),
+    alignment: style.alignment ? alignmentStyleSchema.parse(style.alignment) : null,
+    numberFormat: style.numberFormat === undefined ? null : normalizeNumberFormat(style.numberFormat),
+  };
 }
 
 /**
@@ -101,6 +328,11 @@ export class StyleRegistry {
   private styles: NormalizedStyle[] = [];
   private indexMap: Map<string, number> = new Map();
   private cachedFonts: Required<FontStyle>[] | null = null;
+  private cachedFills: NormalizedFill[] | null = null;
+  private cachedBorders: NormalizedBorder[] | null = null;
+  private cachedNumberFormats: Map<string, number> | null = null;
+  private differentialStyles: NormalizedDifferentialStyle[] = [];
+  private differentialIndexMap: Map<string, number> = new Map();
 
   /**
    * Adds a style to the registry if needed and returns the relevant cellXfs index.
@@ -109,9 +341,7 @@ export class StyleRegistry {
    * @throws {z.ZodError} If style validation fails
    */
   addStyle(style: Style): number {
-    const normalized: NormalizedStyle = {
-      font: normalizeFontStyle(style.font),
-    };
+    const normalized = normalizeStyle(style);
 
     const key = this.getStyleKey(normalized);
 
@@ -128,8 +358,11 @@ export class StyleRegistry {
     const registryIndex = this.styles.length;
     this.styles.push(frozen);
     this.indexMap.set(key, registryIndex);
-    // Invalidate font cache when new style is added
+    // Invalidate section caches when new style is added
     this.cachedFonts = null;
+    this.cachedFills = null;
+    this.cachedBorders = null;
+    this.cachedNumberFormats = null;
     // Return cellXfs index (registry index + 1, since 0 is reserved for default)
     return registryIndex + 1;
   }
@@ -141,9 +374,7 @@ export class StyleRegistry {
    * @throws {Error} If style is not found in registry
    */
   getCellXfIndex(style: Style): number {
-    const normalized: NormalizedStyle = {
-      font: normalizeFontStyle(style.font),
-    };
+    const normalized = normalizeStyle(style);
     const key = this.getStyleKey(normalized);
     const registryIndex = this.indexMap.get(key);
     if (registryIndex === undefined) {
@@ -156,6 +387,37 @@ export class StyleRegistry {
     return registryIndex + 1;
   }
 
+  /**
+   * Adds a differential style (used by conditional formats) if needed and returns its dxfs index.
+   * Unlike cell styles, only the given properties are written; defaults are not filled in.
+   * @param style - The style to add
+   * @returns The dxfId to use in XML (0-based)
+   * @throws {z.ZodError} If style validation fails
+   */
+  addDifferentialStyle(style: Style): number {
+    const normalized = normalizeDifferentialStyle(style);
+    const key = JSON.stringify(normalized);
+
+    const existing = this.differentialIndexMap.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const index = this.differentialStyles.length;
+    this.differentialStyles.push(deepFreeze(normalized));
+    this.differentialIndexMap.set(key, index);
+    // Custom number formats are shared with cell styles
+    this.cachedNumberFormats = null;
+    return index;
+  }
+
+  /**
+   * Gets the count of unique differential styles registered
+   */
+  getDifferentialCount(): number {
+    return this.differentialStyles.length;
+  }
+
   /**
    * Gets all registered styles in order
    * @returns Read-only array of normalized styles
@@ -176,7 +438,11 @@ export class StyleRegistry {
    */
   private getStyleKey(style: NormalizedStyle): string {
     const f = style.font;
-    return `font:${f.bold}:${f.italic}:${f.underline}:${f.strikethrough}:${f.fontSize}:${f.fontColor}:${f.fontName}`;
+    const fill = style.fill ? this.getFillKey(style.fill) : 'none';
+    const border = style.border ? this.getBorderKey(style.border) : 'none';
+    const alignment = style.alignment ? this.getAlignmentKey(style.alignment) : 'none';
+    return `font:${f.bold}:${f.italic}:${f.underline}:${f.strikethrough}:${f.fontSize}:${f.fontColor}:${f.fontName}` +
+      `|fill:${fill}|border:${border}|alignment:${alignment}|numFmt:${typeof style.numberFormat}:${style.numberFormat}`;
   }
 
   /**
@@ -240,36 +506,322 @@ export class StyleRegistry {
     return `  <fonts count="${fonts.length}">\n${fontElements.join('\n')}\n  </fonts>`;
   }
 
+  /**
+   * Generates the custom number formats of styles.xml
+   * Maps each custom format code to its numFmtId, in order of first use
+   * Results are cached to avoid recomputation
+   */
+  private generateNumberFormatsSection(): Map<string, number> {
+    if (this.cachedNumberFormats !== null) {
+      return this.cachedNumberFormats;
+    }
+
+    const numberFormats = new Map<string, number>();
+    for (const style of [...this.styles, ...this.differentialStyles]) {
+      if (typeof style.numberFormat === 'string' && !numberFormats.has(style.numberFormat)) {
+        numberFormats.set(style.numberFormat, FIRST_CUSTOM_FORMAT_ID + numberFormats.size);
+      }
+    }
+
+    this.cachedNumberFormats = numberFormats;
+    return numberFormats;
+  }
+
+  /**
+   * Generates the numFmts XML section
+   * Returns an empty string when only built-in formats are used
+   */
+  private generateNumberFormatsXml(): string {
+    const numberFormats = this.generateNumberFormatsSection();
+    if (numberFormats.size === 0) {
+      return '';
+    }
+
+    const numFmtElements = [...numberFormats].map(
+      ([formatCode, id]) => `    <numFmt numFmtId="${id}" formatCode="${escapeXml(formatCode)}"/>`,
+    );
+    return `  <numFmts count="${numberFormats.size}">\n${numFmtElements.join('\n')}\n  </numFmts>\n`;
+  }
+
+  /**
+   * Generates the fills section of styles.xml
+   * Excel reserves fill 0 (none) and fill 1 (gray125); registered fills follow, deduplicated
+   * Results are cached to avoid recomputation
+   */
+  private generateFillsSection(): NormalizedFill[] {
+    if (this.cachedFills !== null) {
+      return this.cachedFills;
+    }
+
+    const fills: NormalizedFill[] = [];
+    const fillKeys = new Set<string>();
+
+    for (const style of this.styles) {
+      if (style.fill) {
+        const fillKey = this.getFillKey(style.fill);
+        if (!fillKeys.has(fillKey)) {
+          fills.push(style.fill);
+          fillKeys.add(fillKey);
+        }
+      }
+    }
+
+    this.cachedFills = fills;
+    return fills;
+  }
+
+  /**
+   * Generates the fills XML section
+   */
+  private generateFillsXml(): string {
+    const fillElements = [
+      '    <fill>\n      <patternFill patternType="none"/>\n    </fill>',
+      '    <fill>\n      <patternFill patternType="gray125"/>\n    </fill>',
+    ];
+
+    for (const fill of this.generateFillsSection()) {
+      // For solid fills the foreground color is the visible cell color
+      const fgColor = fill.pattern === 'solid' ? fill.backgroundColor : fill.patternColor;
+      const bgColor = fill.pattern === 'solid' ? null : fill.backgroundColor;
+      const elements: string[] = [];
+      if (fgColor) {
+        elements.push(`        <fgColor rgb="${fgColor}"/>`);
+      }
+      elements.push(bgColor ? `        <bgColor rgb="${bgColor}"/>` : '        <bgColor indexed="64"/>');
+      fillElements.push(
+        `    <fill>\n      <patternFill patternType="${fill.pattern}">\n${elements.join('\n')}\n      </patternFill>\n    </fill>`,
+      );
+    }
+
+    return `  <fills count="${fillElements.length}">\n${fillElements.join('\n')}\n  </fills>`;
+  }
+
+  /**
+   * Generates the borders section of styles.xml
+   * Border 0 is the empty border; registered borders follow, deduplicated
+   * Results are cached to avoid recomputation
+   */
+  private generateBordersSection(): NormalizedBorder[] {
+    if (this.cachedBorders !== null) {
+      return this.cachedBorders;
+    }
+
+    const borders: NormalizedBorder[] = [];
+    const borderKeys = new Set<string>();
+
+    for (const style of this.styles) {
+      if (style.border) {
+        const borderKey = this.getBorderKey(style.border);
+        if (!borderKeys.has(borderKey)) {
+          borders.push(style.border);
+          borderKeys.add(borderKey);
+        }
+      }
+    }
+
+    this.cachedBorders = borders;
+    return borders;
+  }
+
+  /**
+   * Generates the borders XML section
+   */
+  private generateBordersXml(): string {
+    const borderElements = ['    <border>\n      <left/>\n      <right/>\n      <top/>\n      <bottom/>\n      <diagonal/>\n    </border>'];
+
+    for (const border of this.generateBordersSection()) {
+      // Excel requires edges in this order
+      const edges = (['left', 'right', 'top', 'bottom'] as const).map((side) => {
+        const edge = border[side];
+        return edge
+          ? `      <${side} style="${edge.style}">\n        <color rgb="${edge.color}"/>\n      </${side}>`
+          : `      <${side}/>`;
+      });
+      borderElements.push(`    <border>\n${edges.join('\n')}\n      <diagonal/>\n    </border>`);
+    }
+
+    return `  <borders count="${borderElements.length}">\n${borderElements.join('\n')}\n  </borders>`;
+  }
+
+  /**
+   * Generates the alignment element of an xf
+   * Only attributes that differ from the default alignment are written
+   */
+  private generateAlignmentXml(alignment: Required<AlignmentStyle>): string {
+    const attributes: string[] = [];
+    if (alignment.horizontal !== DEFAULT_ALIGNMENT.horizontal) {
+      attributes.push(`horizontal="${alignment.horizontal}"`);
+    }
+    if (alignment.vertical !== DEFAULT_ALIGNMENT.vertical) {
+      attributes.push(`vertical="${alignment.vertical}"`);
+    }
+    if (alignment.textRotation !== DEFAULT_ALIGNMENT.textRotation) {
+      attributes.push(`textRotation="${alignment.textRotation}"`);
+    }
+    if (alignment.wrapText) {
+      attributes.push('wrapText="1"');
+    }
+    if (alignment.indent !== DEFAULT_ALIGNMENT.indent) {
+      attributes.push(`indent="${alignment.indent}"`);
+    }
+    if (alignment.shrinkToFit) {
+      attributes.push('shrinkToFit="1"');
+    }
+    return `<alignment ${attributes.join(' ')}/>`;
+  }
+
   /**
    * Generates the cellXfs section of styles.xml
-   * Maps style indices to font indices
+   * Maps style indices to number format, font, fill and border indices
    */
   private generateCellXfsSection(): string {
     // Get fonts in the same order as generateFontsSection
     const fonts = this.generateFontsSection();
 
-    // Build a map of font key to font index
+    // Build maps of section keys to section indices
     const fontToIndex = new Map<string, number>();
     fonts.forEach((font, index) => {
       fontToIndex.set(this.getFontKey(font), index);
     });
+    const fillToIndex = new Map<string, number>();
+    this.generateFillsSection().forEach((fill, index) => {
+      // Offset by the two reserved fills
+      fillToIndex.set(this.getFillKey(fill), index + 2);
+    });
+    const borderToIndex = new Map<string, number>();
+    this.generateBordersSection().forEach((border, index) => {
+      // Offset by the empty border
+      borderToIndex.set(this.getBorderKey(border), index + 1);
+    });
+
+    const numberFormats = this.generateNumberFormatsSection();
 
     // Default style (index 0) uses default font (index 0)
     const xfElements: string[] = ['    <xf numFmtId="0" fontId="0" fillId="0" borderId="0"/>'];
 
-    // Map each registered style to its font index
+    // Map each registered style to its section indices
     for (const style of this.styles) {
       let fontId = 0; // Default to default font
       if (shouldApplyFont(style.font)) {
         const fontKey = this.getFontKey(style.font);
         fontId = fontToIndex.get(fontKey) ?? 0;
       }
-      xfElements.push(`    <xf numFmtId="0" fontId="${fontId}" fillId="0" borderId="0"/>`);
+      const fillId = style.fill ? fillToIndex.get(this.getFillKey(style.fill)) ?? 0 : 0;
+      const borderId = style.border ? borderToIndex.get(this.getBorderKey(style.border)) ?? 0 : 0;
+
+      const numFmtId = typeof style.numberFormat === 'number'
+        ? style.numberFormat
+        : numberFormats.get(style.numberFormat) ?? 0;
+
+      let xf = `    <xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}"`;
+      if (numFmtId !== 0) {
+        xf += ' applyNumberFormat="1"';
+      }
+      if (fontId !== 0) {
+        xf += ' applyFont="1"';
+      }
+      if (fillId !== 0) {
+        xf += ' applyFill="1"';
+      }
+      if (borderId !== 0) {
+        xf += ' applyBorder="1"';
+      }
+      if (style.alignment) {
+        xf += ` applyAlignment="1">${this.generateAlignmentXml(style.alignment)}</xf>`;
+      } else {
+        xf += '/>';
+      }
+      xfElements.push(xf);
     }
 
     return `  <cellXfs count="${xfElements.length}">\n${xfElements.join('\n')}\n  </cellXfs>`;
   }
 
+  /**
+   * Generates the dxfs section of styles.xml
+   * Child elements follow the order required by Excel: font, numFmt, fill, alignment, border
+   * Returns an empty string when no differential style is registered
+   */
+  private generateDxfsXml(): string {
+    if (this.differentialStyles.length === 0) {
+      return '';
+    }
+
+    const numberFormats = this.generateNumberFormatsSection();
+    const dxfElements = this.differentialStyles.map((style) => {
+      const elements: string[] = [];
+
+      if (style.font) {
+        const font = style.font;
+        const fontElements: string[] = [];
+        // Explicit false turns off bold/italic/etc. of the cell's own style
+        const toggle = (tag: string, value: boolean | undefined) => {
+          if (value !== undefined) {
+            fontElements.push(value ? `<${tag}/>` : `<${tag} val="0"/>`);
+          }
+        };
+        toggle('b', font.bold);
+        toggle('i', font.italic);
+        toggle('strike', font.strikethrough);
+        if (font.underline !== undefined) {
+          fontElements.push(font.underline ? '<u/>' : '<u val="none"/>');
+        }
+        if (font.fontColor !== undefined) {
+          fontElements.push(`<color rgb="${font.fontColor.toUpperCase()}"/>`);
+        }
+        if (font.fontSize !== undefined) {
+          fontElements.push(`<sz val="${font.fontSize}"/>`);
+        }
+        if (font.fontName !== undefined) {
+          fontElements.push(`<name val="${escapeXml(font.fontName)}"/>`);
+        }
+        elements.push(`      <font>${fontElements.join('')}</font>`);
+      }
+
+      if (style.numberFormat !== null) {
+        const numFmtId = typeof style.numberFormat === 'number'
+          ? style.numberFormat
+          : numberFormats.get(style.numberFormat) ?? 0;
+        const formatCode = typeof style.numberFormat === 'string'
+          ? style.numberFormat
+          : lookupBuiltInFormatCode(style.numberFormat) ?? 'General';
+        elements.push(`      <numFmt numFmtId="${numFmtId}" formatCode="${escapeXml(formatCode)}"/>`);
+      }
+
+      if (style.fill) {
+        const fill = style.fill;
+        // In differential fills the visible color of a solid fill is the background color
+        elements.push(fill.pattern === 'solid'
+          ? `      <fill><patternFill><bgColor rgb="${fill.backgroundColor}"/></patternFill></fill>`
+          : `      <fill><patternFill patternType="${fill.pattern}"><fgColor rgb="${fill.patternColor}"/>` +
+            `${fill.backgroundColor ? `<bgColor rgb="${fill.backgroundColor}"/>` : ''}</patternFill></fill>`);
+      }
+
+      if (style.alignment) {
+        const attributes = Object.entries(style.alignment).map(([name, value]) => {
+          const attribute = typeof value === 'boolean' ? (value ? '1' : '0') : value;
+          return `${name}="${attribute}"`;
+        });
+        elements.push(`      <alignment ${attributes.join(' ')}/>`);
+      }
+
+      if (style.border) {
+        const border = style.border;
+        const edges = (['left', 'right', 'top', 'bottom'] as const)
+          .map((side) => {
+            const edge = border[side];
+            return edge ? `<${side} style="${edge.style}"><color rgb="${edge.color}"/></${side}>` : '';
+          })
+          .join('');
+        elements.push(`      <border>${edges}</border>`);
+      }
+
+      return `    <dxf>\n${elements.join('\n')}\n    </dxf>`;
+    });
+
+    return `\n  <dxfs count="${dxfElements.length}">\n${dxfElements.join('\n')}\n  </dxfs>`;
+  }
+
   /**
    * Generates a unique key for a font style
    */
@@ -277,14 +829,40 @@ export class StyleRegistry {
     return `${font.bold}:${font.italic}:${font.underline}:${font.strikethrough}:${font.fontSize}:${font.fontColor}:${font.fontName}`;
   }
 
+  /**
+   * Generates a unique key for a fill
+   */
+  private getFillKey(fill: NormalizedFill): string {
+    return `${fill.pattern}:${fill.backgroundColor}:${fill.patternColor}`;
+  }
+
+  /**
+   * Generates a unique key for a border
+   */
+  private getBorderKey(border: NormalizedBorder): string {
+    return (['top', 'right', 'bottom', 'left'] as const)
+      .map((side) => {
+        const edge = border[side];
+        return edge ? `${edge.style}:${edge.color}` : 'none';
+      })
+      .join(':');
+  }
+
+  /**
+   * Generates a unique key for an alignment
+   */
+  private getAlignmentKey(alignment: Required<AlignmentStyle>): string {
+    return `${alignment.horizontal}:${alignment.vertical}:${alignment.wrapText}:${alignment.shrinkToFit}:${alignment.indent}:${alignment.textRotation}`;
+  }
+
   /**
    * Generates the complete styles.xml content for XLSX files.
-   * Includes fonts, fills, borders, and cellXfs sections.
+   * Includes numFmts, fonts, fills, borders, cellXfs and dxfs sections.
    * @returns XML string for styles.xml
    */
   generateXml(): string {
     // If no styles registered, return minimal styles.xml
-    if (this.styles.length === 0) {
+    if (this.styles.length === 0 && this.differentialStyles.length === 0) {
       return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
   <fonts count="1">
@@ -294,10 +872,13 @@ export class StyleRegistry {
       <name val="Arial"/>
     </font>
   </fonts>
-  <fills count="1">
+  <fills count="2">
     <fill>
       <patternFill patternType="none"/>
     </fill>
+    <fill>
+      <patternFill patternType="gray125"/>
+    </fill>
   </fills>
   <borders count="1">
     <border>
@@ -305,6 +886,7 @@ export class StyleRegistry {
       <right/>
       <top/>
       <bottom/>
+      <diagonal/>
     </border>
   </borders>
   <cellXfs count="1">
@@ -313,26 +895,19 @@ export class StyleRegistry {
 </styleSheet>`;
     }
 
+    const numberFormatsSection = this.generateNumberFormatsXml();
     const fontsSection = this.generateFontsXml();
+    const fillsSection = this.generateFillsXml();
+    const bordersSection = this.generateBordersXml();
     const cellXfsSection = this.generateCellXfsSection();
+    const dxfsSection = this.generateDxfsXml();
 
     return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
-${fontsSection}
-  <fills count="1">
-    <fill>
-      <patternFill patternType="none"/>
-    </fill>
-  </fills>
-  <borders count="1">
-    <border>
-      <left/>
-      <right/>
-      <top/>
-      <bottom/>
-    </border>
-  </borders>
-${cellXfsSection}
+${numberFormatsSection}${fontsSection}
+${fillsSection}
+${bordersSection}
+${cellXfsSection}${dxfsSection}
 </styleSheet>`;
   }
 }
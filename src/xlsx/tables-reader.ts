@@ -0,0 +1,93 @@
+import type * as yauzl from 'yauzl';
+import { parseBooleanAttribute } from '@utils/xml';
+import { readZipEntry, type ZipEntry } from '@zip/reader';
+import { parseXmlEvents } from '@xml/parser';
+import type { Relationship } from './relationships-reader';
+import type { TableColumnDefinition, TableDefinition, TableTotalsRowFunction } from './types';
+
+const TABLE_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/table';
+
+const TOTALS_ROW_FUNCTIONS: ReadonlySet<string> = new Set<TableTotalsRowFunction>([
+  'sum', 'average', 'count', 'countNums', 'max', 'min', 'stdDev', 'var',
+]);
+
+/**
+ * Parses a table part (xl/tables/tableN.xml)
+ */
+export async function parseTable(
+  zipEntry: ZipEntry,
+  zipFile: yauzl.ZipFile,
+): Promise<TableDefinition | null> {
+  let table: TableDefinition | null = null;
+  const columns: TableColumnDefinition[] = [];
+  let hasAutoFilter = false;
+
+  for await (const event of parseXmlEvents(readZipEntry(zipEntry, zipFile))) {
+    if (event.type !== 'startElement') {
+      continue;
+    }
+    const attrs = event.attributes;
+    if (event.name === 'table') {
+      // displayName is the name used in formulas; name is an internal identifier
+      const name = attrs?.displayName ?? attrs?.name;
+      if (!name || !attrs?.ref) {
+        return null;
+      }
+      table = {
+        name,
+        range: attrs.ref,
+        totalsRow: parseInt(attrs.totalsRowCount ?? '0', 10) > 0,
+      };
+    } else if (event.name === 'autoFilter') {
+      hasAutoFilter = true;
+    } else if (event.name === 'tableColumn') {
+      const column: TableColumnDefinition = { name: attrs?.name ?? '' };
+      if (attrs?.totalsRowFunction && TOTALS_ROW_FUNCTIONS.has(attrs.totalsRowFunction)) {
+        column.totalsRowFunction = attrs.totalsRowFunction as TableTotalsRowFunction;
+      }
+      if (attrs?.totalsRowLabel !== undefined) {
+        column.totalsRowLabel = attrs.totalsRowLabel;
+      }
+      columns.push(column);
+    } else if (event.name === 'tableStyleInfo' && table) {
+      if (attrs?.name) table.style = attrs.name;
+      table.showFirstColumn = parseBooleanAttribute(attrs?.showFirstColumn) ?? false;
+      table.showLastColumn = parseBooleanAttribute(attrs?.showLastColumn) ?? false;
+      table.showRowStripes = parseBooleanAttribute(attrs?.showRowStripes) ?? false;
+      table.showColumnStripes = parseBooleanAttribute(attrs?.showColumnStripes) ?? false;
+    }
+  }
+
+  if (!table) {
+    return null;
+  }
+  table.columns = columns;
+  table.autoFilter = hasAutoFilter;
+  return table;
+}
+
+/**
+ * Parses the tables of a worksheet, found through the worksheet's relationships
+ * @param relationships - Relationships of the worksheet part
+ */
+export async function parseSheetTables(
+  relationships: Relationship[],
+  entries: ZipEntry[],
+  zipFile: yauzl.ZipFile,
+): Promise<TableDefinition[]> {
+  const tables: TableDefinition[] = [];
+  for (const relationship of relationships) {
+    if (relationship.type !== TABLE_RELATIONSHIP_TYPE || relationship.external) {
+      continue;
+    }
+    const tableEntry = entries.find((e) => e.fileName === relationship.target);
+    if (!tableEntry) {
+      continue;
+    }
+    const table = await parseTable(tableEntry, zipFile);
+    if (table) {
+      tables.push(table);
+    }
+  }
+  return tables;
+}
@@ -0,0 +1,304 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { cell, cellFromFormula } from '@sheet/cell';
+import { row } from '@sheet/row';
+import { openZip, readZipEntry } from '@zip/reader';
+import { resolveTableColumnNames } from '@xml/table-headers';
+import { describe, test, expect, afterEach } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readXlsx } from './reader';
+import { getRelationshipsPath, resolveRelationshipTarget } from './relationships-reader';
+import { generateTable } from './tables';
+import { writeXlsx } from './writer';
+import { readFile } from '../adapters';
+import { bytesToString } from '../adapters';
+
+/**
+ * Reads a part of a written file, or undefined if it does not exist
+ */
+async function readPart(filePath: string, fileName: string): Promise<string | undefined> {
+  const zipFile = await openZip(await readFile(filePath));
+  const entry = zipFile.entries.find((e) => e.fileName === fileName);
+  return entry ? bytesToString(readZipEntry(entry, zipFile.zipFile)) : undefined;
+}
+
+describe('Tables', () => {
+  const testFile = 'test-tables.xlsx';
+
+  afterEach(async () => {
+    await cleanupTestFiles(testFile);
+  });
+
+  describe('resolveTableColumnNames', () => {
+    test('should prefer column definitions, then header cells, then ColumnN', () => {
+      const names = resolveTableColumnNames(
+        { name: 'T', columns: [{}, { name: 'Total Amount' }] },
+        ['Region', 'Amount', ''],
+        4,
+      );
+      expect(names).toEqual(['Region', 'Total Amount', 'Column3', 'Column4']);
+    });
+
+    test('should make duplicate names unique ignoring case', () => {
+      expect(resolveTableColumnNames({ name: 'T' }, ['Name', 'name', 'Name'], 3)).toEqual(['Name', 'name2', 'Name3']);
+    });
+  });
+
+  describe('generateTable', () => {
+    test('should generate a table with a totals row outside the filter range', () => {
+      const xml = generateTable(
+        3,
+        {
+          name: 'Sales',
+          totalsRow: true,
+          style: 'TableStyleLight9',
+          columns: [{ totalsRowLabel: 'Total' }, { totalsRowFunction: 'sum' }],
+        },
+        'B2:C10',
+        ['Region', 'Amount'],
+      );
+      expect(xml).toContain('<table xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" id="3" name="Sales" displayName="Sales" ref="B2:C10" totalsRowCount="1">');
+      expect(xml).toContain('<autoFilter ref="B2:C9"/>');
+      expect(xml).toContain('<tableColumn id="1" name="Region" totalsRowLabel="Total"/>');
+      expect(xml).toContain('<tableColumn id="2" name="Amount" totalsRowFunction="sum"/>');
+      expect(xml).toContain('<tableStyleInfo name="TableStyleLight9" showFirstColumn="0" showLastColumn="0" showRowStripes="1" showColumnStripes="0"/>');
+    });
+
+    test('should omit the filter and escape column names', () => {
+      const xml = generateTable(1, { name: 'T', autoFilter: false }, 'A1:A2', ['Profit & Loss']);
+      expect(xml).toContain('totalsRowShown="0"');
+      expect(xml).not.toContain('<autoFilter');
+      expect(xml).toContain('name="Profit &amp; Loss"');
+    });
+  });
+
+  describe('relationships', () => {
+    test('should resolve relationship paths', () => {
+      expect(getRelationshipsPath('xl/worksheets/sheet2.xml')).toBe('xl/worksheets/_rels/sheet2.xml.rels');
+      expect(resolveRelationshipTarget('xl/worksheets/sheet2.xml', '../tables/table1.xml')).toBe('xl/tables/table1.xml');
+      expect(resolveRelationshipTarget('xl/worksheets/sheet2.xml', '/xl/tables/table1.xml')).toBe('xl/tables/table1.xml');
+      expect(resolveRelationshipTarget('xl/workbook.xml', 'worksheets/sheet1.xml')).toBe('xl/worksheets/sheet1.xml');
+    });
+  });
+
+  test('should write a table over the written range and read it back', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Report',
+          rows: (async function* () {
+            yield row([cell('Ignored')]);
+          })(),
+        },
+        {
+          name: 'Sales',
+          tables: [
+            {
+              name: 'Sales',
+              totalsRow: true,
+              columns: [{ totalsRowLabel: 'Total' }, {}, { totalsRowFunction: 'sum' }],
+            },
+          ],
+          rows: (async function* () {
+            yield row([cell('Region'), cell('Month'), cell('Amount')]);
+            yield row([cell('North'), cell('Jan'), cell(10)]);
+            yield row([cell('South'), cell('Jan'), cell(20)]);
+            yield row([cell('Total'), cell(''), cellFromFormula('SUBTOTAL(109,Sales[Amount])', 30)]);
+          })(),
+        },
+      ],
+    });
+
+    const sheetXml = await readPart(testFile, 'xl/worksheets/sheet2.xml');
+    expect(sheetXml).toContain('<tableParts count="1"><tablePart r:id="rId1"/></tableParts></worksheet>');
+    expect(await readPart(testFile, 'xl/worksheets/_rels/sheet2.xml.rels')).toContain(
+      'Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/table" Target="../tables/table1.xml"',
+    );
+    expect(await readPart(testFile, 'xl/worksheets/_rels/sheet1.xml.rels')).toBeUndefined();
+    expect(await readPart(testFile, '[Content_Types].xml')).toContain(
+      '<Override PartName="/xl/tables/table1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml"/>',
+    );
+
+    await using workbook = await readXlsx(testFile);
+    expect(workbook.sheet('Report').tables).toBeUndefined();
+    expect(workbook.sheet('Sales').tables).toEqual([
+      {
+        name: 'Sales',
+        range: 'A1:C4',
+        totalsRow: true,
+        columns: [{ name: 'Region', totalsRowLabel: 'Total' }, { name: 'Month' }, { name: 'Amount', totalsRowFunction: 'sum' }],
+        style: 'TableStyleMedium2',
+        showFirstColumn: false,
+        showLastColumn: false,
+        showRowStripes: true,
+        showColumnStripes: false,
+        autoFilter: true,
+      },
+    ]);
+  });
+
+  test('should number tables across sheets and take names from explicit header rows', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'First',
+          tables: [{ name: 'Left', range: 'A2:B3' }, { name: 'Right', range: 'D2:D3' }],
+          rows: (async function* () {
+            yield row([cell('Title')]);
+            yield row([cell('Name'), cell('Score'), cell(''), cell('Notes')]);
+            yield row([cell('Alice'), cell(1), cell(''), cell('ok')]);
+          })(),
+        },
+        {
+          name: 'Second',
+          tables: [{ name: 'Other' }],
+          rows: (async function* () {
+            yield row([cell('Only header')]);
+          })(),
+        },
+      ],
+    }, { sharedStrings: 'shared' });
+
+    await using workbook = await readXlsx(testFile);
+    const [left, right] = workbook.sheet('First').tables!;
+    expect(left?.columns?.map((c) => c.name)).toEqual(['Name', 'Score']);
+    expect(right?.columns?.map((c) => c.name)).toEqual(['Notes']);
+    expect(right?.range).toBe('D2:D3');
+    // A table needs a data row, so the range is extended below the header
+    expect(workbook.sheet('Second').tables?.[0]?.range).toBe('A1:A2');
+    expect(await readPart(testFile, 'xl/tables/table3.xml')).toContain('id="3" name="Other"');
+  });
+
+  test('should write the column names into the header cells', async () => {
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Named',
+          tables: [{ name: 'Named', range: 'A1:D3', columns: [{}, { name: 'Total Amount' }] }],
+          rows: (async function* () {
+            yield row([cell(' Region '), { ...cell('Amount'), style: { font: { bold: true } } }, cell(''), cell(2024)]);
+            yield row([cell('North'), cell(10), cell(''), cell(1)]);
+            yield row([cell('South'), cell(20), cell(''), cell(2)]);
+          })(),
+        },
+        {
+          name: 'Duplicates',
+          tables: [{ name: 'Duplicates', columns: [{}, {}, {}, {}, {}] }],
+          rows: (async function* () {
+            yield row([cell('Name'), cell('name'), cell(''), cell('Name')], { rowIndex: 2 });
+            yield row([cell(1), cell(2), cell(3), cell(4), cell(5)], { rowIndex: 3 });
+          })(),
+        },
+      ],
+    });
+
+    const readColumnNames = async (tableId: number) => {
+      const xml = await readPart(testFile, `xl/tables/table${tableId}.xml`);
+      return [...xml!.matchAll(/<tableColumn id="\d+" name="([^"]*)"/g)].map((match) => match[1]);
+    };
+    await using workbook = await readXlsx(testFile, { includeStyles: true });
+    const readHeaderRow = async (sheetName: string) => {
+      for await (const r of workbook.sheet(sheetName).rows()) {
+        return r.cells;
+      }
+      return [];
+    };
+
+    const named = await readHeaderRow('Named');
+    expect(await readColumnNames(1)).toEqual(['Region', 'Total Amount', 'Column3', '2024']);
+    expect(named.map((c) => c?.value)).toEqual(['Region', 'Total Amount', 'Column3', '2024']);
+    expect(named[1]?.style?.font?.bold).toBe(true);
+    expect(named[3]?.type).toBe('string');
+
+    const duplicates = await readHeaderRow('Duplicates');
+    expect(await readColumnNames(2)).toEqual(['Name', 'name2', 'Column3', 'Name3', 'Column5']);
+    expect(duplicates.map((c) => c?.value)).toEqual(['Name', 'name2', 'Column3', 'Name3', 'Column5']);
+    expect(workbook.sheet('Duplicates').tables?.[0]?.range).toBe('A2:E3');
+  });
+
+  test('should reject header rows that cannot hold the column names', async () => {
+    await expect(writeXlsx(testFile, {
+      sheets: [{
+        name: 'Sheet1',
+        tables: [{ name: 'Sales' }],
+        rows: (async function* () {
+          yield row([cell('Region')]);
+          yield row([cell('North'), cell(10)]);
+        })(),
+      }],
+    })).rejects.toThrow('Table "Sales": header cell B1 must contain the column name "Column2"');
+  });
+
+  test('should take names from boolean headers and reject date and formula headers', async () => {
+    const write = (header: ReturnType<typeof cell>) => writeXlsx(testFile, {
+      sheets: [{
+        name: 'Sheet1',
+        tables: [{ name: 'Flags' }],
+        rows: (async function* () {
+          yield row([cell('Region'), header]);
+          yield row([cell('North'), cell(10)]);
+        })(),
+      }],
+    });
+
+    await write(cell(true));
+    const xml = await readPart(testFile, 'xl/tables/table1.xml');
+    expect([...xml!.matchAll(/<tableColumn id="\d+" name="([^"]*)"/g)].map((match) => match[1])).toEqual(['Region', 'TRUE']);
+
+    await expect(write(cell(new Date(Date.UTC(2024, 0, 1))))).rejects.toThrow('Table header cell B1 must hold text, a number or a boolean');
+    await expect(write(cellFromFormula('A2'))).rejects.toThrow('Table header cell B1 must hold text, a number or a boolean');
+  });
+
+  test('should reject invalid tables before writing', async () => {
+    const write = (sheets: { name: string; tables: any[]; autoFilter?: string; mergedCells?: string[] }[]) => writeXlsx(testFile, {
+      sheets: sheets.map((sheet) => ({ ...sheet, rows: (async function* () {})() })),
+    });
+
+    await expect(write([{ name: 'A', tables: [{ name: 'Sales' }] }, { name: 'B', tables: [{ name: 'SALES' }] }]))
+      .rejects.toThrow('Duplicate table name: SALES');
+    await expect(write([{ name: 'A', tables: [{ name: 'Sales Data' }] }])).rejects.toThrow('Table name must start with');
+    await expect(write([{ name: 'A', tables: [{ name: 'AB12' }] }])).rejects.toThrow('cannot be a cell reference');
+    await expect(write([{ name: 'A', tables: [{ name: 'T1', range: 'A1:B1' }] }])).rejects.toThrow('at least one data row');
+    await expect(write([{ name: 'A', tables: [{ name: 'T1', range: 'A1:B5' }, { name: 'T2', range: 'B5:C9' }] }]))
+      .rejects.toThrow('Table T2 overlaps another table');
+    await expect(write([{ name: 'A', tables: [{ name: 'T1', range: 'A1:B5' }], autoFilter: 'B1:C5' }]))
+      .rejects.toThrow('Table T1 overlaps the sheet autoFilter');
+    await expect(write([{ name: 'A', tables: [{ name: 'T1' }], autoFilter: 'F1:G5' }]))
+      .rejects.toThrow('Table T1 overlaps the sheet autoFilter');
+    await expect(write([{ name: 'A', tables: [{ name: 'T1', range: 'A1:B5' }], mergedCells: ['B5:C6'] }]))
+      .rejects.toThrow('Table T1 overlaps merged cells');
+  });
+
+  test('should write a table next to the sheet autoFilter and merged cells', async () => {
+    await writeXlsx(testFile, {
+      sheets: [{
+        name: 'Sheet1',
+        tables: [{ name: 'Sales', range: 'A1:B3' }],
+        autoFilter: 'C1:D3',
+        mergedCells: ['A5:B5'],
+        rows: (async function* () {
+          yield row([cell('Region'), cell('Amount'), cell('Name'), cell('Score')]);
+          yield row([cell('North'), cell(10), cell('Ann'), cell(1)]);
+          yield row([cell('South'), cell(20), cell('Bob'), cell(2)]);
+        })(),
+      }],
+    });
+
+    await using workbook = await readXlsx(testFile);
+    expect(workbook.sheet('Sheet1').tables?.[0]?.range).toBe('A1:B3');
+  });
+
+  test('should reject a table over the written range that covers merged cells', async () => {
+    await expect(writeXlsx(testFile, {
+      sheets: [{
+        name: 'Sheet1',
+        tables: [{ name: 'Sales' }],
+        mergedCells: ['A3:B3'],
+        rows: (async function* () {
+          yield row([cell('Region'), cell('Amount')]);
+          yield row([cell('North'), cell(10)]);
+          yield row([cell('Total')]);
+        })(),
+      }],
+    })).rejects.toThrow('Table "Sales": range A1:B3 overlaps merged cells');
+  });
+});
@@ -0,0 +1,78 @@
+/*
+ * Excel table (ListObject) part generator
+ */
+
+import { getRangeReference, parseRangeReference } from '@utils/cell-reference';
+import { escapeXml } from '@utils/xml';
+import type { TableDefinition } from './types';
+
+/**
+ * Default style of new tables in Excel
+ */
+const DEFAULT_TABLE_STYLE = 'TableStyleMedium2';
+
+/**
+ * Generates xl/tables/tableN.xml
+ * @param id - Table id, unique within the workbook
+ * @param table - Table definition
+ * @param range - Resolved table range in A1 notation (header row through totals row)
+ * @param columnNames - Resolved column names, one per column of the range
+ */
+export function generateTable(
+  id: number,
+  table: TableDefinition,
+  range: string,
+  columnNames: string[],
+): string {
+  const bounds = parseRangeReference(range);
+  if (!bounds) {
+    throw new Error(`Invalid table range: ${range}`);
+  }
+  const totalsRow = table.totalsRow ?? false;
+
+  const tableAttrs = [
+    `id="${id}"`,
+    `name="${escapeXml(table.name)}"`,
+    `displayName="${escapeXml(table.name)}"`,
+    `ref="${range}"`,
+    totalsRow ? 'totalsRowCount="1"' : 'totalsRowShown="0"',
+  ];
+
+  // The filter covers the header and data rows, never the totals row
+  let autoFilterXml = '';
+  if (table.autoFilter ?? true) {
+    const filterEndRow = totalsRow ? bounds.end.rowIndex - 1 : bounds.end.rowIndex;
+    const filterRange = getRangeReference(bounds.start.rowIndex, bounds.start.colIndex, filterEndRow, bounds.end.colIndex);
+    autoFilterXml = `\n  <autoFilter ref="${filterRange}"/>`;
+  }
+
+  const columnElements = columnNames
+    .map((name, index) => {
+      const column = table.columns?.[index];
+      const attrs = [`id="${index + 1}"`, `name="${escapeXml(name)}"`];
+      if (totalsRow && column?.totalsRowLabel !== undefined) {
+        attrs.push(`totalsRowLabel="${escapeXml(column.totalsRowLabel)}"`);
+      }
+      if (totalsRow && column?.totalsRowFunction !== undefined) {
+        attrs.push(`totalsRowFunction="${column.totalsRowFunction}"`);
+      }
+      return `    <tableColumn ${attrs.join(' ')}/>`;
+    })
+    .join('\n');
+
+  const styleAttrs = [
+    `name="${escapeXml(table.style ?? DEFAULT_TABLE_STYLE)}"`,
+    `showFirstColumn="${table.showFirstColumn ? 1 : 0}"`,
+    `showLastColumn="${table.showLastColumn ? 1 : 0}"`,
+    `showRowStripes="${(table.showRowStripes ?? true) ? 1 : 0}"`,
+    `showColumnStripes="${table.showColumnStripes ? 1 : 0}"`,
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<table xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ${tableAttrs.join(' ')}>${autoFilterXml}
+  <tableColumns count="${columnNames.length}">
+${columnElements}
+  </tableColumns>
+  <tableStyleInfo ${styleAttrs.join(' ')}/>
+</table>`;
+}
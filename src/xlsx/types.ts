@@ -1,4 +1,4 @@
-import type { Row } from '../types';
+import type { RichTextRun, Row, Style } from '../types';
 
 export interface WorkbookProperties {
   title?: string | null;
@@ -71,6 +71,476 @@ export interface RowHeightDefinition {
   height?: number;
 }
 
+/**
+ * Merged cell range for a sheet
+ * - string: A1-style range (e.g., "A1:D1"); absolute markers ($) are ignored
+ * - object: 0-based coordinates, inclusive on both ends
+ *   @example { startRow: 0, startColumn: 0, endRow: 0, endColumn: 3 } covers A1:D1
+ *
+ * Only the top-left cell of a merged range is displayed; values of other cells in the range are hidden.
+ */
+export type MergedCellDefinition =
+  | string
+  | { startRow: number; startColumn: number; endRow: number; endColumn: number };
+
+/**
+ * View settings of a sheet (panes, zoom, gridlines, selection)
+ * Frozen panes and split panes are mutually exclusive.
+ */
+export interface SheetViewDefinition {
+  /**
+   * Number of rows frozen at the top (e.g., 1 keeps a header row visible while scrolling)
+   */
+  frozenRows?: number;
+  /**
+   * Number of columns frozen at the left
+   */
+  frozenColumns?: number;
+  /**
+   * Split panes that scroll independently (not frozen).
+   * Positions are in twips (1/20 of a point), as stored by Excel.
+   */
+  split?: {
+    xSplit?: number; // Horizontal position of the vertical split bar
+    ySplit?: number; // Vertical position of the horizontal split bar
+    topLeftCell?: string; // Top-left visible cell of the bottom-right pane (e.g., "C10")
+  };
+  /**
+   * Zoom level in percent (10-400).
+   * @default 100
+   */
+  zoom?: number;
+  /**
+   * @default true
+   */
+  showGridLines?: boolean;
+  /**
+   * Show row and column headers (1, 2, 3... and A, B, C...).
+   * @default true
+   */
+  showHeaders?: boolean;
+  /**
+   * Lay out the sheet from right to left (column A on the right).
+   * @default false
+   */
+  rightToLeft?: boolean;
+  /**
+   * Active cell in A1 notation (e.g., "B2")
+   */
+  activeCell?: string;
+  /**
+   * Selected ranges, space-separated (e.g., "B2:D4 F1"). Defaults to the active cell.
+   */
+  selection?: string;
+}
+
+/**
+ * Aggregate shown in a table's totals row
+ */
+export type TableTotalsRowFunction =
+  | 'sum'
+  | 'average'
+  | 'count'
+  | 'countNums'
+  | 'max'
+  | 'min'
+  | 'stdDev'
+  | 'var';
+
+/**
+ * Column of an Excel table, by position within the table range
+ */
+export interface TableColumnDefinition {
+  /**
+   * Column name. Defaults to the text of the header cell.
+   * Names must be unique within the table; duplicates get a number appended.
+   */
+  name?: string;
+  /**
+   * Aggregate selected in the totals row dropdown.
+   * The totals row cell itself is written like any other cell,
+   * e.g. cellFromFormula('SUBTOTAL(109,Sales[Amount])').
+   */
+  totalsRowFunction?: TableTotalsRowFunction;
+  /**
+   * Text label of the totals row cell (e.g., "Total")
+   */
+  totalsRowLabel?: string;
+}
+
+/**
+ * Excel table (ListObject) over a range of a sheet
+ * The first row of the range is the header row.
+ */
+export interface TableDefinition {
+  /**
+   * Table name, unique within the workbook (e.g., "Sales").
+   * Used in structured references such as Sales[Amount].
+   */
+  name: string;
+  /**
+   * Range in A1 notation including the header row and, if enabled, the totals row.
+   * Defaults to the first written row over all written rows and columns, resolved once all rows are written.
+   */
+  range?: string;
+  /**
+   * Column settings by position. Column names default to the header cells.
+   */
+  columns?: TableColumnDefinition[];
+  /**
+   * Treat the last row of the range as a totals row.
+   * @default false
+   */
+  totalsRow?: boolean;
+  /**
+   * Table style name.
+   * @default 'TableStyleMedium2'
+   */
+  style?: string;
+  /**
+   * @default true
+   */
+  showRowStripes?: boolean;
+  /**
+   * @default false
+   */
+  showColumnStripes?: boolean;
+  /**
+   * Highlight the first column.
+   * @default false
+   */
+  showFirstColumn?: boolean;
+  /**
+   * Highlight the last column.
+   * @default false
+   */
+  showLastColumn?: boolean;
+  /**
+   * Show filter buttons in the header row.
+   * @default true
+   */
+  autoFilter?: boolean;
+}
+
+/**
+ * Comparison applied by whole, decimal, date, time and textLength validations
+ */
+export type DataValidationOperator =
+  | 'between'
+  | 'notBetween'
+  | 'equal'
+  | 'notEqual'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'greaterThanOrEqual'
+  | 'lessThanOrEqual';
+
+/**
+ * Value of a data validation criterion
+ * - number: literal value (for time validations, a fraction of a day, e.g. 0.5 = 12:00)
+ * - Date: converted to an Excel serial date
+ * - string: formula without "=" prefix (e.g., "TODAY()", "$B$1" or "LEN(A2)<=10")
+ */
+export type DataValidationValue = number | Date | string;
+
+/**
+ * Data validation rule for one or more ranges of a sheet
+ */
+export interface DataValidationDefinition {
+  /**
+   * Cells the rule applies to, in A1 notation. Separate multiple ranges with spaces (e.g., "A2:A100 C2:C100").
+   */
+  range: string;
+  /**
+   * - list: dropdown of `values` or of the cells referenced by `formula1`
+   * - whole / decimal: whole or decimal numbers compared with formula1 (and formula2)
+   * - date / time: dates or times compared with formula1 (and formula2)
+   * - textLength: text whose length is compared with formula1 (and formula2)
+   * - custom: cells for which the formula in formula1 is true
+   */
+  type: 'list' | 'whole' | 'decimal' | 'date' | 'time' | 'textLength' | 'custom';
+  /**
+   * Comparison for whole, decimal, date, time and textLength.
+   * between and notBetween require formula2.
+   * @default 'between'
+   */
+  operator?: DataValidationOperator;
+  /**
+   * Items of a list validation (e.g., ['Yes', 'No']).
+   * Items cannot contain commas and the list is limited to 255 characters; use formula1 with a range for longer lists.
+   */
+  values?: string[];
+  formula1?: DataValidationValue;
+  formula2?: DataValidationValue;
+  /**
+   * Accept empty cells.
+   * @default true
+   */
+  allowBlank?: boolean;
+  /**
+   * Show the in-cell dropdown of a list validation.
+   * @default true
+   */
+  showDropdown?: boolean;
+  /**
+   * Message shown when a cell of the range is selected
+   */
+  input?: { title?: string; message: string };
+  /**
+   * Message shown when an invalid value is entered.
+   * style 'stop' rejects the value, 'warning' and 'information' let the user keep it.
+   * Set to false to accept invalid values without a message.
+   * @default { style: 'stop' }
+   */
+  error?: { title?: string; message?: string; style?: 'stop' | 'warning' | 'information' } | false;
+}
+
+/**
+ * Comparison of a cellIs conditional format
+ */
+export type ConditionalFormatOperator = DataValidationOperator;
+
+/**
+ * Threshold of a color scale, data bar or icon set
+ * - min / max: lowest or highest value of the range (no value)
+ * - num: the number in value
+ * - percent / percentile: value from 0 to 100
+ * - formula: formula without "=" prefix in value
+ */
+export type ConditionalFormatThreshold =
+  | { type: 'min' | 'max' }
+  | { type: 'num' | 'percent' | 'percentile'; value: number }
+  | { type: 'formula'; value: string };
+
+/**
+ * Icon sets available to iconSet conditional formats
+ */
+export type ConditionalFormatIconSet =
+  | '3Arrows'
+  | '3ArrowsGray'
+  | '3Flags'
+  | '3TrafficLights1'
+  | '3TrafficLights2'
+  | '3Signs'
+  | '3Symbols'
+  | '3Symbols2'
+  | '4Arrows'
+  | '4ArrowsGray'
+  | '4RedToBlack'
+  | '4Rating'
+  | '4TrafficLights'
+  | '5Arrows'
+  | '5ArrowsGray'
+  | '5Rating'
+  | '5Quarters';
+
+/**
+ * Conditional format for one or more ranges of a sheet.
+ * Rules are evaluated in definition order; the first rule has the highest priority.
+ * cellIs and expression rules apply a differential style: only the given style properties
+ * (e.g., font color and fill) are applied on top of the cell's own style.
+ * Colors are 8 hex characters (ARGB format), like in Style.
+ */
+export type ConditionalFormatDefinition = {
+  /**
+   * Cells the rule applies to, in A1 notation. Separate multiple ranges with spaces (e.g., "B2:B100 D2:D100").
+   */
+  range: string;
+  /**
+   * Do not evaluate lower priority rules for cells that match this rule
+   */
+  stopIfTrue?: boolean;
+} & (
+  | {
+    /**
+     * Cells whose value compares with formula1 (and formula2 for between and notBetween).
+     * Numbers are literal values, strings are formulas without "=" prefix (e.g., "$B$1" or "\"Done\"").
+     */
+    type: 'cellIs';
+    operator: ConditionalFormatOperator;
+    formula1: number | string;
+    formula2?: number | string;
+    style: Style;
+  }
+  | {
+    /**
+     * Cells for which the formula is true. References are relative to the top-left cell of the range (e.g., "$C2>100").
+     */
+    type: 'expression';
+    formula: string;
+    style: Style;
+  }
+  | {
+    /**
+     * Two or three color gradient
+     * @default thresholds: min and max, with percentile 50 as the midpoint of three colors
+     */
+    type: 'colorScale';
+    colors: [string, string] | [string, string, string];
+    thresholds?: ConditionalFormatThreshold[];
+  }
+  | {
+    /**
+     * Bar proportional to the cell value
+     * @default min: { type: 'min' }, max: { type: 'max' }
+     */
+    type: 'dataBar';
+    color: string;
+    min?: ConditionalFormatThreshold;
+    max?: ConditionalFormatThreshold;
+    showValue?: boolean; // Default: true
+  }
+  | {
+    /**
+     * Icon per value band. Thresholds are the lower bounds of the icons, one per icon.
+     * @default iconSet: '3TrafficLights1', thresholds: equal percent bands (e.g., 0, 33, 67)
+     */
+    type: 'iconSet';
+    iconSet?: ConditionalFormatIconSet;
+    thresholds?: ConditionalFormatThreshold[];
+    reverse?: boolean;
+    showValue?: boolean; // Default: true
+  }
+);
+
+/**
+ * Comment (note) attached to a cell
+ */
+export interface CommentDefinition {
+  /**
+   * Author shown in Excel's review pane
+   */
+  author?: string;
+  /**
+   * Plain text, or runs of rich text with their own fonts
+   */
+  text: string | RichTextRun[];
+  /**
+   * Keep the comment box shown instead of showing it on hover
+   * @default false
+   */
+  visible?: boolean;
+}
+
+/**
+ * Picture placed on a sheet, anchored to a cell
+ * Sizes and offsets are in pixels (at 96 DPI, like Excel's size dialog)
+ */
+export interface ImageDefinition {
+  /**
+   * PNG or JPEG bytes; the format is detected from the data
+   */
+  data: Uint8Array;
+  /**
+   * Cell the top-left corner of the image is anchored to (e.g., "B2")
+   */
+  anchor: string;
+  /**
+   * Offset of the top-left corner from the top-left corner of the anchor cell
+   */
+  offset?: { x?: number; y?: number };
+  width: number;
+  height: number;
+  /**
+   * Name shown in Excel's selection pane
+   * @default "Picture <n>"
+   */
+  name?: string;
+  /**
+   * Alternative text for screen readers
+   */
+  description?: string;
+}
+
+/**
+ * Chart types
+ */
+export type ChartType = 'bar' | 'line' | 'pie' | 'scatter' | 'area';
+
+/**
+ * Data series of a chart
+ * Ranges are on the chart's sheet (e.g., "B2:B13") or on another sheet (e.g., "'Q1 Sales'!B2:B13").
+ */
+export interface ChartSeriesDefinition {
+  /**
+   * Series name shown in the legend
+   */
+  name?: string;
+  /**
+   * Range of the values (y values of scatter charts)
+   */
+  values: string;
+  /**
+   * Range of the category labels (x values of scatter charts)
+   */
+  categories?: string;
+  /**
+   * Series color in ARGB format (e.g., "FF4472C4"); the chart style's colors are used by default
+   */
+  color?: string;
+}
+
+/**
+ * Axis of a chart
+ */
+export interface ChartAxisDefinition {
+  title?: string;
+  /**
+   * Bounds of a value axis; Excel picks them from the data by default
+   */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Chart drawn over the cells, anchored to a cell like an image
+ * Sizes and offsets are in pixels
+ */
+export interface ChartDefinition {
+  type: ChartType;
+  series: ChartSeriesDefinition[];
+  title?: string;
+  /**
+   * Cell the top-left corner of the chart is anchored to (e.g., "E2")
+   */
+  anchor: string;
+  /**
+   * Offset of the top-left corner from the top-left corner of the anchor cell
+   */
+  offset?: { x?: number; y?: number };
+  /**
+   * @default 480
+   */
+  width?: number;
+  /**
+   * @default 288
+   */
+  height?: number;
+  /**
+   * Bars run horizontally instead of vertically (bar charts only)
+   * @default false
+   */
+  horizontal?: boolean;
+  /**
+   * Category axis (x value axis of scatter charts); pie charts have no axes
+   */
+  xAxis?: ChartAxisDefinition;
+  /**
+   * Value axis
+   */
+  yAxis?: ChartAxisDefinition;
+  /**
+   * Legend position, or false to hide the legend
+   * @default 'right'
+   */
+  legend?: 'right' | 'left' | 'top' | 'bottom' | false;
+  /**
+   * Name shown in Excel's selection pane
+   * @default "Chart <n>"
+   */
+  name?: string;
+}
+
 export interface WorkbookDefinition {
   sheets: SheetDefinition[];
   properties?: WorkbookProperties;
@@ -85,12 +555,72 @@ export interface SheetDefinition {
   autoDetectColumnWidth?: boolean; // Auto-detect widths for all columns
   defaultRowHeight?: number; // Default height for all rows (in points)
   rowHeights?: RowHeightDefinition[]; // Override specific rows/ranges
+  mergedCells?: MergedCellDefinition[]; // Ranges must span at least two cells and must not overlap
+  view?: SheetViewDefinition; // Frozen panes, zoom, gridlines, selection, etc.
+  /**
+   * Adds filter buttons to a range.
+   * - string: range in A1 notation (e.g., "A1:D100"), first row is the header row
+   * - true: first written row over all written columns, resolved once all rows are written
+   */
+  autoFilter?: string | true;
+  tables?: TableDefinition[]; // Excel tables; names must be unique within the workbook
+  conditionalFormats?: ConditionalFormatDefinition[]; // Color scales, data bars, icon sets and highlight rules
+  dataValidations?: DataValidationDefinition[]; // Dropdown lists and input restrictions
+  comments?: Record<string, CommentDefinition>; // Comments by cell reference (e.g., { B2: { author: 'Ann', text: 'Adjusted' } })
+  images?: ImageDefinition[]; // Pictures such as logos and thumbnails, drawn over the cells
+  charts?: ChartDefinition[]; // Charts of ranges on this or other sheets, drawn over the cells
 }
 
+/**
+ * Time zone of the wall-clock times in a workbook
+ * Excel stores dates without a time zone. Dates are converted to and from the wall-clock time
+ * in the process's local time zone ('local'), in UTC ('UTC'), or in a named IANA time zone (e.g., 'Europe/Berlin').
+ */
+export type DateTimezone = 'local' | 'UTC' | (string & {});
+
 export interface WriterOptions {
   sharedStrings?: 'inline' | 'shared'; // Default: 'inline'
+  /**
+   * Write runs of vertically repeated formulas (e.g. =A2*B2, =A3*B3, ...) as shared formulas.
+   * Only the first cell of a run stores the formula text, which shrinks files with formula columns.
+   * @default false
+   */
+  shareFormulas?: boolean;
+  /**
+   * Time zone whose wall-clock time is written for Date values (date cells, cached formula results
+   * and data validation criteria). Use the same time zone when reading to get the same Date back.
+   * @default 'local'
+   */
+  timezone?: DateTimezone;
+  /**
+   * Date system of the workbook. In the 1904 date system (the default of old Mac versions of Excel),
+   * serial numbers count days from January 1, 1904 instead of January 1, 1900.
+   * Date values are written in the chosen system; numeric date cell values are taken as 1900 serials and shifted.
+   * The 1904 system starts on January 1, 1904 (1900 serial 1462): writing an earlier date throws.
+   * Numeric values below 1 are times of day and are not shifted.
+   * @default '1900'
+   */
+  dateSystem?: '1900' | '1904';
 }
 
+/**
+ * Input accepted by readXlsx
+ * - string: path to an XLSX file
+ * - Uint8Array / ArrayBuffer: workbook bytes already in memory
+ * - Blob: e.g. a File from Request.formData()
+ * - ReadableStream / AsyncIterable: streamed bytes (e.g. a request body)
+ *
+ * ZIP archives keep their directory at the end of the file, so non-path inputs are
+ * collected into memory before the workbook is opened.
+ */
+export type XlsxSource =
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
 export interface ReadOptions {
   /**
    * Use 1904-based calendar instead of 1900-based calendar for date parsing.
@@ -112,4 +642,40 @@ export interface ReadOptions {
    * @default false
    */
   shouldFormatDates?: boolean;
+  /**
+   * Preserve the runs of rich text cells.
+   * When false (default), runs are flattened into the cell's plain text value.
+   * When true, cells with runs also get `richText` with the text and font of each run.
+   * @default false
+   */
+  richText?: boolean;
+  /**
+   * Read the formatting of cells.
+   * When false (default), cells are returned without `style`.
+   * When true, styled cells get `style` with their font, fill, border, alignment and number format,
+   * in the same shape the writer accepts. Cells with the same formatting share one style object.
+   * @default false
+   */
+  includeStyles?: boolean;
+  /**
+   * Render the values of cells as Excel displays them.
+   * When true, cells also get `formattedValue`: numbers and dates formatted with their number format
+   * (sections, thousands separators, percent, scientific, fractions and literal text), booleans as TRUE/FALSE,
+   * and formulas from their computed value. `value` keeps the raw value.
+   * @default false
+   */
+  formattedValues?: boolean;
+  /**
+   * Representation of duration cells (numbers with an elapsed time format such as [h]:mm:ss).
+   * - 'milliseconds': the length of the duration in milliseconds (e.g., 91800000)
+   * - 'iso': an ISO 8601 duration in hours, minutes and seconds (e.g., "PT25H30M")
+   * @default 'milliseconds'
+   */
+  durations?: 'milliseconds' | 'iso';
+  /**
+   * Time zone in which the wall-clock times of date cells are read into Date objects.
+   * Formatted dates (shouldFormatDates, formattedValues) always show the wall-clock time of the cell.
+   * @default 'local'
+   */
+  timezone?: DateTimezone;
 }
@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, test, expect } from '@tests/framework';
-import { sheetNameSchema, workbookPropertiesSchema, customPropertiesSchema } from './validation';
+import { sheetNameSchema, workbookPropertiesSchema, customPropertiesSchema, mergedCellsSchema, sheetViewSchema, dataValidationsSchema, conditionalFormatsSchema } from './validation';
 
 describe('Validation Schemas', () => {
   describe('sheetNameSchema', () => {
@@ -189,4 +189,109 @@ describe('Validation Schemas', () => {
       })).toThrow('Property value cannot exceed 32767 characters');
     });
   });
+
+  describe('mergedCellsSchema', () => {
+    test('should accept A1 ranges and 0-based coordinates', () => {
+      expect(() => mergedCellsSchema.parse(['A1:D1', 'a2:b3', '$E$1:$F$1'])).not.toThrow();
+      expect(() => mergedCellsSchema.parse([{ startRow: 0, startColumn: 0, endRow: 0, endColumn: 3 }])).not.toThrow();
+      expect(() => mergedCellsSchema.parse([])).not.toThrow();
+    });
+
+    test('should reject invalid ranges', () => {
+      expect(() => mergedCellsSchema.parse(['A1:'])).toThrow('A1-style range');
+      expect(() => mergedCellsSchema.parse(['B2'])).toThrow('must span at least two cells');
+      expect(() => mergedCellsSchema.parse(['A1048576:A1048577'])).toThrow('exceeds sheet limits');
+      expect(() => mergedCellsSchema.parse([{ startRow: 0, startColumn: 0, endRow: 0, endColumn: 16384 }])).toThrow();
+      expect(() => mergedCellsSchema.parse([{ startRow: 0.5, startColumn: 0, endRow: 1, endColumn: 0 }])).toThrow();
+    });
+
+    test('should reject overlapping ranges', () => {
+      expect(() => mergedCellsSchema.parse(['A1:C3', { startRow: 2, startColumn: 2, endRow: 3, endColumn: 3 }]))
+        .toThrow('Merged cell ranges overlap');
+      expect(() => mergedCellsSchema.parse(['A1:B1', 'C1:D1', 'A2:D2'])).not.toThrow();
+      // Ranges are checked in row order, but reported in definition order
+      expect(() => mergedCellsSchema.parse(['B5:C6', 'E1:F2', 'A3:B5'])).toThrow('Merged cell ranges overlap: B5:C6 and A3:B5');
+      expect(() => mergedCellsSchema.parse(['A1:A10', 'C1:D1', 'B5:C5', 'E2:F2', 'B4:B5'])).toThrow('overlap: B5:C5 and B4:B5');
+    });
+
+    test('should check many ranges across and within rows', () => {
+      const rows = Array.from({ length: 20000 }, (_, i) => ({ startRow: i, startColumn: 0, endRow: i, endColumn: 1 }));
+      const columns = Array.from({ length: 5000 }, (_, i) => ({ startRow: 20000, startColumn: i * 2, endRow: 20001, endColumn: i * 2 + 1 }));
+      expect(() => mergedCellsSchema.parse([...rows, ...columns])).not.toThrow();
+      expect(() => mergedCellsSchema.parse([...columns, ...rows, { startRow: 20001, startColumn: 9998, endRow: 20002, endColumn: 9999 }]))
+        .toThrow('overlap');
+    });
+  });
+
+  describe('sheetViewSchema', () => {
+    test('should accept valid view settings', () => {
+      expect(() => sheetViewSchema.parse({ frozenRows: 1, frozenColumns: 1, zoom: 80, activeCell: '$B$2', selection: 'B2:C3 E1' })).not.toThrow();
+      expect(() => sheetViewSchema.parse({ split: { xSplit: 1200, topLeftCell: 'D1' }, showGridLines: false })).not.toThrow();
+    });
+
+    test('should reject invalid view settings', () => {
+      expect(() => sheetViewSchema.parse({ zoom: 5 })).toThrow('Zoom must be between 10 and 400');
+      expect(() => sheetViewSchema.parse({ frozenRows: 1.5 })).toThrow();
+      expect(() => sheetViewSchema.parse({ activeCell: 'XFE1' })).toThrow('A1 notation');
+      expect(() => sheetViewSchema.parse({ selection: 'B2:' })).toThrow('Selection must be');
+      expect(() => sheetViewSchema.parse({ frozenColumns: 2, split: { xSplit: 100 } })).toThrow('cannot be combined');
+      expect(() => sheetViewSchema.parse({ freezeRows: 1 })).toThrow();
+    });
+  });
+
+  describe('dataValidationsSchema', () => {
+    test('should accept valid rules', () => {
+      expect(() => dataValidationsSchema.parse([
+        { range: 'A2:A100 C2:C100', type: 'list', values: ['Yes', 'No'] },
+        { range: 'B2:B100', type: 'list', formula1: '$Z$1:$Z$10' },
+        { range: 'D2', type: 'whole', formula1: 1, formula2: 10 },
+        { range: 'E2', type: 'date', operator: 'greaterThan', formula1: new Date(2024, 0, 1) },
+        { range: 'F2', type: 'custom', formula1: 'ISNUMBER(F2)', error: false },
+      ])).not.toThrow();
+    });
+
+    test('should reject invalid ranges and criteria', () => {
+      expect(() => dataValidationsSchema.parse([{ range: 'A1:', type: 'list', values: ['a'] }])).toThrow('A1 notation');
+      expect(() => dataValidationsSchema.parse([{ range: '', type: 'list', values: ['a'] }])).toThrow('A1 notation');
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'list' }])).toThrow('requires values or formula1');
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'list', values: ['a'], formula1: 'B1:B2' }])).toThrow('cannot have both');
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'list', values: ['a,b'] }])).toThrow('cannot contain commas');
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'list', values: ['x'.repeat(256)] }])).toThrow('255 characters');
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'whole', values: ['1'] }])).toThrow();
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'decimal', operator: 'lessThan' }])).toThrow('requires formula1');
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'whole', formula1: 1 }])).toThrow('requires formula2');
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'whole', operator: 'equal', formula1: 1 }])).not.toThrow();
+      expect(() => dataValidationsSchema.parse([{ range: 'A1', type: 'bogus', formula1: 1 }])).toThrow();
+    });
+
+    test('should enforce Excel message limits', () => {
+      const base = { range: 'A1', type: 'list' as const, values: ['a'] };
+      expect(() => dataValidationsSchema.parse([{ ...base, input: { title: 'x'.repeat(33), message: 'm' } }])).toThrow('32 characters');
+      expect(() => dataValidationsSchema.parse([{ ...base, error: { message: 'x'.repeat(256) } }])).toThrow('255 characters');
+      expect(() => dataValidationsSchema.parse([{ ...base, error: { style: 'fatal' } }])).toThrow();
+    });
+  });
+
+  describe('conditionalFormatsSchema', () => {
+    test('should accept valid formats', () => {
+      expect(() => conditionalFormatsSchema.parse([
+        { range: 'B2:B100 D2:D100', type: 'cellIs', operator: 'lessThan', formula1: 0, style: { font: { fontColor: 'FF9C0006' } } },
+        { range: 'A2:D100', type: 'expression', formula: '$D2="Late"', style: { fill: { backgroundColor: 'FFFFC7CE' } }, stopIfTrue: true },
+        { range: 'B2:B100', type: 'colorScale', colors: ['FFF8696B', 'FF63BE7B'] },
+        { range: 'B2:B100', type: 'dataBar', color: 'FF638EC6', min: { type: 'num', value: 0 }, max: { type: 'percent', value: 90 } },
+        { range: 'B2:B100', type: 'iconSet', iconSet: '5Rating', reverse: true },
+      ])).not.toThrow();
+    });
+
+    test('should reject invalid formats', () => {
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2:', type: 'dataBar', color: 'FF638EC6' }])).toThrow('A1 notation');
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2', type: 'dataBar', color: 'blue' }])).toThrow('ARGB');
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2', type: 'cellIs', operator: 'between', formula1: 1, style: {} }])).toThrow('requires formula2');
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2', type: 'expression', formula: '', style: {} }])).toThrow('cannot be empty');
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2', type: 'colorScale', colors: ['FFF8696B'] }])).toThrow('two or three colors');
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2', type: 'iconSet', thresholds: [{ type: 'min' }] }])).toThrow('one threshold per icon');
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2', type: 'dataBar', color: 'FF638EC6', min: { type: 'percent', value: 150 } }])).toThrow('between 0 and 100');
+      expect(() => conditionalFormatsSchema.parse([{ range: 'B2', type: 'top10', rank: 5 }])).toThrow();
+    });
+  });
 });
@@ -2,6 +2,18 @@
  * Validation schemas for XLSX writer inputs
  */
 import { z } from 'zod';
+import { parseCellReference, parseRangeReference, rangesOverlap } from '@utils/cell-reference';
+import { isValidTimezone } from '@utils/dates';
+import { splitSheetReference } from './charts';
+import { detectImageFormat } from './drawings';
+import { fontStyleSchema } from './styles';
+import type { MergedCellDefinition } from './types';
+
+/**
+ * Excel sheet limits
+ */
+const MAX_ROWS = 1048576;
+const MAX_COLUMNS = 16384;
 
 /**
  * Validates sheet names according to Excel rules:
@@ -58,3 +70,576 @@ export const workbookPropertiesSchema = z.object({
     .optional(),
   customProperties: customPropertiesSchema.optional(),
 }).strict();
+
+/**
+ * Validates a cell reference in A1 notation (absolute markers allowed)
+ */
+const cellReferenceSchema = z.string().refine(
+  (ref) => {
+    const range = parseRangeReference(ref.toUpperCase());
+    return range !== null && !ref.includes(':') && range.end.rowIndex <= MAX_ROWS && range.end.colIndex < MAX_COLUMNS;
+  },
+  'Must be a cell reference in A1 notation (e.g., "B2")',
+);
+
+/**
+ * Validates sheet view settings
+ * Frozen panes and split panes cannot be combined
+ */
+export const sheetViewSchema = z.object({
+  frozenRows: z.number().int().min(0).max(MAX_ROWS - 1).optional(),
+  frozenColumns: z.number().int().min(0).max(MAX_COLUMNS - 1).optional(),
+  split: z.object({
+    xSplit: z.number().min(0).optional(),
+    ySplit: z.number().min(0).optional(),
+    topLeftCell: cellReferenceSchema.optional(),
+  }).strict().optional(),
+  zoom: z.number().int().min(10, 'Zoom must be between 10 and 400').max(400, 'Zoom must be between 10 and 400').optional(),
+  showGridLines: z.boolean().optional(),
+  showHeaders: z.boolean().optional(),
+  rightToLeft: z.boolean().optional(),
+  activeCell: cellReferenceSchema.optional(),
+  selection: z.string().refine(
+    (sqref) => sqref.trim().split(/\s+/).every((ref) => parseRangeReference(ref.toUpperCase()) !== null),
+    'Selection must be space-separated ranges in A1 notation (e.g., "B2:D4 F1")',
+  ).optional(),
+}).strict().refine(
+  (view) => !(view.split && (view.frozenRows || view.frozenColumns)),
+  'Frozen panes and split panes cannot be combined',
+);
+
+/**
+ * Validates the autoFilter option: a range in A1 notation, or true for the written range
+ */
+export const autoFilterSchema = z.union([
+  z.literal(true),
+  z.string().refine(
+    (ref) => {
+      const range = parseRangeReference(ref.toUpperCase());
+      return range !== null && range.end.rowIndex <= MAX_ROWS && range.end.colIndex < MAX_COLUMNS;
+    },
+    'AutoFilter must be a range in A1 notation (e.g., "A1:D100") or true',
+  ),
+]);
+
+/**
+ * Validates a single merged cell range (A1 range or 0-based coordinates)
+ */
+const mergedCellSchema = z.union([
+  z.string().refine(
+    (ref) => parseRangeReference(ref.toUpperCase()) !== null,
+    'Merged cell range must be an A1-style range (e.g., "A1:D1")',
+  ),
+  z.object({
+    startRow: z.number().int().min(0).max(MAX_ROWS - 1),
+    startColumn: z.number().int().min(0).max(MAX_COLUMNS - 1),
+    endRow: z.number().int().min(0).max(MAX_ROWS - 1),
+    endColumn: z.number().int().min(0).max(MAX_COLUMNS - 1),
+  }).strict(),
+]);
+
+/**
+ * Validates the merged cells of a sheet
+ * Each range must lie within the sheet, span at least two cells, and not overlap another range
+ */
+export const mergedCellsSchema = z.array(mergedCellSchema).superRefine((mergedCells, ctx) => {
+  // Malformed ranges are already reported by mergedCellSchema
+  if (mergedCells.some((ref) => typeof ref === 'string' && parseRangeReference(ref.toUpperCase()) === null)) {
+    return;
+  }
+  const bounds = mergedCells.map(getMergedCellBounds);
+  bounds.forEach((range, index) => {
+    if (range.end.rowIndex > MAX_ROWS || range.end.colIndex >= MAX_COLUMNS) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: 'Merged cell range exceeds sheet limits' });
+    } else if (range.start.rowIndex === range.end.rowIndex && range.start.colIndex === range.end.colIndex) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: 'Merged cell range must span at least two cells' });
+    }
+  });
+
+  // Sweep the ranges by start row. The active ranges all cover the current row, so they are
+  // disjoint column intervals: kept sorted by start column, an overlap is found by bisection.
+  const order = bounds.map((_, index) => index).sort((a, b) => bounds[a]!.start.rowIndex - bounds[b]!.start.rowIndex);
+  let active: number[] = [];
+  let activeRow = -1;
+  for (const index of order) {
+    const range = bounds[index]!;
+    if (range.start.rowIndex !== activeRow) {
+      activeRow = range.start.rowIndex;
+      active = active.filter((other) => bounds[other]!.end.rowIndex >= activeRow);
+    }
+    // Position after the last active range starting at or before the end column of this one
+    let low = 0;
+    let high = active.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (bounds[active[middle]!]!.start.colIndex <= range.end.colIndex) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    const other = active[low - 1];
+    if (other !== undefined && bounds[other]!.end.colIndex >= range.start.colIndex) {
+      const [first, second] = other < index ? [other, index] : [index, other];
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [second],
+        message: `Merged cell ranges overlap: ${formatMergedCell(mergedCells[first]!)} and ${formatMergedCell(mergedCells[second]!)}`,
+      });
+    } else {
+      active.splice(low, 0, index);
+    }
+  }
+});
+
+/**
+ * Converts a merged cell definition to its bounds (rowIndex 1-based, colIndex 0-based)
+ * The definition must be valid (see mergedCellsSchema)
+ */
+export function getMergedCellBounds(mergedCell: MergedCellDefinition): {
+  start: { rowIndex: number; colIndex: number };
+  end: { rowIndex: number; colIndex: number };
+} {
+  if (typeof mergedCell === 'string') {
+    return parseRangeReference(mergedCell.toUpperCase())!;
+  }
+  return {
+    start: {
+      rowIndex: Math.min(mergedCell.startRow, mergedCell.endRow) + 1,
+      colIndex: Math.min(mergedCell.startColumn, mergedCell.endColumn),
+    },
+    end: {
+      rowIndex: Math.max(mergedCell.startRow, mergedCell.endRow) + 1,
+      colIndex: Math.max(mergedCell.startColumn, mergedCell.endColumn),
+    },
+  };
+}
+
+/**
+ * Formats a merged cell definition for error messages
+ */
+function formatMergedCell(mergedCell: MergedCellDefinition): string {
+  return typeof mergedCell === 'string' ? mergedCell : JSON.stringify(mergedCell);
+}
+
+/**
+ * Validates table names according to Excel rules:
+ * - Starts with a letter, underscore or backslash, followed by letters, digits, underscores or periods
+ * - Max 255 characters
+ * - Cannot look like a cell reference (e.g., "A1") or an R1C1 reference (e.g., "R", "C", "R1C1")
+ */
+export const tableNameSchema = z.string()
+  .min(1, 'Table name cannot be empty')
+  .max(255, 'Table name cannot exceed 255 characters')
+  .regex(/^[A-Za-z_\\][A-Za-z0-9_.\\]*$/, 'Table name must start with a letter or underscore and contain only letters, digits, underscores and periods')
+  .refine(
+    (name) => {
+      const ref = parseCellReference(name.toUpperCase());
+      return !(ref && ref.colIndex < MAX_COLUMNS) && !/^(R\d*C?\d*|C\d*)$/i.test(name);
+    },
+    'Table name cannot be a cell reference',
+  );
+
+/**
+ * Validates a table definition
+ * An explicit range needs a header row, at least one data row, and the totals row if enabled
+ */
+export const tableSchema = z.object({
+  name: tableNameSchema,
+  range: z.string().refine(
+    (ref) => {
+      const range = parseRangeReference(ref.toUpperCase());
+      return range !== null && range.end.rowIndex <= MAX_ROWS && range.end.colIndex < MAX_COLUMNS;
+    },
+    'Table range must be a range in A1 notation (e.g., "A1:D100")',
+  ).optional(),
+  columns: z.array(z.object({
+    name: z.string().min(1, 'Table column name cannot be empty').max(255).optional(),
+    totalsRowFunction: z.enum(['sum', 'average', 'count', 'countNums', 'max', 'min', 'stdDev', 'var']).optional(),
+    totalsRowLabel: z.string().max(255).optional(),
+  }).strict()).optional(),
+  totalsRow: z.boolean().optional(),
+  style: z.string().min(1).max(255).optional(),
+  showRowStripes: z.boolean().optional(),
+  showColumnStripes: z.boolean().optional(),
+  showFirstColumn: z.boolean().optional(),
+  showLastColumn: z.boolean().optional(),
+  autoFilter: z.boolean().optional(),
+}).strict().superRefine((table, ctx) => {
+  const range = table.range ? parseRangeReference(table.range.toUpperCase()) : null;
+  if (!range) {
+    return;
+  }
+  const minRows = table.totalsRow ? 3 : 2;
+  if (range.end.rowIndex - range.start.rowIndex + 1 < minRows) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['range'],
+      message: `Table range must include a header row and at least one data row${table.totalsRow ? ' before the totals row' : ''}`,
+    });
+  }
+  if (table.columns && table.columns.length > range.end.colIndex - range.start.colIndex + 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['columns'], message: 'Table has more columns than its range' });
+  }
+});
+
+/**
+ * Validates the tables of a workbook (grouped by sheet)
+ * Names must be unique within the workbook (case-insensitive). Explicit ranges of one sheet must not
+ * overlap each other, the sheet autoFilter or merged cells, which Excel "repairs" by dropping the table;
+ * a table covering the written range cannot be combined with a sheet autoFilter.
+ */
+export const workbookTablesSchema = z.array(z.object({
+  tables: z.array(tableSchema),
+  autoFilter: autoFilterSchema.optional(),
+  mergedCells: z.array(mergedCellSchema).optional(),
+})).superRefine((sheets, ctx) => {
+  const names = new Set<string>();
+  sheets.forEach((sheet, sheetIndex) => {
+    const autoFilter = typeof sheet.autoFilter === 'string' ? parseRangeReference(sheet.autoFilter.toUpperCase()) : null;
+    // Malformed merged cell ranges are reported by mergedCellSchema
+    const mergedCells = (sheet.mergedCells ?? [])
+      .filter((ref) => typeof ref !== 'string' || parseRangeReference(ref.toUpperCase()) !== null)
+      .map(getMergedCellBounds);
+    const ranges: { start: { rowIndex: number; colIndex: number }; end: { rowIndex: number; colIndex: number } }[] = [];
+    sheet.tables.forEach((table, tableIndex) => {
+      const key = table.name.toUpperCase();
+      if (names.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [sheetIndex, 'tables', tableIndex, 'name'], message: `Duplicate table name: ${table.name}` });
+      }
+      names.add(key);
+
+      const range = table.range ? parseRangeReference(table.range.toUpperCase()) : null;
+      if (sheet.autoFilter === true || (sheet.autoFilter !== undefined && !range) || (autoFilter && range && rangesOverlap(range, autoFilter))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [sheetIndex, 'tables', tableIndex], message: `Table ${table.name} overlaps the sheet autoFilter` });
+      }
+      if (!range) {
+        return;
+      }
+      if (ranges.some((other) => rangesOverlap(range, other))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [sheetIndex, 'tables', tableIndex, 'range'], message: `Table ${table.name} overlaps another table` });
+      }
+      if (mergedCells.some((mergedCell) => rangesOverlap(range, mergedCell))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [sheetIndex, 'tables', tableIndex, 'range'], message: `Table ${table.name} overlaps merged cells` });
+      }
+      ranges.push(range);
+    });
+  });
+});
+
+/**
+ * Checks a list of space-separated ranges in A1 notation (sqref) against the sheet limits
+ */
+function isValidSqref(sqref: string): boolean {
+  return sqref.trim() !== '' && sqref.trim().split(/\s+/).every((ref) => {
+    const range = parseRangeReference(ref.toUpperCase());
+    return range !== null && range.end.rowIndex <= MAX_ROWS && range.end.colIndex < MAX_COLUMNS;
+  });
+}
+
+/**
+ * Validates a data validation criterion: a number, a Date, or a formula
+ */
+const dataValidationValueSchema = z.union([
+  z.number().finite(),
+  z.date(),
+  z.string().min(1, 'Data validation formula cannot be empty').max(255, 'Data validation formula cannot exceed 255 characters'),
+]);
+
+/**
+ * Validates a data validation rule
+ * Excel limits: input/error titles 32 characters, messages 255 characters, list literals 255 characters
+ */
+export const dataValidationSchema = z.object({
+  range: z.string().refine(
+    isValidSqref,
+    'Data validation range must be space-separated ranges in A1 notation (e.g., "A2:A100 C2:C100")',
+  ),
+  type: z.enum(['list', 'whole', 'decimal', 'date', 'time', 'textLength', 'custom']),
+  operator: z.enum([
+    'between', 'notBetween', 'equal', 'notEqual', 'greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual',
+  ]).optional(),
+  values: z.array(
+    z.string().refine((value) => !value.includes(','), 'List items cannot contain commas'),
+  ).min(1, 'List must have at least one item').optional(),
+  formula1: dataValidationValueSchema.optional(),
+  formula2: dataValidationValueSchema.optional(),
+  allowBlank: z.boolean().optional(),
+  showDropdown: z.boolean().optional(),
+  input: z.object({
+    title: z.string().max(32, 'Input title cannot exceed 32 characters').optional(),
+    message: z.string().max(255, 'Input message cannot exceed 255 characters'),
+  }).strict().optional(),
+  error: z.union([
+    z.literal(false),
+    z.object({
+      title: z.string().max(32, 'Error title cannot exceed 32 characters').optional(),
+      message: z.string().max(255, 'Error message cannot exceed 255 characters').optional(),
+      style: z.enum(['stop', 'warning', 'information']).optional(),
+    }).strict(),
+  ]).optional(),
+}).strict().superRefine((validation, ctx) => {
+  const issue = (message: string, path: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  if (validation.type === 'list') {
+    if (validation.values === undefined && validation.formula1 === undefined) {
+      issue('List validation requires values or formula1', 'values');
+    }
+    if (validation.values !== undefined && validation.formula1 !== undefined) {
+      issue('List validation cannot have both values and formula1', 'values');
+    }
+    // Quoted, comma-separated literal
+    if (validation.values && validation.values.join(',').length > 255) {
+      issue('List values cannot exceed 255 characters in total; reference a range with formula1 instead', 'values');
+    }
+    return;
+  }
+
+  if (validation.values !== undefined) {
+    issue('Only list validations can have values', 'values');
+  }
+  if (validation.formula1 === undefined) {
+    issue(`${validation.type} validation requires formula1`, 'formula1');
+  }
+  if (validation.type === 'custom') {
+    return;
+  }
+  const operator = validation.operator ?? 'between';
+  if ((operator === 'between' || operator === 'notBetween') && validation.formula2 === undefined) {
+    issue(`Operator ${operator} requires formula2`, 'formula2');
+  }
+});
+
+/**
+ * Validates the data validation rules of a sheet
+ */
+export const dataValidationsSchema = z.array(dataValidationSchema);
+
+/**
+ * Validates an ARGB color of a conditional format
+ */
+const conditionalFormatColorSchema = z.string().regex(/^[0-9A-Fa-f]{8}$/, 'Color must be 8 hex characters (ARGB format)');
+
+/**
+ * Validates a conditional format formula (without "=" prefix)
+ */
+const conditionalFormatFormulaSchema = z.string()
+  .min(1, 'Conditional format formula cannot be empty')
+  .max(255, 'Conditional format formula cannot exceed 255 characters');
+
+/**
+ * Validates a threshold of a color scale, data bar or icon set
+ */
+const conditionalFormatThresholdSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.enum(['min', 'max']) }).strict(),
+  z.object({ type: z.literal('num'), value: z.number().finite() }).strict(),
+  z.object({ type: z.enum(['percent', 'percentile']), value: z.number().min(0).max(100, 'Percent thresholds must be between 0 and 100') }).strict(),
+  z.object({ type: z.literal('formula'), value: conditionalFormatFormulaSchema }).strict(),
+]);
+
+const conditionalFormatBase = {
+  range: z.string().refine(
+    isValidSqref,
+    'Conditional format range must be space-separated ranges in A1 notation (e.g., "B2:B100 D2:D100")',
+  ),
+  stopIfTrue: z.boolean().optional(),
+};
+
+/**
+ * Validates a conditional format
+ * Styles of cellIs and expression rules are validated by the style registry
+ */
+export const conditionalFormatSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...conditionalFormatBase,
+    type: z.literal('cellIs'),
+    operator: z.enum([
+      'between', 'notBetween', 'equal', 'notEqual', 'greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual',
+    ]),
+    formula1: z.union([z.number().finite(), conditionalFormatFormulaSchema]),
+    formula2: z.union([z.number().finite(), conditionalFormatFormulaSchema]).optional(),
+    style: z.object({}).passthrough(),
+  }).strict(),
+  z.object({
+    ...conditionalFormatBase,
+    type: z.literal('expression'),
+    formula: conditionalFormatFormulaSchema,
+    style: z.object({}).passthrough(),
+  }).strict(),
+  z.object({
+    ...conditionalFormatBase,
+    type: z.literal('colorScale'),
+    colors: z.array(conditionalFormatColorSchema).min(2, 'Color scales have two or three colors').max(3, 'Color scales have two or three colors'),
+    thresholds: z.array(conditionalFormatThresholdSchema).optional(),
+  }).strict(),
+  z.object({
+    ...conditionalFormatBase,
+    type: z.literal('dataBar'),
+    color: conditionalFormatColorSchema,
+    min: conditionalFormatThresholdSchema.optional(),
+    max: conditionalFormatThresholdSchema.optional(),
+    showValue: z.boolean().optional(),
+  }).strict(),
+  z.object({
+    ...conditionalFormatBase,
+    type: z.literal('iconSet'),
+    iconSet: z.enum([
+      '3Arrows', '3ArrowsGray', '3Flags', '3TrafficLights1', '3TrafficLights2', '3Signs', '3Symbols', '3Symbols2',
+      '4Arrows', '4ArrowsGray', '4RedToBlack', '4Rating', '4TrafficLights',
+      '5Arrows', '5ArrowsGray', '5Rating', '5Quarters',
+    ]).optional(),
+    thresholds: z.array(conditionalFormatThresholdSchema).optional(),
+    reverse: z.boolean().optional(),
+    showValue: z.boolean().optional(),
+  }).strict(),
+]).superRefine((format, ctx) => {
+  const issue = (message: string, path: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  if (format.type === 'cellIs' && (format.operator === 'between' || format.operator === 'notBetween') && format.formula2 === undefined) {
+    issue(`Operator ${format.operator} requires formula2`, 'formula2');
+  }
+  if (format.type === 'colorScale' && format.thresholds && format.thresholds.length !== format.colors.length) {
+    issue('Color scales need one threshold per color', 'thresholds');
+  }
+  // The icon count is the leading digit of the icon set name
+  if (format.type === 'iconSet' && format.thresholds && format.thresholds.length !== Number((format.iconSet ?? '3TrafficLights1')[0])) {
+    issue('Icon sets need one threshold per icon', 'thresholds');
+  }
+});
+
+/**
+ * Validates the conditional formats of a sheet
+ */
+export const conditionalFormatsSchema = z.array(conditionalFormatSchema);
+
+/**
+ * Validates a comment
+ * Excel limits the text of a cell, and so of a comment, to 32767 characters
+ */
+const commentSchema = z.object({
+  author: z.string().max(255, 'Comment author cannot exceed 255 characters').optional(),
+  text: z.union([
+    z.string(),
+    z.array(z.object({ text: z.string(), font: fontStyleSchema.optional() }).strict())
+      .min(1, 'Rich text needs at least one run'),
+  ]).refine(
+    (text) => (typeof text === 'string' ? text : text.map((run) => run.text).join('')).length <= 32767,
+    'Comment text cannot exceed 32767 characters',
+  ),
+  visible: z.boolean().optional(),
+}).strict();
+
+/**
+ * Validates the comments of a sheet, keyed by cell reference
+ */
+export const commentsSchema = z.record(cellReferenceSchema, commentSchema);
+
+/**
+ * Validates an image of a sheet
+ */
+const imageSchema = z.object({
+  data: z.instanceof(Uint8Array).refine((data) => detectImageFormat(data) !== null, 'Image data must be a PNG or JPEG image'),
+  anchor: cellReferenceSchema,
+  offset: z.object({
+    x: z.number().finite().min(0).optional(),
+    y: z.number().finite().min(0).optional(),
+  }).strict().optional(),
+  width: z.number().finite().positive('Image width must be positive'),
+  height: z.number().finite().positive('Image height must be positive'),
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().optional(),
+}).strict();
+
+/**
+ * Validates the images of a sheet
+ */
+export const imagesSchema = z.array(imageSchema);
+
+/**
+ * Validates a range of chart data, optionally qualified with a sheet name (e.g., "'Q1 Sales'!B2:B13")
+ */
+const chartRangeSchema = z.string().refine((ref) => {
+  const range = splitSheetReference(ref)?.range;
+  const bounds = range ? parseRangeReference(range) : null;
+  return bounds !== null && bounds.end.rowIndex <= MAX_ROWS && bounds.end.colIndex < MAX_COLUMNS;
+}, 'Must be a range in A1 notation, optionally with a sheet name (e.g., "Sales!B2:B13")');
+
+/**
+ * Validates an axis of a chart
+ */
+const chartAxisSchema = z.object({
+  title: z.string().optional(),
+  min: z.number().finite().optional(),
+  max: z.number().finite().optional(),
+}).strict().refine(
+  (axis) => axis.min === undefined || axis.max === undefined || axis.min < axis.max,
+  { message: 'Axis minimum must be less than its maximum', path: ['min'] },
+);
+
+/**
+ * Validates a chart of a sheet
+ * Pie charts have no axes, and only bar charts can be horizontal
+ */
+const chartSchema = z.object({
+  type: z.enum(['bar', 'line', 'pie', 'scatter', 'area']),
+  series: z.array(z.object({
+    name: z.string().optional(),
+    values: chartRangeSchema,
+    categories: chartRangeSchema.optional(),
+    color: z.string().regex(/^[0-9A-Fa-f]{8}$/, 'Color must be 8 hex characters (ARGB format)').optional(),
+  }).strict()).min(1, 'Chart needs at least one series').max(255, 'Chart cannot have more than 255 series'),
+  title: z.string().optional(),
+  anchor: cellReferenceSchema,
+  offset: z.object({
+    x: z.number().finite().min(0).optional(),
+    y: z.number().finite().min(0).optional(),
+  }).strict().optional(),
+  width: z.number().finite().positive('Chart width must be positive').optional(),
+  height: z.number().finite().positive('Chart height must be positive').optional(),
+  horizontal: z.boolean().optional(),
+  xAxis: chartAxisSchema.optional(),
+  yAxis: chartAxisSchema.optional(),
+  legend: z.union([z.enum(['right', 'left', 'top', 'bottom']), z.literal(false)]).optional(),
+  name: z.string().min(1).max(255).optional(),
+}).strict().superRefine((chart, ctx) => {
+  if (chart.horizontal && chart.type !== 'bar') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['horizontal'], message: 'Only bar charts can be horizontal' });
+  }
+  if (chart.type === 'pie' && (chart.xAxis || chart.yAxis)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [chart.xAxis ? 'xAxis' : 'yAxis'], message: 'Pie charts have no axes' });
+  }
+});
+
+/**
+ * Validates the charts of a workbook (grouped by sheet)
+ * Ranges qualified with a sheet name must point at a sheet of the workbook (case-insensitive)
+ */
+export const workbookChartsSchema = z.array(z.object({
+  name: z.string(),
+  charts: z.array(chartSchema),
+})).superRefine((sheets, ctx) => {
+  const sheetNames = new Set(sheets.map((sheet) => sheet.name.toUpperCase()));
+  sheets.forEach((sheet, sheetIndex) => {
+    sheet.charts.forEach((chart, chartIndex) => {
+      chart.series.forEach((series, seriesIndex) => {
+        for (const key of ['values', 'categories'] as const) {
+          const sheetName = series[key] !== undefined ? splitSheetReference(series[key])?.sheetName : undefined;
+          if (sheetName !== undefined && !sheetNames.has(sheetName.toUpperCase())) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [sheetIndex, 'charts', chartIndex, 'series', seriesIndex, key],
+              message: `Chart range refers to an unknown sheet: ${sheetName}`,
+            });
+          }
+        }
+      });
+    });
+  });
+});
+
+/**
+ * Validates a date time zone option: 'local', 'UTC' or a named IANA time zone (e.g., 'Europe/Berlin')
+ */
+export const timezoneSchema = z.string().refine(isValidTimezone, (timezone) => ({
+  message: `Unknown time zone: ${timezone}. Use 'local', 'UTC' or an IANA time zone such as 'Europe/Berlin'`,
+}));
@@ -2,12 +2,12 @@ import { parseSheet } from '@sheet/reader';
 import type { ZipFile, ZipEntry } from '@zip/reader';
 import { readZipEntry } from '@zip/reader';
 import { parseXmlEvents } from '@xml/parser';
-import type { Row } from '../types';
+import type { RichTextRun, Row } from '../types';
 import { parseCoreProperties, parseCustomProperties } from './properties-reader';
 import type { SharedStringsCachingStrategy } from './shared-strings-caching';
 import { parseSharedStrings } from './shared-strings-reader';
-import type { SheetProperties } from './sheet-properties-reader';
-import { parseStyles, type StyleFormatMap } from './styles-reader';
+import type { SheetHyperlink, SheetProperties } from './sheet-properties-reader';
+import { parseCellStyles, parseStyles, type CellStyleMap, type StyleFormatMap } from './styles-reader';
 import type { ReadOptions, WorkbookProperties } from './types';
 
 export type SheetInfo = {
@@ -20,7 +20,11 @@ export class Workbook {
   private zip: ZipFile;
   private readonly _sheets: Sheet[];
   private sharedStrings: SharedStringsCachingStrategy | null = null;
+  // Runs of rich text shared strings by index, only kept with the richText read option
+  private sharedRichText: Map<number, RichTextRun[]> = new Map();
   private styleFormatMap: StyleFormatMap | null = null;
+  // Resolved cell styles by style index, only loaded with the includeStyles read option
+  private cellStyles: CellStyleMap | null = null;
   private readonly options?: ReadOptions;
   private _properties: WorkbookProperties | null = null;
 
@@ -92,6 +96,7 @@ export class Workbook {
       this.sharedStrings = await parseSharedStrings(
         sharedStringsEntry,
         this.zip.zipFile,
+        this.options?.richText ? (index, runs) => this.sharedRichText.set(index, runs) : undefined,
       );
     } else {
       // Create an empty in-memory strategy when there are no shared strings
@@ -111,7 +116,16 @@ export class Workbook {
   }
 
   /**
-   * Loads styles.xml to extract format codes mapped to style indices
+   * Gets the runs of a rich text string from the shared strings table by index
+   * Only available with the richText read option, after the shared strings are loaded.
+   */
+  getSharedRichText(index: number): RichTextRun[] | undefined {
+    return this.sharedRichText.get(index);
+  }
+
+  /**
+   * Loads styles.xml to extract format codes mapped to style indices,
+   * and the resolved cell styles with the includeStyles read option
    */
   async loadStyles(): Promise<void> {
     if (this.styleFormatMap !== null) {
@@ -124,6 +138,9 @@ export class Workbook {
 
     if (stylesEntry) {
       this.styleFormatMap = await parseStyles(stylesEntry, this.zip.zipFile);
+      if (this.options?.includeStyles) {
+        this.cellStyles = await parseCellStyles(stylesEntry, this.zip.zipFile);
+      }
     } else {
       // No styles.xml found, create empty map
       this.styleFormatMap = new Map();
@@ -138,6 +155,15 @@ export class Workbook {
     return this.styleFormatMap ?? new Map();
   }
 
+  /**
+   * Gets the resolved cell styles (loaded lazily on first access)
+   * Only available with the includeStyles read option.
+   */
+  async getCellStyles(): Promise<CellStyleMap | undefined> {
+    await this.loadStyles();
+    return this.cellStyles ?? undefined;
+  }
+
   /**
    * Gets a sheet by name or index (synchronous - metadata already loaded)
    */
@@ -159,10 +185,12 @@ export class Workbook {
 
   /**
    * Reads rows from a sheet entry
+   * @param hyperlinks - Hyperlinks of the sheet, attached to the cells they cover
    */
-  async *readSheetRows(entry: ZipEntry): AsyncIterable<Row> {
+  async *readSheetRows(entry: ZipEntry, hyperlinks?: SheetHyperlink[]): AsyncIterable<Row> {
     await this.loadSharedStrings();
     const styleFormatMap = await this.getStyleFormatMap();
+    const cellStyles = await this.getCellStyles();
 
     // Stream XML directly from ZIP to parser (no accumulation)
     yield* parseSheet(
@@ -170,6 +198,9 @@ export class Workbook {
       (index: number) => this.getSharedString(index),
       this.options,
       styleFormatMap,
+      hyperlinks,
+      (index: number) => this.getSharedRichText(index),
+      cellStyles,
     );
   }
 
@@ -194,6 +225,7 @@ export class Workbook {
       }
       this.sharedStrings = null;
     }
+    this.sharedRichText.clear();
 
     // Close the zip file
     if (this.zip?.zipFile) {
@@ -222,7 +254,7 @@ export class Sheet {
    * Returns rows as async iterable (always array-based format)
    */
   async *rows(): AsyncIterable<Row> {
-    yield* this.workbook.readSheetRows(this.entry);
+    yield* this.workbook.readSheetRows(this.entry, this._properties?.hyperlinks);
   }
 
   /**
@@ -260,6 +292,56 @@ export class Sheet {
     return this._properties?.rowHeights;
   }
 
+  /**
+   * Gets merged cell ranges in A1 notation (e.g., "A1:D1")
+   */
+  get mergedCells(): SheetProperties['mergedCells'] {
+    return this._properties?.mergedCells;
+  }
+
+  /**
+   * Gets view settings (frozen panes, zoom, gridlines, selection)
+   */
+  get view(): SheetProperties['view'] {
+    return this._properties?.view;
+  }
+
+  /**
+   * Gets the autoFilter range in A1 notation (e.g., "A1:D100")
+   */
+  get autoFilter(): string | undefined {
+    return this._properties?.autoFilter;
+  }
+
+  /**
+   * Gets the Excel tables of the sheet with their ranges and column names
+   */
+  get tables(): SheetProperties['tables'] {
+    return this._properties?.tables;
+  }
+
+  /**
+   * Gets the hyperlinks of the sheet by cell or range (also available on the cells read by rows())
+   */
+  get hyperlinks(): SheetProperties['hyperlinks'] {
+    return this._properties?.hyperlinks;
+  }
+
+  /**
+   * Gets the comments of the sheet keyed by cell reference (e.g., { B2: { author: 'Ann', text: 'Adjusted' } })
+   */
+  get comments(): SheetProperties['comments'] {
+    return this._properties?.comments;
+  }
+
+  /**
+   * Gets the pictures of the sheet with their anchor cells, offsets and sizes in pixels
+   * The media bytes are read on demand with getData(), before the workbook is cleaned up.
+   */
+  get images(): SheetProperties['images'] {
+    return this._properties?.images;
+  }
+
   /**
    * Gets whether the sheet is hidden
    */
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // noinspection HtmlDeprecatedTag,XmlDeprecatedElement
 // noinspection XmlDeprecatedElement
-import { cell } from '@sheet/cell';
+import { cell, cellFromDate } from '@sheet/cell';
 import { row } from '@sheet/row';
 import { openZip, readZipEntry } from '@zip/reader';
 import { describe, test, expect, afterEach } from '@tests/framework';
@@ -435,4 +435,89 @@ describe('XLSXWriter - Styles', () => {
       }
     });
   });
+
+  describe('Fills, Borders and Alignment', () => {
+    test('should write a shaded, bordered and centered header row', async () => {
+      const headerStyle = {
+        font: { bold: true },
+        fill: { backgroundColor: 'FFD9E1F2' },
+        border: { bottom: { style: 'medium' as const } },
+        alignment: { horizontal: 'center' as const, wrapText: true },
+      };
+
+      await writeXlsx(testFile, {
+        sheets: [{
+          name: 'Report',
+          rows: (async function* () {
+            yield row([
+              { ...cell('Account'), style: headerStyle },
+              { ...cell('Balance'), style: headerStyle },
+            ]);
+            yield row([cell('Cash'), cell(1200)]);
+          })(),
+        }],
+      });
+
+      const buffer = await readFile(testFile);
+      const zipFile = await openZip(buffer);
+      const stylesEntry = zipFile.entries.find(e => e.fileName === 'xl/styles.xml');
+      expect(stylesEntry).toBeDefined();
+
+      if (stylesEntry) {
+        const xml = await bytesToString(readZipEntry(stylesEntry, zipFile.zipFile));
+        expect(xml).toContain('<fgColor rgb="FFD9E1F2"/>');
+        expect(xml).toContain('<bottom style="medium">');
+        expect(xml).toContain(
+          '<xf numFmtId="0" fontId="1" fillId="2" borderId="1" applyFont="1" applyFill="1" applyBorder="1" applyAlignment="1">' +
+          '<alignment horizontal="center" wrapText="1"/></xf>',
+        );
+      }
+
+      // Styled cells stay readable
+      await using workbook = await readXlsx(testFile);
+      const rows = [];
+      for await (const r of workbook.sheet(0).rows()) {
+        rows.push(r.cells.map(c => c?.value));
+      }
+      expect(rows).toEqual([['Account', 'Balance'], ['Cash', 1200]]);
+    });
+  });
+
+  describe('Number Formats', () => {
+    test('should format dates by default and apply explicit number formats', async () => {
+      await writeXlsx(testFile, {
+        sheets: [{
+          name: 'Formats',
+          rows: (async function* () {
+            yield row([
+              cellFromDate(new Date(2024, 0, 15)),
+              { ...cell(1234.5), style: { numberFormat: '#,##0.00 "EUR"' } },
+              { ...cell(0.25), style: { numberFormat: 10 } },
+            ]);
+          })(),
+        }],
+      });
+
+      const buffer = await readFile(testFile);
+      const zipFile = await openZip(buffer);
+      const stylesEntry = zipFile.entries.find(e => e.fileName === 'xl/styles.xml');
+      expect(stylesEntry).toBeDefined();
+
+      if (stylesEntry) {
+        const xml = await bytesToString(readZipEntry(stylesEntry, zipFile.zipFile));
+        expect(xml).toContain('<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>');
+        expect(xml).toContain('<numFmt numFmtId="165" formatCode="#,##0.00 &quot;EUR&quot;"/>');
+        expect(xml).toContain('<xf numFmtId="10"');
+      }
+
+      // Dates are recognized through their number format when read back
+      await using workbook = await readXlsx(testFile);
+      for await (const r of workbook.sheet(0).rows()) {
+        expect(r.cells[0]?.type).toBe('date');
+        expect(r.cells[0]?.value).toEqual(new Date(2024, 0, 15));
+        expect(r.cells[1]?.value).toBe(1234.5);
+        expect(r.cells[2]?.value).toBe(0.25);
+      }
+    });
+  });
 });
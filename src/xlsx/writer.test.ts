@@ -1,11 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { Writable } from 'stream';
 import { cell } from '@sheet/cell';
 import { row } from '@sheet/row';
 import { describe, test, expect, afterEach } from '@tests/framework';
 import { cleanupTestFiles } from '@tests/helpers';
 import { readXlsx } from './reader';
-import { writeXlsx } from './writer';
-import { fileExists, readFile } from '../adapters';
+import type { WorkbookDefinition } from './types';
+import { writeXlsx, writeXlsxToBuffer, writeXlsxToBytes, writeXlsxToStream, writeXlsxToWritable } from './writer';
+import { bytesToString, bytesToUint8Array, fileExists, readFile } from '../adapters';
 
 describe('XLSXWriter', () => {
   const testFile = 'test-output.xlsx';
@@ -144,6 +146,51 @@ describe('XLSXWriter', () => {
 
   });
 
+  test('should stream sheets larger than the stream buffers', async () => {
+    // Large enough that the sheet XML cannot fit into the ZIP stream buffers at once
+    const rowCount = 20000;
+    await writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Large',
+          rows: (async function* () {
+            for (let i = 0; i < rowCount; i++) {
+              yield row([cell(`Row${i}`), cell(i), cell(i % 2 === 0 ? 'even' : 'odd')]);
+            }
+          })(),
+        },
+      ],
+    });
+
+    const workbook = await readXlsx(testFile);
+    let count = 0;
+    for await (const r of workbook.sheet('Large').rows()) {
+      expect(r.cells[1]?.value).toBe(count);
+      count++;
+    }
+    expect(count).toBe(rowCount);
+    await workbook.cleanup();
+  });
+
+  test('should reject and remove the partial file when rows fail', async () => {
+    const result = writeXlsx(testFile, {
+      sheets: [
+        {
+          name: 'Broken',
+          rows: (async function* () {
+            for (let i = 0; i < 5000; i++) {
+              yield row([cell(`Row${i}`)]);
+            }
+            throw new Error('source failed');
+          })(),
+        },
+      ],
+    });
+
+    await expect(result).rejects.toThrow('source failed');
+    expect(await fileExists(testFile)).toBe(false);
+  });
+
   test('should support WriterOptions.sharedStrings inline (default)', async () => {
     await writeXlsx(
       testFile,
@@ -781,4 +828,127 @@ describe('XLSXWriter', () => {
       expect(await fileExists(testFile)).toBe(true);
     });
   });
+
+  describe('Output Targets', () => {
+    const definition = (): WorkbookDefinition => ({
+      sheets: [
+        {
+          name: 'Data',
+          rows: (async function* () {
+            yield row([cell('Name'), cell('Age')]);
+            yield row([cell('Alice'), cell(30)]);
+          })(),
+        },
+      ],
+    });
+
+    async function readSheetXml(archive: Uint8Array): Promise<string> {
+      const { openZip, readZipEntry } = await import('@zip/reader');
+      const zipFile = await openZip(Buffer.from(archive));
+      const entry = zipFile.entries.find((e) => e.fileName === 'xl/worksheets/sheet1.xml')!;
+      const xml = await bytesToString(readZipEntry(entry, zipFile.zipFile));
+      zipFile.zipFile.close();
+      return xml;
+    }
+
+    test('should write workbook to an in-memory buffer', async () => {
+      const archive = await writeXlsxToBuffer(definition());
+
+      expect(archive).toBeInstanceOf(Uint8Array);
+      expect(new TextDecoder().decode(archive.slice(0, 2))).toBe('PK');
+      expect(await readSheetXml(archive)).toContain('<t>Alice</t>');
+    });
+
+    test('should produce the same archive contents as writeXlsx', async () => {
+      await writeXlsx(testFile, definition());
+      const fromFile = await readSheetXml(await readFile(testFile));
+      const fromBuffer = await readSheetXml(await writeXlsxToBuffer(definition()));
+      expect(fromBuffer).toBe(fromFile);
+    });
+
+    test('should write workbook as AsyncIterable<Uint8Array>', async () => {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of writeXlsxToBytes(definition())) {
+        chunks.push(chunk);
+      }
+      expect(chunks.length).toBeGreaterThan(0);
+
+      const archive = await bytesToUint8Array((async function* () {
+        yield* chunks;
+      })());
+      expect(await readSheetXml(archive)).toContain('<v>30</v>');
+    });
+
+    test('should close the row source when iteration stops early', async () => {
+      let started = false;
+      let closed = false;
+      const endless: WorkbookDefinition = {
+        sheets: [{
+          name: 'Endless',
+          rows: (async function* () {
+            try {
+              for (let i = 1; ; i++) {
+                started = true;
+                yield row([cell(`Row ${i}`), cell(i)]);
+              }
+            } finally {
+              closed = true;
+            }
+          })(),
+        }],
+      };
+
+      for await (const _chunk of writeXlsxToBytes(endless)) {
+        if (started) {
+          break;
+        }
+      }
+      expect(closed).toBe(true);
+    });
+
+    test('should write workbook as a web ReadableStream', async () => {
+      const stream = writeXlsxToStream(definition(), { sharedStrings: 'shared' });
+      const archive = new Uint8Array(await new Response(stream).arrayBuffer());
+      expect(await readSheetXml(archive)).toContain('t="s"');
+    });
+
+    test('should write workbook into a Node.js Writable', async () => {
+      const received: Buffer[] = [];
+      let ended = false;
+      const destination = new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          received.push(chunk);
+          callback();
+        },
+        final(callback) {
+          ended = true;
+          callback();
+        },
+      });
+
+      await writeXlsxToWritable(destination, definition());
+
+      expect(ended).toBe(true);
+      expect(await readSheetXml(Buffer.concat(received))).toContain('<t>Name</t>');
+    });
+
+    test('should surface row errors from streaming targets', async () => {
+      const failing: WorkbookDefinition = {
+        sheets: [{
+          name: 'Broken',
+          rows: (async function* () {
+            yield row([cell('ok')]);
+            throw new Error('source failed');
+          })(),
+        }],
+      };
+      await expect(writeXlsxToBuffer(failing)).rejects.toThrow('source failed');
+    });
+
+    test('should validate definitions before streaming starts', () => {
+      expect(() => writeXlsxToStream({
+        sheets: [{ name: 'Invalid/Name', rows: (async function* () {})() }],
+      })).toThrow();
+    });
+  });
 });
@@ -1,94 +1,283 @@
-import { collect } from '@utils/transforms';
-import { createZipWriter, writeZipEntry, endZipWriter } from '@zip/writer';
-import { resolveCell } from '@xml/cell-resolver';
+import type { Writable } from 'stream';
+import type * as yazl from 'yazl';
+import { getCellReference, getRangeReference, parseRangeReference, rangesOverlap } from '@utils/cell-reference';
+import { abortZipWriter, createZipWriter, pipeZipWriter, writeZipEntry, zipOutputToBytes } from '@zip/writer';
+import { resolveTableColumnNames } from '@xml/table-headers';
 import { writeSheetXml } from '@xml/writer';
+import { generateChart } from './charts';
+import { generateComments, generateVmlDrawing, getVmlShapeBlockCount } from './comments';
+import { detectImageFormat, generateDrawing } from './drawings';
 import { SharedStringsTable } from './shared-strings';
-import { generateContentTypes, generateRels, generateWorkbook, generateWorkbookRels, generateCoreProperties, generateCustomProperties } from './structure';
+import { generateContentTypes, generateRels, generateWorkbook, generateWorkbookRels, generateCoreProperties, generateCustomProperties, generateMetadata, generateSheetRels, generateDrawingRels } from './structure';
 import { StyleRegistry } from './styles';
+import { generateTable } from './tables';
 import type { WorkbookDefinition, WriterOptions } from './types';
-import { sheetNameSchema, workbookPropertiesSchema } from './validation';
-import { writeFile } from '../adapters';
-import { stringToBytes } from '../adapters';
-import type { Row, Style } from '../types';
+import { autoFilterSchema, commentsSchema, conditionalFormatsSchema, dataValidationsSchema, getMergedCellBounds, imagesSchema, mergedCellsSchema, sheetNameSchema, sheetViewSchema, timezoneSchema, workbookChartsSchema, workbookPropertiesSchema, workbookTablesSchema } from './validation';
+import { createFileWriteStream, deleteFile, fileExists } from '../adapters';
+import { bytesToReadableStream, bytesToUint8Array, stringsToBytes, stringToBytes, uint8ArrayToBytes } from '../adapters';
+import type { RichTextRun, Style } from '../types';
 
 /**
- * Builds shared strings table from all rows
+ * Writes an XLSX file from a workbook definition
+ *
+ * The archive is streamed straight to the file: sheet XML is produced row by row and
+ * compressed into the ZIP as it is generated, so memory use does not grow with row count.
+ * If writing fails, the partially written file is removed.
+ * @throws {z.ZodError} If validation fails (sheet names, properties, etc.)
  */
-function buildSharedStringsTable(allRows: Row[]): SharedStringsTable {
-  const table = new SharedStringsTable();
-  for (const row of allRows) {
-    for (const cell of row.cells) {
-      if (cell !== undefined && cell !== null) {
-        const resolved = resolveCell(cell);
-        if (resolved.t === 's') {
-          table.addString(resolved.v as string);
-        }
-      }
+export async function writeXlsx(
+  filePath: string,
+  definition: WorkbookDefinition,
+  options?: WriterOptions,
+): Promise<void> {
+  validateWorkbookDefinition(definition, options);
+
+  const destination = await createFileWriteStream(filePath);
+  try {
+    await pipeWorkbook(destination, definition, options);
+  } catch (error) {
+    if (await fileExists(filePath)) {
+      await deleteFile(filePath);
     }
+    throw error;
   }
-  return table;
 }
 
 /**
- * Writes an XLSX file from a workbook definition
+ * Writes an XLSX workbook into a Node.js Writable (e.g. an HTTP response or upload stream)
+ * The destination is ended once the workbook is complete, and destroyed if writing fails.
  * @throws {z.ZodError} If validation fails (sheet names, properties, etc.)
  */
-export async function writeXlsx(
-  filePath: string,
+export async function writeXlsxToWritable(
+  destination: Writable,
+  definition: WorkbookDefinition,
+  options?: WriterOptions,
+): Promise<void> {
+  validateWorkbookDefinition(definition, options);
+  await pipeWorkbook(destination, definition, options);
+}
+
+/**
+ * Writes an XLSX workbook as AsyncIterable<Uint8Array>
+ * Nothing is generated until iteration starts; the archive is produced as it is consumed.
+ * @throws {z.ZodError} If validation fails (thrown immediately, before iteration)
+ */
+export function writeXlsxToBytes(
+  definition: WorkbookDefinition,
+  options?: WriterOptions,
+): AsyncIterable<Uint8Array> {
+  validateWorkbookDefinition(definition, options);
+  return generateWorkbookBytes(definition, options);
+}
+
+/**
+ * Writes an XLSX workbook as a web ReadableStream
+ * Suitable as a Response body in Bun.serve, Deno or fetch-style handlers.
+ * @throws {z.ZodError} If validation fails (thrown immediately, before streaming)
+ */
+export function writeXlsxToStream(
+  definition: WorkbookDefinition,
+  options?: WriterOptions,
+): ReadableStream<Uint8Array> {
+  return bytesToReadableStream(writeXlsxToBytes(definition, options));
+}
+
+/**
+ * Writes an XLSX workbook into a single in-memory Uint8Array
+ * Convenient for small workbooks; prefer the streaming variants for large exports.
+ * @throws {z.ZodError} If validation fails (sheet names, properties, etc.)
+ */
+export async function writeXlsxToBuffer(
+  definition: WorkbookDefinition,
+  options?: WriterOptions,
+): Promise<Uint8Array> {
+  return bytesToUint8Array(writeXlsxToBytes(definition, options));
+}
+
+/**
+ * Streams the workbook archive into a Writable
+ */
+async function pipeWorkbook(
+  destination: Writable,
   definition: WorkbookDefinition,
   options?: WriterOptions,
 ): Promise<void> {
+  const zipWriter = createZipWriter();
+  const output = pipeZipWriter(zipWriter, destination);
+
+  try {
+    // Wait on both sides so a failing destination (e.g. disk full) aborts the write
+    // instead of leaving entries blocked on a stream nobody drains
+    await Promise.all([
+      writeWorkbookEntries(zipWriter, definition, options).then(() => zipWriter.end()),
+      output,
+    ]);
+  } catch (error) {
+    abortZipWriter(zipWriter);
+    await output.catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Generates the workbook archive chunk by chunk
+ */
+async function* generateWorkbookBytes(
+  definition: WorkbookDefinition,
+  options?: WriterOptions,
+): AsyncIterable<Uint8Array> {
+  const zipWriter = createZipWriter();
+  // Entries are written concurrently with consumption; a failure surfaces as an error
+  // on the output stream, which rethrows from the iteration below
+  const writing = writeWorkbookEntries(zipWriter, definition, options).then(
+    () => zipWriter.end(),
+    (error: Error) => abortZipWriter(zipWriter, error),
+  );
+
+  let complete = false;
+  try {
+    yield* zipOutputToBytes(zipWriter);
+    await writing;
+    complete = true;
+  } finally {
+    // The consumer stopped early (break, stream cancel) or the output failed:
+    // abort so the row sources are closed instead of waiting for a reader forever
+    if (!complete) {
+      abortZipWriter(zipWriter);
+      await writing.catch(() => {});
+    }
+  }
+}
+
+/**
+ * Validates a workbook definition and the writer options before anything is written
+ * @throws {z.ZodError} If validation fails (sheet names, merged cells, properties, etc.)
+ */
+function validateWorkbookDefinition(definition: WorkbookDefinition, options: WriterOptions | undefined): void {
+  if (options?.timezone !== undefined) {
+    timezoneSchema.parse(options.timezone);
+  }
+
   // Validate sheet names
   for (const sheet of definition.sheets) {
     sheetNameSchema.parse(sheet.name);
+    if (sheet.mergedCells) {
+      mergedCellsSchema.parse(sheet.mergedCells);
+    }
+    if (sheet.view) {
+      sheetViewSchema.parse(sheet.view);
+    }
+    if (sheet.autoFilter !== undefined) {
+      autoFilterSchema.parse(sheet.autoFilter);
+    }
+    if (sheet.conditionalFormats) {
+      conditionalFormatsSchema.parse(sheet.conditionalFormats);
+    }
+    if (sheet.dataValidations) {
+      dataValidationsSchema.parse(sheet.dataValidations);
+    }
+    if (sheet.comments) {
+      commentsSchema.parse(sheet.comments);
+    }
+    if (sheet.images) {
+      imagesSchema.parse(sheet.images);
+    }
   }
 
+  // Validate tables (names are unique across sheets)
+  workbookTablesSchema.parse(definition.sheets.map((sheet) => ({
+    tables: sheet.tables ?? [],
+    autoFilter: sheet.autoFilter,
+    mergedCells: sheet.mergedCells,
+  })));
+
+  // Validate charts (their ranges may point at other sheets)
+  workbookChartsSchema.parse(definition.sheets.map((sheet) => ({ name: sheet.name, charts: sheet.charts ?? [] })));
+
   // Validate workbook properties if provided
   if (definition.properties) {
     workbookPropertiesSchema.parse(definition.properties);
   }
+}
 
+/**
+ * Writes all workbook parts into a ZIP writer
+ * Sheets are written first so that shared strings and styles, which are collected while
+ * the sheets stream through, are complete when their parts are generated.
+ */
+async function writeWorkbookEntries(
+  zipWriter: yazl.ZipFile,
+  definition: WorkbookDefinition,
+  options?: WriterOptions,
+): Promise<void> {
   const opts = {
     sharedStrings: 'inline' as const,
     ...options,
   };
 
-  const zipWriter = createZipWriter();
-
-  // Write each sheet
-  const sheetInfos = definition.sheets.map((sheetDef, index) => ({
+  // Table ids are unique within the workbook and numbered across sheets in order
+  let nextTableId = 1;
+  // Media files (xl/media/imageN.png) are numbered across the workbook
+  let nextImageId = 1;
+  // Chart parts (xl/charts/chartN.xml) are numbered across the workbook
+  let nextChartId = 1;
+  const sheetInfos: {
+    name: string;
+    id: number;
+    hidden: boolean;
+    autoFilter?: string;
+    tableIds: number[];
+    hasComments: boolean;
+    hasDrawing: boolean;
+    mediaExtensions: string[];
+    chartIds: number[];
+  }[] = definition.sheets.map((sheetDef, index) => ({
     name: sheetDef.name,
     id: index + 1,
     hidden: sheetDef.hidden ?? false,
+    tableIds: (sheetDef.tables ?? []).map(() => nextTableId++),
+    hasComments: Object.keys(sheetDef.comments ?? {}).length > 0,
+    hasDrawing: (sheetDef.images ?? []).length > 0 || (sheetDef.charts ?? []).length > 0,
+    mediaExtensions: (sheetDef.images ?? []).map((image) => detectImageFormat(image.data)!),
+    chartIds: (sheetDef.charts ?? []).map(() => nextChartId++),
   }));
 
-  let sharedStringsTable: SharedStringsTable | null = null;
-  let styleRegistry: StyleRegistry | null = null;
-  const allSheetRows: Row[][] = [];
-
-  // Collect rows only if shared strings are enabled (styles are registered incrementally)
-  // Note: We build shared strings before styles are registered. This is safe because:
-  // - String values are currently independent of styles (no number formats, locale formatting)
-  // - If we later add format-dependent stringification (number formats, locale), shared strings
-  //   may need to be built after style registration or become format-aware.
-  if (opts.sharedStrings === 'shared') {
-    // Collect all rows for shared strings table
-    for (let i = 0; i < definition.sheets.length; i++) {
-      const sheetDef = definition.sheets[i]!;
-      const rows = await collect<Row>(sheetDef.rows);
-      allSheetRows.push(rows);
-    }
-    sharedStringsTable = buildSharedStringsTable(allSheetRows.flat());
-  }
+  // VML shape ids must be unique within the workbook, so each legacy drawing reserves its own blocks
+  let nextVmlShapeBlock = 1;
+
+  // Shared strings are registered incrementally as cells are written, like styles.
+  // sharedStrings.xml is only written after all sheets, so indices can be handed out on the fly.
+  const sharedStringsTable = opts.sharedStrings === 'shared' ? new SharedStringsTable() : null;
 
   // Create style registry for incremental style registration during sheet writing
-  styleRegistry = new StyleRegistry();
+  const styleRegistry = new StyleRegistry();
+
+  // Dynamic array formulas need xl/metadata.xml, which is only written if a sheet used one
+  let hasDynamicArrays = false;
+  const onDynamicArrayFormula = () => {
+    hasDynamicArrays = true;
+  };
 
   // Write each sheet
   for (let i = 0; i < definition.sheets.length; i++) {
     const sheetDef = definition.sheets[i]!;
     const sheetId = i + 1;
 
+    const tables = sheetDef.tables ?? [];
+    const tableIds = sheetInfos[i]!.tableIds;
+    const tableParts: { id: number; xml: string }[] = [];
+    // Comments need two relationships (legacy drawing and comments part), numbered after the tables
+    const hasComments = sheetInfos[i]!.hasComments;
+    const commentRelationshipCount = hasComments ? 2 : 0;
+    // The drawing with the sheet's pictures and charts is numbered after the comments
+    const images = sheetDef.images ?? [];
+    const charts = sheetDef.charts ?? [];
+    const chartIds = sheetInfos[i]!.chartIds;
+    const hasDrawing = sheetInfos[i]!.hasDrawing;
+    const drawingRelationshipCount = hasDrawing ? 1 : 0;
+    // External hyperlink targets of the sheet, numbered after the tables, comments and drawing in the sheet's relationships
+    const hyperlinkUrls: string[] = [];
+
     // Prepare column width options
     const columnWidthOptions = {
       defaultColumnWidth: sheetDef.defaultColumnWidth,
@@ -103,46 +292,119 @@ export async function writeXlsx(
     };
 
     // Generate sheet XML
-    // Styles are registered incrementally as cells are written (preserves streaming)
-    const getStringIndex = opts.sharedStrings === 'shared' && sharedStringsTable
-      ? (str: string) => sharedStringsTable!.getIndex(str)
+    // Styles and shared strings are registered incrementally as cells are written (preserves streaming)
+    const getStringIndex = sharedStringsTable
+      ? (str: string | RichTextRun[]) => sharedStringsTable.addString(str)
       : undefined;
     // getStyleIndex is always provided (StyleRegistry is always created)
     // It's only called when a cell has a style, and returns the cellXfs index (>= 1)
     const getStyleIndex = (style: Style) => {
       // Register style incrementally and return its cellXfs index
       // StyleRegistry handles the offset internally (index 0 is reserved for default style)
-      return styleRegistry!.addStyle(style);
+      return styleRegistry.addStyle(style);
     };
 
-    // Use collected rows if shared strings enabled, otherwise stream original rows
-    const rowsToWrite = opts.sharedStrings === 'shared' && allSheetRows[i]
-      ? (async function* () {
-        for (const row of allSheetRows[i]!) yield row;
-      })()
-      : sheetDef.rows;
-
-    const sheetXml = writeSheetXml(rowsToWrite, {
+    const sheetXml = writeSheetXml(sheetDef.rows, {
       getStringIndex,
       getStyleIndex,
       columnWidths: columnWidthOptions,
       ...rowHeightOptions,
+      shareFormulas: opts.shareFormulas ?? false,
+      dates: { timezone: opts.timezone, date1904: opts.dateSystem === '1904' },
+      onDynamicArrayFormula,
+      mergedCells: sheetDef.mergedCells?.map((mergedCell) => {
+        const { start, end } = getMergedCellBounds(mergedCell);
+        return getRangeReference(start.rowIndex, start.colIndex, end.rowIndex, end.colIndex);
+      }),
+      view: sheetDef.view,
+      // The resolved range is needed for the _xlnm._FilterDatabase name in workbook.xml
+      autoFilter: sheetDef.autoFilter,
+      onAutoFilter: (range: string) => {
+        sheetInfos[i]!.autoFilter = range;
+      },
+      // Table parts are generated once the sheet has resolved their ranges and header names
+      tables: tables.map((table, index) => ({ definition: table, relationshipId: `rId${index + 1}` })),
+      conditionalFormats: sheetDef.conditionalFormats,
+      getDifferentialStyleIndex: (style: Style) => styleRegistry.addDifferentialStyle(style),
+      dataValidations: sheetDef.dataValidations,
+      // Like Excel, every hyperlink gets its own relationship, even when targets repeat
+      getHyperlinkRelationshipId: (url: string) => `rId${tables.length + commentRelationshipCount + drawingRelationshipCount + hyperlinkUrls.push(url)}`,
+      drawingRelationshipId: hasDrawing ? `rId${tables.length + commentRelationshipCount + 1}` : undefined,
+      legacyDrawingRelationshipId: hasComments ? `rId${tables.length + 1}` : undefined,
+      onTable: (index, { range, headerNames }) => {
+        const table = tables[index]!;
+        const { start, end } = parseRangeReference(range)!;
+        const columnCount = end.colIndex - start.colIndex + 1;
+        // Explicit ranges are checked by workbookTablesSchema, the written range only now
+        if (sheetDef.mergedCells?.some((mergedCell) => rangesOverlap({ start, end }, getMergedCellBounds(mergedCell)))) {
+          throw new Error(`Table "${table.name}": range ${range} overlaps merged cells`);
+        }
+        const columnNames = resolveTableColumnNames(table, headerNames, columnCount);
+        // Header cells get the column names as they are written; a header row written before
+        // the range was known (e.g., out of order rows) cannot be fixed afterwards
+        const mismatch = columnNames.findIndex((name, i) => name !== headerNames[i]);
+        if (mismatch !== -1) {
+          const ref = getCellReference(start.rowIndex, start.colIndex + mismatch);
+          throw new Error(`Table "${table.name}": header cell ${ref} must contain the column name "${columnNames[mismatch]}"`);
+        }
+        tableParts.push({
+          id: tableIds[index]!,
+          xml: generateTable(tableIds[index]!, table, range, columnNames),
+        });
+      },
     });
-    // Note: We stream row computation (process rows one at a time), but buffer the XML output
-    // before writing to ZIP. This is acceptable for now, but means full sheet XML is in memory.
-    // Future optimization: stream XML chunks directly to ZIP without full buffering.
-    const xmlStrings = await collect<string>(sheetXml);
 
-    // Write sheet XML to ZIP
+    // Stream sheet XML chunks straight into the ZIP entry
     await writeZipEntry(
       zipWriter,
       `xl/worksheets/sheet${sheetId}.xml`,
-      stringToBytes(xmlStrings.join('')),
+      stringsToBytes(sheetXml),
     );
+
+    // Write the sheet's tables, comments and the relationships that link them and hyperlink targets to the sheet
+    for (const tablePart of tableParts) {
+      await writeZipEntry(zipWriter, `xl/tables/table${tablePart.id}.xml`, stringToBytes(tablePart.xml));
+    }
+    if (hasComments) {
+      const comments = sheetDef.comments!;
+      await writeZipEntry(zipWriter, `xl/comments${sheetId}.xml`, stringToBytes(generateComments(comments)));
+      await writeZipEntry(
+        zipWriter,
+        `xl/drawings/vmlDrawing${sheetId}.vml`,
+        stringToBytes(generateVmlDrawing(comments, nextVmlShapeBlock)),
+      );
+      nextVmlShapeBlock += getVmlShapeBlockCount(Object.keys(comments).length);
+    }
+    if (hasDrawing) {
+      const mediaFiles = images.map((_, index) => `image${nextImageId++}.${sheetInfos[i]!.mediaExtensions[index]}`);
+      for (let index = 0; index < images.length; index++) {
+        await writeZipEntry(zipWriter, `xl/media/${mediaFiles[index]}`, uint8ArrayToBytes(images[index]!.data));
+      }
+      for (let index = 0; index < charts.length; index++) {
+        await writeZipEntry(zipWriter, `xl/charts/chart${chartIds[index]}.xml`, stringToBytes(generateChart(charts[index]!, sheetDef.name)));
+      }
+      // The drawing's relationships list the pictures first, then the charts
+      await writeZipEntry(
+        zipWriter,
+        `xl/drawings/drawing${sheetId}.xml`,
+        stringToBytes(generateDrawing(
+          images.map((image, index) => ({ definition: image, relationshipId: `rId${index + 1}` })),
+          charts.map((chart, index) => ({ definition: chart, relationshipId: `rId${images.length + index + 1}` })),
+        )),
+      );
+      await writeZipEntry(zipWriter, `xl/drawings/_rels/drawing${sheetId}.xml.rels`, stringToBytes(generateDrawingRels(mediaFiles, chartIds)));
+    }
+    if (tableIds.length > 0 || hasComments || hasDrawing || hyperlinkUrls.length > 0) {
+      await writeZipEntry(
+        zipWriter,
+        `xl/worksheets/_rels/sheet${sheetId}.xml.rels`,
+        stringToBytes(generateSheetRels(tableIds, hyperlinkUrls, hasComments ? sheetId : undefined, hasDrawing ? sheetId : undefined)),
+      );
+    }
   }
 
   // Write shared strings if enabled
-  if (opts.sharedStrings === 'shared' && sharedStringsTable) {
+  if (sharedStringsTable) {
     await writeZipEntry(
       zipWriter,
       'xl/sharedStrings.xml',
@@ -151,7 +413,9 @@ export async function writeXlsx(
   }
 
   // Write styles.xml if any styles were registered (generated from registry, not all rows)
-  if (styleRegistry.getCount() > 0) {
+  // Conditional formats register differential styles, which also live in styles.xml
+  const hasStyles = styleRegistry.getCount() > 0 || styleRegistry.getDifferentialCount() > 0;
+  if (hasStyles) {
     await writeZipEntry(
       zipWriter,
       'xl/styles.xml',
@@ -159,6 +423,15 @@ export async function writeXlsx(
     );
   }
 
+  // Write metadata.xml if any dynamic array formula was written
+  if (hasDynamicArrays) {
+    await writeZipEntry(
+      zipWriter,
+      'xl/metadata.xml',
+      stringToBytes(generateMetadata()),
+    );
+  }
+
   // Write core properties if provided
   const hasProperties = definition.properties !== undefined;
   const hasCustomProps = definition.properties?.customProperties !== undefined &&
@@ -185,7 +458,6 @@ export async function writeXlsx(
   }
 
   // Write structure files
-  const hasStyles = styleRegistry.getCount() > 0;
   const hasSharedStrings = opts.sharedStrings === 'shared';
 
   // Calculate relationship ID offset for sheets (sheets come after shared strings and styles)
@@ -195,7 +467,7 @@ export async function writeXlsx(
   await writeZipEntry(
     zipWriter,
     '[Content_Types].xml',
-    stringToBytes(generateContentTypes(sheetInfos, hasSharedStrings, hasProperties, hasCustomProps, hasStyles)),
+    stringToBytes(generateContentTypes(sheetInfos, hasSharedStrings, hasProperties, hasCustomProps, hasStyles, hasDynamicArrays)),
   );
 
   await writeZipEntry(
@@ -207,16 +479,12 @@ export async function writeXlsx(
   await writeZipEntry(
     zipWriter,
     'xl/workbook.xml',
-    stringToBytes(generateWorkbook(sheetInfos, idOffset)),
+    stringToBytes(generateWorkbook(sheetInfos, idOffset, opts.dateSystem === '1904')),
   );
 
   await writeZipEntry(
     zipWriter,
     'xl/_rels/workbook.xml.rels',
-    stringToBytes(generateWorkbookRels(sheetInfos, hasSharedStrings, hasStyles)),
+    stringToBytes(generateWorkbookRels(sheetInfos, hasSharedStrings, hasStyles, hasDynamicArrays)),
   );
-
-  // Write ZIP to file
-  const buffer = await endZipWriter(zipWriter);
-  await writeFile(filePath, buffer);
 }
@@ -1,17 +1,73 @@
+import { DATE_1904_OFFSET, dateToExcelSerial, type DateSerialOptions } from '@sheet/cell';
+import { MILLISECONDS_IN_DAY, parseIsoDuration } from '@utils/dates';
 import type { Cell, CellResolved } from '../types';
 
+/**
+ * Error values Excel can store as a cached formula result (t="e")
+ */
+const EXCEL_ERROR_VALUES = new Set([
+  '#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A', '#GETTING_DATA', '#SPILL!', '#CALC!',
+]);
+
+/**
+ * Resolves a formula cell: the formula plus the type and value of its cached result
+ */
+function resolveFormulaCell(cell: Cell, dates: DateSerialOptions | undefined): CellResolved {
+  const rawFormula = cell.formula ?? String(cell.value ?? '');
+  const f = rawFormula.startsWith('=') ? rawFormula.slice(1) : rawFormula;
+  const cached = cell.computedValue;
+
+  if (cached === null || cached === undefined) {
+    return { t: 'n', v: '', f };
+  }
+  if (typeof cached === 'boolean') {
+    return { t: 'b', v: cached ? 1 : 0, f };
+  }
+  if (typeof cached === 'number') {
+    return { t: 'n', v: cached, f };
+  }
+  if (cached instanceof Date) {
+    return { t: 'n', v: dateToExcelSerial(cached, dates), f };
+  }
+  return { t: EXCEL_ERROR_VALUES.has(cached) ? 'e' : 'str', v: cached, f };
+}
+
 /**
  * Converts a Cell to CellResolved format for XML serialization
+ * @param dates - Time zone and date system of the serial numbers written for dates (default: local, 1900)
  */
-export function resolveCell(cell: Cell): CellResolved {
+export function resolveCell(cell: Cell, dates?: DateSerialOptions): CellResolved {
+  // Formula cells carry their formula in addition to the cached result
+  if (cell.type === 'formula') {
+    return resolveFormulaCell(cell, dates);
+  }
+
   // Handle empty/null cells
   if (cell.value === null || cell.value === undefined || cell.value === '') {
     return { t: 's', v: '' };
   }
 
   // Use explicit type if provided
-  if (cell.type === 'date') {
-    return { t: 'd', v: cell.value as number };
+  if (cell.type === 'date' || cell.value instanceof Date) {
+    // Dates are converted to serial numbers here, so that the writer's time zone and date system apply.
+    // Numeric values are 1900 serials (see dateToExcelSerial).
+    if (cell.value instanceof Date) {
+      return { t: 'd', v: dateToExcelSerial(cell.value, dates) };
+    }
+    const serial = cell.value as number;
+    // Serials below 1 are times of day in both date systems; only dates are shifted
+    if (!dates?.date1904 || serial < 1) {
+      return { t: 'd', v: serial };
+    }
+    if (serial < DATE_1904_OFFSET) {
+      throw new Error(`Date serial ${serial} is before January 1, 1904, the first date of the 1904 date system`);
+    }
+    return { t: 'd', v: serial - DATE_1904_OFFSET };
+  }
+  if (cell.type === 'duration') {
+    // Durations are stored as fractions of a day; ISO 8601 strings come from reading with durations: 'iso'
+    const milliseconds = typeof cell.value === 'string' ? parseIsoDuration(cell.value) : cell.value as number;
+    return { t: 'n', v: milliseconds / MILLISECONDS_IN_DAY };
   }
   if (cell.type === 'boolean') {
     return { t: 'b', v: cell.value as number };
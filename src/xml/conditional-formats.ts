@@ -0,0 +1,115 @@
+/*
+ * Conditional formatting serialization for sheet XML
+ */
+import type { ConditionalFormatDefinition, ConditionalFormatThreshold } from '@xlsx/types';
+import { escapeXml } from '@utils/xml';
+import type { Style } from '../types';
+
+/**
+ * Serializes a formula value: numbers as literals, strings without the "=" prefix
+ */
+function formulaText(value: number | string): string {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return value.startsWith('=') ? value.slice(1) : value;
+}
+
+/**
+ * Serializes a threshold as a cfvo element
+ */
+function serializeThreshold(threshold: ConditionalFormatThreshold): string {
+  if (!('value' in threshold)) {
+    return `<cfvo type="${threshold.type}"/>`;
+  }
+  return `<cfvo type="${threshold.type}" val="${escapeXml(formulaText(threshold.value))}"/>`;
+}
+
+/**
+ * Default thresholds of an icon set: equal percent bands starting at 0 (e.g., 0, 33, 67)
+ */
+function defaultIconThresholds(iconCount: number): ConditionalFormatThreshold[] {
+  return Array.from({ length: iconCount }, (_, i) => ({ type: 'percent' as const, value: Math.round((100 * i) / iconCount) }));
+}
+
+/**
+ * Serializes a conditional format as a cfRule element
+ * @param priority - Rule priority, unique within the sheet (1 is evaluated first)
+ * @param getDifferentialStyleIndex - Returns the dxfId of the style of cellIs and expression rules
+ */
+function serializeRule(
+  format: ConditionalFormatDefinition,
+  priority: number,
+  getDifferentialStyleIndex: (style: Style) => number,
+): string {
+  const attrs: string[] = [`type="${format.type}"`];
+  if (format.type === 'cellIs' || format.type === 'expression') {
+    attrs.push(`dxfId="${getDifferentialStyleIndex(format.style)}"`);
+  }
+  attrs.push(`priority="${priority}"`);
+  if (format.stopIfTrue) {
+    attrs.push('stopIfTrue="1"');
+  }
+
+  switch (format.type) {
+    case 'cellIs': {
+      attrs.push(`operator="${format.operator}"`);
+      let formulas = `<formula>${escapeXml(formulaText(format.formula1))}</formula>`;
+      if (format.formula2 !== undefined && (format.operator === 'between' || format.operator === 'notBetween')) {
+        formulas += `<formula>${escapeXml(formulaText(format.formula2))}</formula>`;
+      }
+      return `<cfRule ${attrs.join(' ')}>${formulas}</cfRule>`;
+    }
+    case 'expression':
+      return `<cfRule ${attrs.join(' ')}><formula>${escapeXml(formulaText(format.formula))}</formula></cfRule>`;
+    case 'colorScale': {
+      const thresholds = format.thresholds ?? (format.colors.length === 3
+        ? [{ type: 'min' }, { type: 'percentile', value: 50 }, { type: 'max' }]
+        : [{ type: 'min' }, { type: 'max' }]);
+      const colors = format.colors.map((color) => `<color rgb="${color.toUpperCase()}"/>`).join('');
+      return `<cfRule ${attrs.join(' ')}><colorScale>${thresholds.map(serializeThreshold).join('')}${colors}</colorScale></cfRule>`;
+    }
+    case 'dataBar': {
+      const dataBarAttrs = format.showValue === false ? ' showValue="0"' : '';
+      const thresholds = serializeThreshold(format.min ?? { type: 'min' }) + serializeThreshold(format.max ?? { type: 'max' });
+      return `<cfRule ${attrs.join(' ')}><dataBar${dataBarAttrs}>${thresholds}<color rgb="${format.color.toUpperCase()}"/></dataBar></cfRule>`;
+    }
+    case 'iconSet': {
+      const iconSet = format.iconSet ?? '3TrafficLights1';
+      const iconSetAttrs: string[] = [];
+      // 3TrafficLights1 is the default icon set
+      if (iconSet !== '3TrafficLights1') {
+        iconSetAttrs.push(`iconSet="${iconSet}"`);
+      }
+      if (format.showValue === false) {
+        iconSetAttrs.push('showValue="0"');
+      }
+      if (format.reverse) {
+        iconSetAttrs.push('reverse="1"');
+      }
+      const thresholds = format.thresholds ?? defaultIconThresholds(Number(iconSet[0]));
+      const iconSetOpen = iconSetAttrs.length > 0 ? `<iconSet ${iconSetAttrs.join(' ')}>` : '<iconSet>';
+      return `<cfRule ${attrs.join(' ')}>${iconSetOpen}${thresholds.map(serializeThreshold).join('')}</iconSet></cfRule>`;
+    }
+  }
+}
+
+/**
+ * Generates the conditionalFormatting elements of a sheet, one per format, prioritized in definition order
+ * Returns an empty string when there are no formats
+ * @param getDifferentialStyleIndex - Returns the dxfId of the style of cellIs and expression rules
+ */
+export function generateConditionalFormatting(
+  formats: ConditionalFormatDefinition[] | undefined,
+  getDifferentialStyleIndex: (style: Style) => number,
+): string {
+  if (!formats || formats.length === 0) {
+    return '';
+  }
+  return formats
+    .map((format, index) => {
+      const sqref = escapeXml(format.range.replace(/\$/g, '').trim().toUpperCase());
+      return `<conditionalFormatting sqref="${sqref}">${serializeRule(format, index + 1, getDifferentialStyleIndex)}</conditionalFormatting>`;
+    })
+    .join('');
+}
@@ -0,0 +1,90 @@
+/*
+ * Data validation serialization for sheet XML
+ */
+import type { DataValidationDefinition, DataValidationValue } from '@xlsx/types';
+import { dateToExcelSerial, type DateSerialOptions } from '@sheet/cell';
+import { escapeXml } from '@utils/xml';
+
+/**
+ * Serializes a criterion value as formula text
+ * Formulas are written without the "=" prefix, like cell formulas
+ */
+function formulaText(value: DataValidationValue, dates: DateSerialOptions | undefined): string {
+  if (value instanceof Date) {
+    return String(dateToExcelSerial(value, dates));
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return value.startsWith('=') ? value.slice(1) : value;
+}
+
+/**
+ * Serializes list items as a quoted, comma-separated literal (e.g., "Yes,No")
+ */
+function listFormulaText(values: string[]): string {
+  return `"${values.map((value) => value.replace(/"/g, '""')).join(',')}"`;
+}
+
+/**
+ * Serializes a single data validation rule
+ * @param dates - Time zone and date system of the serial numbers written for Date criteria
+ */
+function serializeDataValidation(validation: DataValidationDefinition, dates: DateSerialOptions | undefined): string {
+  const attrs: string[] = [`type="${validation.type}"`];
+
+  const error = validation.error === false ? undefined : validation.error ?? {};
+  if (error?.style && error.style !== 'stop') {
+    attrs.push(`errorStyle="${error.style}"`);
+  }
+  // Operators only apply to comparisons; between is the default
+  const operator = validation.operator ?? 'between';
+  if (validation.type !== 'list' && validation.type !== 'custom' && operator !== 'between') {
+    attrs.push(`operator="${operator}"`);
+  }
+  if (validation.allowBlank ?? true) {
+    attrs.push('allowBlank="1"');
+  }
+  // Despite its name, showDropDown="1" hides the in-cell dropdown
+  if (validation.type === 'list' && validation.showDropdown === false) {
+    attrs.push('showDropDown="1"');
+  }
+  if (validation.input) {
+    attrs.push('showInputMessage="1"');
+  }
+  if (error) {
+    attrs.push('showErrorMessage="1"');
+    if (error.title !== undefined) attrs.push(`errorTitle="${escapeXml(error.title)}"`);
+    if (error.message !== undefined) attrs.push(`error="${escapeXml(error.message)}"`);
+  }
+  if (validation.input) {
+    if (validation.input.title !== undefined) attrs.push(`promptTitle="${escapeXml(validation.input.title)}"`);
+    attrs.push(`prompt="${escapeXml(validation.input.message)}"`);
+  }
+  attrs.push(`sqref="${escapeXml(validation.range.replace(/\$/g, '').trim().toUpperCase())}"`);
+
+  let formulas = '';
+  if (validation.values) {
+    formulas += `<formula1>${escapeXml(listFormulaText(validation.values))}</formula1>`;
+  } else if (validation.formula1 !== undefined) {
+    formulas += `<formula1>${escapeXml(formulaText(validation.formula1, dates))}</formula1>`;
+  }
+  if (validation.formula2 !== undefined && (operator === 'between' || operator === 'notBetween')) {
+    formulas += `<formula2>${escapeXml(formulaText(validation.formula2, dates))}</formula2>`;
+  }
+
+  return `<dataValidation ${attrs.join(' ')}>${formulas}</dataValidation>`;
+}
+
+/**
+ * Generates the dataValidations element of a sheet
+ * Returns an empty string when there are no rules
+ * @param dates - Time zone and date system of the serial numbers written for Date criteria (default: local, 1900)
+ */
+export function generateDataValidations(validations: DataValidationDefinition[] | undefined, dates?: DateSerialOptions): string {
+  if (!validations || validations.length === 0) {
+    return '';
+  }
+  const rules = validations.map((validation) => serializeDataValidation(validation, dates)).join('');
+  return `<dataValidations count="${validations.length}">${rules}</dataValidations>`;
+}
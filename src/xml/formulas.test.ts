@@ -0,0 +1,67 @@
+import { describe, test, expect } from '@tests/framework';
+import { SheetFormulaWriter } from './formulas';
+
+/**
+ * Writes one formula per row in column A, returns the emitted row XML
+ */
+function writeColumn(writer: SheetFormulaWriter, formulas: string[], firstRow = 1): string[] {
+  const output: string[] = [];
+  formulas.forEach((formula, index) => {
+    const rowIndex = firstRow + index;
+    output.push(...writer.addRow(rowIndex, `<row r="${rowIndex}">${writer.formulaXml(formula, rowIndex, 0)}</row>`));
+  });
+  output.push(...writer.finish());
+  return output;
+}
+
+describe('SheetFormulaWriter', () => {
+  test('should write formulas individually when sharing is disabled', () => {
+    const writer = new SheetFormulaWriter();
+    expect(writeColumn(writer, ['B1*2', 'B2*2'])).toEqual([
+      '<row r="1"><f>B1*2</f></row>',
+      '<row r="2"><f>B2*2</f></row>',
+    ]);
+  });
+
+  test('should group repeated column formulas into a shared formula', () => {
+    const writer = new SheetFormulaWriter({ shareFormulas: true });
+    expect(writeColumn(writer, ['B2*$C$1', 'B3*$C$1', 'B4*$C$1'], 2)).toEqual([
+      '<row r="2"><f t="shared" ref="A2:A4" si="0">B2*$C$1</f></row>',
+      '<row r="3"><f t="shared" si="0"/></row>',
+      '<row r="4"><f t="shared" si="0"/></row>',
+    ]);
+  });
+
+  test('should start a new group when the formula changes', () => {
+    const writer = new SheetFormulaWriter({ shareFormulas: true });
+    expect(writeColumn(writer, ['B1', 'B2', 'SUM(A1:A2)'])).toEqual([
+      '<row r="1"><f t="shared" ref="A1:A2" si="0">B1</f></row>',
+      '<row r="2"><f t="shared" si="0"/></row>',
+      '<row r="3"><f>SUM(A1:A2)</f></row>',
+    ]);
+  });
+
+  test('should hold back rows only while a group is open', () => {
+    const writer = new SheetFormulaWriter({ shareFormulas: true });
+    expect(writer.addRow(1, `<row r="1">${writer.formulaXml('B1', 1, 0)}</row>`)).toEqual([]);
+    expect(writer.addRow(2, `<row r="2">${writer.formulaXml('B2', 2, 0)}</row>`)).toEqual([]);
+    // Row 3 has no formula in column A, so the group ends and rows 1-3 are released
+    expect(writer.addRow(3, '<row r="3"></row>')).toEqual([
+      '<row r="1"><f t="shared" ref="A1:A2" si="0">B1</f></row>',
+      '<row r="2"><f t="shared" si="0"/></row>',
+      '<row r="3"></row>',
+    ]);
+    expect(writer.finish()).toEqual([]);
+  });
+
+  test('should mark dynamic array formulas only when metadata is written', () => {
+    let notified = 0;
+    const writer = new SheetFormulaWriter({ onDynamicArrayFormula: () => notified++ });
+    expect(writer.arrayFormulaXml('SEQUENCE(3)', 'A1:A3', true)).toEqual({
+      formulaXml: '<f t="array" ref="A1:A3">SEQUENCE(3)</f>',
+      cellAttrs: ' cm="1"',
+    });
+    expect(notified).toBe(1);
+    expect(new SheetFormulaWriter().arrayFormulaXml('SEQUENCE(3)', 'A1:A3', true).cellAttrs).toBe('');
+  });
+});
@@ -0,0 +1,193 @@
+/*
+ * Formula serialization for sheet XML
+ */
+import { getRangeReference } from '@utils/cell-reference';
+import { shiftFormulaReferences } from '@utils/formula-references';
+import { escapeXml } from '@utils/xml';
+
+/**
+ * Maximum number of rows a shared formula group may span.
+ * Rows are held back while a group is open (the first cell needs the final range),
+ * so this bounds the number of buffered rows.
+ */
+const MAX_SHARED_FORMULA_ROWS = 1024;
+
+/**
+ * Matches the placeholder written for the first cell of an open shared formula group
+ */
+// eslint-disable-next-line no-control-regex -- NUL never occurs in escaped cell XML, so it safely delimits placeholders
+const PLACEHOLDER_PATTERN = /\u0000SF(\d+)\u0000/g;
+
+/**
+ * Options for the sheet formula writer
+ */
+export interface SheetFormulaWriterOptions {
+  /**
+   * Write vertically repeated formulas as shared formulas
+   */
+  shareFormulas?: boolean;
+  /**
+   * Called when a dynamic array formula is written.
+   * If not provided, dynamic array formulas are written as legacy array formulas.
+   */
+  onDynamicArrayFormula?: () => void;
+}
+
+/**
+ * A run of cells in one column whose formulas are the same formula moved down row by row
+ */
+interface SharedFormulaGroup {
+  id: number;
+  formula: string;
+  colIndex: number;
+  firstRow: number;
+  lastRow: number;
+  /**
+   * Shared index, assigned when a second cell joins the group
+   */
+  si?: number;
+}
+
+/**
+ * Writes the <f> elements of a sheet
+ *
+ * Shared formulas: the first cell of a group must carry the range of the whole group,
+ * which is only known once the group ends. That cell is written with a placeholder and
+ * rows are held back by addRow() until the placeholder can be resolved.
+ * Placeholders contain NUL characters, which escapeXml removes from cell content,
+ * so they cannot collide with user data.
+ */
+export class SheetFormulaWriter {
+  private readonly shareFormulas: boolean;
+  private readonly onDynamicArrayFormula?: () => void;
+  private openGroups: Map<number, SharedFormulaGroup> = new Map();
+  private resolvedGroups: Map<number, string> = new Map();
+  private pendingRows: { rowIndex: number; xml: string }[] = [];
+  private nextGroupId = 0;
+  private nextSharedIndex = 0;
+
+  constructor(options?: SheetFormulaWriterOptions) {
+    this.shareFormulas = options?.shareFormulas ?? false;
+    this.onDynamicArrayFormula = options?.onDynamicArrayFormula;
+  }
+
+  /**
+   * Serializes the <f> element of a regular formula cell
+   * @param formula - Formula without "=" prefix
+   * @param rowIndex - Row index (1-based)
+   * @param colIndex - Column index (0-based)
+   */
+  formulaXml(formula: string, rowIndex: number, colIndex: number): string {
+    if (!this.shareFormulas) {
+      return `<f>${escapeXml(formula)}</f>`;
+    }
+
+    const group = this.openGroups.get(colIndex);
+    if (
+      group &&
+      group.lastRow === rowIndex - 1 &&
+      rowIndex - group.firstRow < MAX_SHARED_FORMULA_ROWS &&
+      shiftFormulaReferences(group.formula, rowIndex - group.firstRow, 0) === formula
+    ) {
+      group.si ??= this.nextSharedIndex++;
+      group.lastRow = rowIndex;
+      return `<f t="shared" si="${group.si}"/>`;
+    }
+
+    if (group) {
+      this.closeGroup(group);
+    }
+    const id = this.nextGroupId++;
+    this.openGroups.set(colIndex, { id, formula, colIndex, firstRow: rowIndex, lastRow: rowIndex });
+    return `\u0000SF${id}\u0000`;
+  }
+
+  /**
+   * Serializes the <f> element of an array formula cell
+   * @returns The <f> element and the attributes to add to the <c> element
+   */
+  arrayFormulaXml(formula: string, range: string, dynamic: boolean): { formulaXml: string; cellAttrs: string } {
+    const formulaXml = `<f t="array" ref="${escapeXml(range)}">${escapeXml(formula)}</f>`;
+    if (dynamic && this.onDynamicArrayFormula) {
+      this.onDynamicArrayFormula();
+      // cm="1" points to the dynamic array entry of xl/metadata.xml
+      return { formulaXml, cellAttrs: ' cm="1"' };
+    }
+    return { formulaXml, cellAttrs: '' };
+  }
+
+  /**
+   * Adds a serialized row and returns the rows that are ready to be written, in order
+   * Must be called for every row, after its cells have been serialized
+   */
+  addRow(rowIndex: number, xml: string): string[] {
+    // Groups that did not continue into this row are complete
+    for (const group of this.openGroups.values()) {
+      if (group.lastRow < rowIndex) {
+        this.closeGroup(group);
+      }
+    }
+
+    if (this.pendingRows.length === 0 && this.openGroups.size === 0) {
+      return [this.resolve(xml)];
+    }
+    this.pendingRows.push({ rowIndex, xml });
+
+    // Rows before the first open group cannot contain unresolved placeholders
+    let holdFrom = Infinity;
+    for (const group of this.openGroups.values()) {
+      holdFrom = Math.min(holdFrom, group.firstRow);
+    }
+    const ready: string[] = [];
+    while (this.pendingRows.length > 0 && this.pendingRows[0]!.rowIndex < holdFrom) {
+      ready.push(this.resolve(this.pendingRows.shift()!.xml));
+    }
+    return ready;
+  }
+
+  /**
+   * Completes all open groups and returns the remaining rows
+   */
+  finish(): string[] {
+    for (const group of this.openGroups.values()) {
+      this.closeGroup(group);
+    }
+    const remaining = this.pendingRows.map((row) => this.resolve(row.xml));
+    this.pendingRows = [];
+    return remaining;
+  }
+
+  /**
+   * Completes a group: the placeholder of its first cell becomes a shared formula,
+   * or a regular formula if no other cell joined
+   */
+  private closeGroup(group: SharedFormulaGroup): void {
+    const formula = escapeXml(group.formula);
+    const ref = getRangeReference(group.firstRow, group.colIndex, group.lastRow, group.colIndex);
+    this.resolvedGroups.set(
+      group.id,
+      group.si === undefined
+        ? `<f>${formula}</f>`
+        : `<f t="shared" ref="${ref}" si="${group.si}">${formula}</f>`,
+    );
+    this.openGroups.delete(group.colIndex);
+  }
+
+  /**
+   * Replaces resolved placeholders in row XML
+   */
+  private resolve(xml: string): string {
+    if (this.resolvedGroups.size === 0) {
+      return xml;
+    }
+    return xml.replace(PLACEHOLDER_PATTERN, (match, id: string) => {
+      const groupId = Number(id);
+      const formulaXml = this.resolvedGroups.get(groupId);
+      if (formulaXml === undefined) {
+        return match;
+      }
+      this.resolvedGroups.delete(groupId);
+      return formulaXml;
+    });
+  }
+}
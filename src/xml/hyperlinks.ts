@@ -0,0 +1,64 @@
+/*
+ * Hyperlink serialization for sheet XML
+ */
+import { escapeXml } from '@utils/xml';
+import type { Hyperlink } from '../types';
+
+/**
+ * Excel limits
+ */
+const MAX_URL_LENGTH = 2079;
+const MAX_TOOLTIP_LENGTH = 255;
+
+/**
+ * Hyperlink of a written cell
+ */
+export interface CellHyperlink {
+  ref: string; // Cell reference in A1 notation
+  hyperlink: Hyperlink;
+}
+
+/**
+ * Checks a cell hyperlink against Excel's rules
+ * @throws {Error} If the hyperlink has no target or exceeds Excel limits
+ */
+export function validateHyperlink(hyperlink: Hyperlink, cellRef: string): void {
+  if (!hyperlink.url && !hyperlink.location) {
+    throw new Error(`Hyperlink for cell ${cellRef} needs a url or a location`);
+  }
+  if (hyperlink.url !== undefined && hyperlink.url.length > MAX_URL_LENGTH) {
+    throw new Error(`Hyperlink url for cell ${cellRef} cannot exceed ${MAX_URL_LENGTH} characters`);
+  }
+  if (hyperlink.tooltip !== undefined && hyperlink.tooltip.length > MAX_TOOLTIP_LENGTH) {
+    throw new Error(`Hyperlink tooltip for cell ${cellRef} cannot exceed ${MAX_TOOLTIP_LENGTH} characters`);
+  }
+}
+
+/**
+ * Generates the hyperlinks element of a sheet
+ * External targets are stored in the sheet's relationships; locations are written inline.
+ * Returns an empty string when there are no hyperlinks
+ * @param getRelationshipId - Returns the relationship ID of an external target
+ */
+export function generateHyperlinks(
+  hyperlinks: CellHyperlink[],
+  getRelationshipId: (url: string) => string,
+): string {
+  if (hyperlinks.length === 0) {
+    return '';
+  }
+  const elements = hyperlinks.map(({ ref, hyperlink }) => {
+    const attrs = [`ref="${ref}"`];
+    if (hyperlink.url) {
+      attrs.push(`r:id="${escapeXml(getRelationshipId(hyperlink.url))}"`);
+    }
+    if (hyperlink.location) {
+      attrs.push(`location="${escapeXml(hyperlink.location.replace(/^#/, ''))}"`);
+    }
+    if (hyperlink.tooltip) {
+      attrs.push(`tooltip="${escapeXml(hyperlink.tooltip)}"`);
+    }
+    return `<hyperlink ${attrs.join(' ')}/>`;
+  });
+  return `<hyperlinks>${elements.join('')}</hyperlinks>`;
+}
@@ -0,0 +1,95 @@
+/*
+ * Rich text runs (<r>) shared by comments and strings
+ */
+import { escapeXml } from '@utils/xml';
+import type { FontStyle, RichTextRun } from '../types';
+
+/**
+ * Excel limits for run fonts (same as cell fonts)
+ */
+const MAX_FONT_SIZE = 409;
+const MAX_FONT_NAME_LENGTH = 31;
+
+/**
+ * Serializes the font of a run as rPr
+ * Only the given properties are written, so the others fall back to the default font.
+ * Child elements follow the order required by Excel: rFont, b, i, strike, color, sz, u
+ */
+function serializeRunProperties(font: FontStyle): string {
+  const elements: string[] = [];
+  if (font.fontName !== undefined) elements.push(`<rFont val="${escapeXml(font.fontName)}"/>`);
+  if (font.bold) elements.push('<b/>');
+  if (font.italic) elements.push('<i/>');
+  if (font.strikethrough) elements.push('<strike/>');
+  if (font.fontColor !== undefined) elements.push(`<color rgb="${font.fontColor.toUpperCase()}"/>`);
+  if (font.fontSize !== undefined) elements.push(`<sz val="${font.fontSize}"/>`);
+  if (font.underline) elements.push('<u/>');
+  return elements.length > 0 ? `<rPr>${elements.join('')}</rPr>` : '';
+}
+
+/**
+ * Checks the fonts of rich text runs against Excel's rules
+ * @throws {Error} If a font has an invalid color, size or name
+ */
+export function validateRichText(runs: RichTextRun[], cellRef: string): void {
+  for (const { font } of runs) {
+    if (font?.fontColor !== undefined && !/^[0-9A-Fa-f]{8}$/.test(font.fontColor)) {
+      throw new Error(`Rich text font color for cell ${cellRef} must be 8 hex characters (ARGB format)`);
+    }
+    if (font?.fontSize !== undefined && !(font.fontSize > 0 && font.fontSize <= MAX_FONT_SIZE)) {
+      throw new Error(`Rich text font size for cell ${cellRef} must be between 1 and ${MAX_FONT_SIZE}`);
+    }
+    if (font?.fontName !== undefined && (font.fontName.length === 0 || font.fontName.length > MAX_FONT_NAME_LENGTH)) {
+      throw new Error(`Rich text font name for cell ${cellRef} must have 1 to ${MAX_FONT_NAME_LENGTH} characters`);
+    }
+  }
+}
+
+/**
+ * Serializes text as a t element, preserving leading and trailing spaces
+ */
+export function serializeText(text: string): string {
+  return `<t xml:space="preserve">${escapeXml(text)}</t>`;
+}
+
+/**
+ * Serializes rich text runs as r elements
+ */
+export function serializeRichText(runs: RichTextRun[]): string {
+  return runs.map((run) => `<r>${run.font ? serializeRunProperties(run.font) : ''}${serializeText(run.text)}</r>`).join('');
+}
+
+/**
+ * Applies a child element of rPr to the font of a run being read
+ * @returns false if the element is not a supported run property
+ */
+export function applyRunProperty(font: FontStyle, name: string, attributes: Record<string, string> | undefined): boolean {
+  // Toggles are on unless val is "0", "false" or (for underline) "none"
+  const isOn = (value: string | undefined) => value === undefined || !['0', 'false', 'none'].includes(value);
+  switch (name) {
+    case 'b':
+      font.bold = isOn(attributes?.val);
+      return true;
+    case 'i':
+      font.italic = isOn(attributes?.val);
+      return true;
+    case 'strike':
+      font.strikethrough = isOn(attributes?.val);
+      return true;
+    case 'u':
+      font.underline = isOn(attributes?.val);
+      return true;
+    case 'sz':
+      if (attributes?.val !== undefined) font.fontSize = parseFloat(attributes.val);
+      return true;
+    case 'color':
+      // Theme and indexed colors have no fixed ARGB value
+      if (attributes?.rgb !== undefined) font.fontColor = attributes.rgb.toUpperCase();
+      return true;
+    case 'rFont':
+      if (attributes?.val !== undefined) font.fontName = attributes.val;
+      return true;
+    default:
+      return false;
+  }
+}
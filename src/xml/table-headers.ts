@@ -0,0 +1,98 @@
+/*
+ * Table header cells for sheet XML
+ */
+import type { TableDefinition } from '@xlsx/types';
+import { getCellReference } from '@utils/cell-reference';
+import type { Cell, Row } from '../types';
+
+/**
+ * Gets the text of a table header cell, as Excel shows it
+ * @throws {Error} If the cell holds a date, duration or formula, which cannot name a column
+ */
+function getHeaderText(cell: Cell | undefined | null, rowIndex: number, colIndex: number): string {
+  const value = cell?.value;
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (cell!.type === 'formula' || cell!.type === 'date' || cell!.type === 'duration' || value instanceof Date) {
+    throw new Error(`Table header cell ${getCellReference(rowIndex, colIndex)} must hold text, a number or a boolean`);
+  }
+  if (cell!.type === 'boolean' || typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return String(value);
+}
+
+/**
+ * Gets the text of the header cells of a table from a header row
+ */
+export function getHeaderNames(cells: Row['cells'], rowIndex: number, firstColumn: number, lastColumn: number): string[] {
+  const names: string[] = [];
+  for (let colIndex = firstColumn; colIndex <= lastColumn; colIndex++) {
+    names.push(getHeaderText(cells[colIndex], rowIndex, colIndex));
+  }
+  return names;
+}
+
+/**
+ * Resolves the column names of a table
+ * Names come from the column definitions, then the header cells, then "Column<n>" like Excel.
+ * Excel requires unique names (case-insensitive), so duplicates get a number appended.
+ * @param headerNames - Text of the header cells, by position
+ * @param columnCount - Number of columns in the table range
+ */
+export function resolveTableColumnNames(
+  table: TableDefinition,
+  headerNames: string[],
+  columnCount: number,
+): string[] {
+  const names: string[] = [];
+  const used = new Set<string>();
+  for (let i = 0; i < columnCount; i++) {
+    const base = table.columns?.[i]?.name || headerNames[i]?.trim() || `Column${i + 1}`;
+    let name = base;
+    for (let suffix = 2; used.has(name.toUpperCase()); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name.toUpperCase());
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Writes the resolved column names of a table into its header cells.
+ * Excel reports the file as corrupt when a header cell differs from its column name,
+ * so header cells that are blank, duplicated, overridden by a column definition
+ * or not plain text are replaced by a string cell keeping the style and hyperlink.
+ * @returns The header row cells, copied if any cell was replaced
+ */
+export function writeTableHeaderNames(
+  table: TableDefinition,
+  cells: Row['cells'],
+  rowIndex: number,
+  firstColumn: number,
+  lastColumn: number,
+): Row['cells'] {
+  const headerNames = getHeaderNames(cells, rowIndex, firstColumn, lastColumn);
+  const names = resolveTableColumnNames(table, headerNames, lastColumn - firstColumn + 1);
+  let result = cells;
+  names.forEach((name, i) => {
+    const cell = result[firstColumn + i];
+    if (cell && cell.value === name && (cell.type === undefined || cell.type === 'string')) {
+      return;
+    }
+    const header: Cell = { value: name, type: 'string' };
+    if (cell?.style) {
+      header.style = cell.style;
+    }
+    if (cell?.hyperlink) {
+      header.hyperlink = cell.hyperlink;
+    }
+    if (result === cells) {
+      result = [...cells];
+    }
+    result[firstColumn + i] = header;
+  });
+  return result;
+}
@@ -1,6 +1,6 @@
 import { describe, test, expect } from '@tests/framework';
 import { writeSheetXml, serializeRow, serializeCell } from './writer';
-import type { Row, Cell } from '../types';
+import type { Row, Cell, Style } from '../types';
 
 describe('XML Writer', () => {
   describe('serializeCell', () => {
@@ -106,6 +106,90 @@ describe('XML Writer', () => {
       expect(result).toContain('r="A1"');
     });
 
+    test('should write date cells as numbers with the default date format', () => {
+      const styles: Style[] = [];
+      const getStyleIndex = (style: Style) => styles.push(style);
+
+      expect(serializeCell({ value: 45323, type: 'date' }, 1, 0, undefined, getStyleIndex))
+        .toBe('<c r="A1" s="1"><v>45323</v></c>');
+      expect(serializeCell({ value: 45323.5, type: 'date', style: { font: { bold: true } } }, 1, 1, undefined, getStyleIndex))
+        .toBe('<c r="B1" s="2"><v>45323.5</v></c>');
+      expect(styles).toEqual([
+        { numberFormat: 'yyyy-mm-dd' },
+        { font: { bold: true }, numberFormat: 'yyyy-mm-dd hh:mm:ss' },
+      ]);
+    });
+
+    test('should keep an explicit number format on date cells', () => {
+      const styles: Style[] = [];
+      const getStyleIndex = (style: Style) => styles.push(style);
+      serializeCell({ value: 45323, type: 'date', style: { numberFormat: 14 } }, 1, 0, undefined, getStyleIndex);
+      expect(styles).toEqual([{ numberFormat: 14 }]);
+    });
+
+    test('should write Date values as serial numbers in the time zone', () => {
+      const instant = new Date('2024-07-01T10:00:00Z');
+      const dateCell: Cell = { value: instant, type: 'date' };
+      expect(serializeCell(dateCell, 1, 0, undefined, () => 1, undefined, { timezone: 'UTC' })).toBe(`<c r="A1" s="1"><v>${45474 + 10 / 24}</v></c>`);
+      expect(serializeCell(dateCell, 1, 0, undefined, () => 1, undefined, { timezone: 'Europe/Berlin' })).toBe('<c r="A1" s="1"><v>45474.5</v></c>');
+      expect(serializeCell({ value: '=NOW()', type: 'formula', formula: 'NOW()', computedValue: instant }, 1, 0, undefined, undefined, undefined, { timezone: 'America/New_York' }))
+        .toBe('<c r="A1"><f>NOW()</f><v>45474.25</v></c>');
+    });
+
+    test('should write dates as serial numbers of the 1904 date system', () => {
+      const date1904 = { date1904: true };
+      expect(serializeCell({ value: new Date(2024, 0, 1), type: 'date' }, 1, 0, undefined, () => 1, undefined, date1904))
+        .toBe('<c r="A1" s="1"><v>43830</v></c>');
+      // Numeric date values are 1900 serials
+      expect(serializeCell({ value: 45292, type: 'date' }, 1, 0, undefined, () => 1, undefined, date1904))
+        .toBe('<c r="A1" s="1"><v>43830</v></c>');
+      expect(serializeCell({ value: 1462, type: 'date' }, 1, 0, undefined, () => 1, undefined, date1904))
+        .toBe('<c r="A1" s="1"><v>0</v></c>');
+      expect(serializeCell({ value: '=TODAY()', type: 'formula', formula: 'TODAY()', computedValue: new Date(2024, 0, 1) }, 1, 0, undefined, undefined, undefined, date1904))
+        .toBe('<c r="A1"><f>TODAY()</f><v>43830</v></c>');
+      // Times of day are the same fraction in both date systems
+      expect(serializeCell({ value: 0.5, type: 'date' }, 1, 0, undefined, () => 1, undefined, date1904))
+        .toBe('<c r="A1" s="1"><v>0.5</v></c>');
+    });
+
+    test('should reject dates before the start of the 1904 date system', () => {
+      const date1904 = { date1904: true };
+      expect(() => serializeCell({ value: 1461.5, type: 'date' }, 1, 0, undefined, () => 1, undefined, date1904))
+        .toThrow('Date serial 1461.5 is before January 1, 1904');
+      expect(() => serializeCell({ value: new Date(1900, 0, 1), type: 'date' }, 1, 0, undefined, () => 1, undefined, date1904))
+        .toThrow('is before January 1, 1904');
+    });
+
+    test('should write duration cells as fractions of a day with an elapsed time format', () => {
+      const styles: Style[] = [];
+      const getStyleIndex = (style: Style) => styles.push(style);
+
+      expect(serializeCell({ value: 91800000, type: 'duration' }, 1, 0, undefined, getStyleIndex))
+        .toBe('<c r="A1" s="1"><v>1.0625</v></c>');
+      expect(serializeCell({ value: 'PT1H30M', type: 'duration', style: { numberFormat: '[mm]:ss' } }, 1, 1, undefined, getStyleIndex))
+        .toBe('<c r="B1" s="2"><v>0.0625</v></c>');
+      expect(styles).toEqual([{ numberFormat: '[h]:mm:ss' }, { numberFormat: '[mm]:ss' }]);
+    });
+
+    test('should serialize formula cell without cached value', () => {
+      const cell: Cell = { value: '=SUM(A1:A5)', type: 'formula', formula: 'SUM(A1:A5)' };
+      expect(serializeCell(cell, 6, 0)).toBe('<c r="A6"><f>SUM(A1:A5)</f></c>');
+    });
+
+    test('should serialize formula cell with cached results of each type', () => {
+      const formula = (computedValue: Cell['computedValue']): Cell => ({ value: '=X', type: 'formula', formula: 'A1&B1', computedValue });
+      expect(serializeCell(formula(3), 1, 2)).toBe('<c r="C1"><f>A1&amp;B1</f><v>3</v></c>');
+      expect(serializeCell(formula(true), 1, 2)).toBe('<c r="C1" t="b"><f>A1&amp;B1</f><v>1</v></c>');
+      expect(serializeCell(formula('ab'), 1, 2)).toBe('<c r="C1" t="str"><f>A1&amp;B1</f><v>ab</v></c>');
+      expect(serializeCell(formula(''), 1, 2)).toBe('<c r="C1" t="str"><f>A1&amp;B1</f><v></v></c>');
+      expect(serializeCell(formula('#DIV/0!'), 1, 2)).toBe('<c r="C1" t="e"><f>A1&amp;B1</f><v>#DIV/0!</v></c>');
+    });
+
+    test('should derive the formula from the value when formula is missing', () => {
+      const cell: Cell = { value: '=B2+1', type: 'formula' };
+      expect(serializeCell(cell, 1, 0, () => 0)).toBe('<c r="A1"><f>B2+1</f></c>');
+    });
+
     test('should throw with cell context when getStyleIndex throws', () => {
       const cell: Cell = {
         value: 'Test',
@@ -246,5 +330,48 @@ describe('XML Writer', () => {
       }
       expect(rowCount).toBe(2);
     });
+
+    test('should write repeated column formulas as shared formulas when enabled', async () => {
+      const formula = (f: string): Cell => ({ value: `=${f}`, type: 'formula', formula: f });
+      const chunks: string[] = [];
+      for await (const chunk of writeSheetXml(async function* () {
+        yield { cells: [{ value: 1 }, formula('A1*2')] };
+        yield { cells: [{ value: 2 }, formula('A2*2')] };
+        yield { cells: [{ value: 3 }, formula('A3*2')] };
+      }(), { shareFormulas: true })) {
+        chunks.push(chunk);
+      }
+      const xml = chunks.join('');
+      expect(xml).toContain('<c r="B1"><f t="shared" ref="B1:B3" si="0">A1*2</f></c>');
+      expect(xml).toContain('<c r="B2"><f t="shared" si="0"/></c>');
+      expect(xml).toContain('<c r="B3"><f t="shared" si="0"/></c>');
+      expect(xml).not.toContain('\u0000');
+    });
+
+    test('should write array formulas and reject invalid ranges', async () => {
+      const arrayCell: Cell = { value: '=A1:A2*2', type: 'formula', formula: 'A1:A2*2', arrayFormula: { range: 'B1:B2' } };
+      const chunks: string[] = [];
+      for await (const chunk of writeSheetXml(async function* () {
+        yield { cells: [{ value: 1 }, arrayCell] };
+      }())) {
+        chunks.push(chunk);
+      }
+      expect(chunks.join('')).toContain('<c r="B1"><f t="array" ref="B1:B2">A1:A2*2</f></c>');
+
+      expect(() => serializeCell({ ...arrayCell, arrayFormula: { range: 'B1:' } }, 1, 1))
+        .toThrow('Invalid array formula range for cell B1: B1:');
+    });
+
+    test('should write merged cells after sheetData', async () => {
+      const chunks: string[] = [];
+      for await (const chunk of writeSheetXml(async function* () {
+        yield { cells: [{ value: 'Title' }] };
+      }(), { mergedCells: ['A1:C1', 'A2:A3'] })) {
+        chunks.push(chunk);
+      }
+      expect(chunks.join('')).toContain(
+        '</sheetData><mergeCells count="2"><mergeCell ref="A1:C1"/><mergeCell ref="A2:A3"/></mergeCells></worksheet>',
+      );
+    });
   });
 });
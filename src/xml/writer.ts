@@ -1,21 +1,29 @@
 // noinspection HtmlUnknownAttribute,HtmlDeprecatedAttribute
 // noinspection HtmlUnknownAttribute
-import type { ColumnWidthDefinition, SheetColumnWidthOptions, RowHeightDefinition } from '@xlsx/types';
-import { getCellReference } from '@utils/cell-reference';
+import type { ColumnWidthDefinition, ConditionalFormatDefinition, DataValidationDefinition, SheetColumnWidthOptions, RowHeightDefinition, SheetViewDefinition, TableDefinition } from '@xlsx/types';
+import type { DateSerialOptions } from '@sheet/cell';
+import { getCellReference, getRangeReference, parseRangeReference } from '@utils/cell-reference';
 import { ColumnWidthTracker } from '@utils/column-widths';
+import { DEFAULT_DATE_FORMAT_CODE, DEFAULT_DATE_TIME_FORMAT_CODE, DEFAULT_DURATION_FORMAT_CODE } from '@utils/format-codes';
 import { escapeXml } from '@utils/xml';
-import type { Row, Cell, Style } from '../types';
+import type { Row, Cell, RichTextRun, Style } from '../types';
 import { resolveCell } from './cell-resolver';
+import { generateConditionalFormatting } from './conditional-formats';
+import { generateDataValidations } from './data-validations';
+import { SheetFormulaWriter } from './formulas';
+import { type CellHyperlink, generateHyperlinks, validateHyperlink } from './hyperlinks';
+import { serializeRichText, validateRichText } from './rich-text';
+import { getHeaderNames, writeTableHeaderNames } from './table-headers';
 
 /**
  * Options for writing sheet XML
  */
 export interface WriteSheetXmlOptions {
   /**
-   * Function to get shared string index for a given string.
+   * Function to get shared string index for a given string or rich text.
    * If provided, strings will be stored in shared strings table.
    */
-  getStringIndex?: (str: string) => number;
+  getStringIndex?: (str: string | RichTextRun[]) => number;
   /**
    * Function to get style index for a given style.
    * If provided, styles will be applied to cells.
@@ -33,6 +41,84 @@ export interface WriteSheetXmlOptions {
    * Row height definitions for specific rows/ranges
    */
   rowHeights?: RowHeightDefinition[];
+  /**
+   * Write vertically repeated formulas as shared formulas
+   * @default false
+   */
+  shareFormulas?: boolean;
+  /**
+   * Called when a dynamic array formula is written, so the caller can add xl/metadata.xml.
+   * If not provided, dynamic array formulas are written as legacy array formulas.
+   */
+  onDynamicArrayFormula?: () => void;
+  /**
+   * Merged cell ranges in A1 notation (e.g., "A1:D1"), written after sheetData
+   */
+  mergedCells?: string[];
+  /**
+   * Sheet view settings (frozen panes, zoom, gridlines, selection)
+   */
+  view?: SheetViewDefinition;
+  /**
+   * AutoFilter range in A1 notation, or true to filter from the first written row
+   * over all written columns (resolved once all rows are written)
+   */
+  autoFilter?: string | true;
+  /**
+   * Called with the resolved autoFilter range, so the caller can add the
+   * _xlnm._FilterDatabase defined name to workbook.xml
+   */
+  onAutoFilter?: (range: string) => void;
+  /**
+   * Tables on the sheet, written as tableParts that point at the given relationship IDs.
+   * Ranges are resolved once all rows are written (see TableDefinition.range).
+   */
+  tables?: { definition: TableDefinition; relationshipId: string }[];
+  /**
+   * Called for each table with its resolved range and the text of its header cells,
+   * so the caller can write the table part
+   */
+  onTable?: (index: number, table: { range: string; headerNames: string[] }) => void;
+  /**
+   * Conditional formats, written after sheetData in priority order
+   */
+  conditionalFormats?: ConditionalFormatDefinition[];
+  /**
+   * Function to get the differential style (dxf) index of the style of a conditional format.
+   * Required when conditionalFormats has cellIs or expression rules.
+   */
+  getDifferentialStyleIndex?: (style: Style) => number;
+  /**
+   * Data validation rules, written after sheetData
+   */
+  dataValidations?: DataValidationDefinition[];
+  /**
+   * Function to get the relationship ID of an external hyperlink target, so the caller can
+   * write it to the sheet's relationships. Required when a cell has a hyperlink with a url.
+   */
+  getHyperlinkRelationshipId?: (url: string) => string;
+  /**
+   * Relationship ID of the drawing that holds the sheet's pictures
+   */
+  drawingRelationshipId?: string;
+  /**
+   * Relationship ID of the legacy VML drawing that displays the sheet's comments
+   */
+  legacyDrawingRelationshipId?: string;
+  /**
+   * Time zone and date system of the serial numbers written for Date values
+   * @default { timezone: 'local', date1904: false }
+   */
+  dates?: DateSerialOptions;
+}
+
+/**
+ * Rows and columns written to a sheet, tracked while rows stream through
+ */
+interface UsedRange {
+  firstRow: number; // 1-based, 0 while no row has been written
+  lastRow: number; // 1-based
+  lastColumn: number; // 0-based, -1 while no cell has been written
 }
 
 /**
@@ -40,10 +126,10 @@ export interface WriteSheetXmlOptions {
  */
 export interface SerializeRowOptions {
   /**
-   * Function to get shared string index for a given string.
+   * Function to get shared string index for a given string or rich text.
    * If provided, strings will be stored in shared strings table.
    */
-  getStringIndex?: (str: string) => number;
+  getStringIndex?: (str: string | RichTextRun[]) => number;
   /**
    * Function to get style index for a given style.
    * If provided, styles will be applied to cells.
@@ -65,6 +151,27 @@ export interface SerializeRowOptions {
    * Used for auto-inferring row indices when row.rowIndex is undefined.
    */
   rowIndex?: number;
+  /**
+   * Formula writer for shared and dynamic array formulas.
+   * If not provided, formulas are written individually.
+   */
+  formulaWriter?: SheetFormulaWriter;
+  /**
+   * Time zone and date system of the serial numbers written for Date values
+   * @default { timezone: 'local', date1904: false }
+   */
+  dates?: DateSerialOptions;
+}
+
+/**
+ * Adds a default number format to the style of a date or duration cell
+ * An explicit numberFormat on the style takes precedence
+ */
+function withDefaultNumberFormat(style: Style | undefined, numberFormat: string): Style {
+  if (style?.numberFormat !== undefined) {
+    return style;
+  }
+  return { ...style, numberFormat };
 }
 
 /**
@@ -74,25 +181,40 @@ export interface SerializeRowOptions {
  * @param colIndex - Column index (0-based: 0 = A, 1 = B, etc.)
  * @param getStringIndex - Optional function to get shared string index
  * @param getStyleIndex - Optional function to get style index
+ * @param formulaWriter - Optional formula writer for shared and dynamic array formulas
+ * @param dates - Optional time zone and date system of the serial numbers written for Date values
  * @returns XML string for the cell
  */
 export function serializeCell(
   cell: Cell,
   rowIndex: number,
   colIndex: number,
-  getStringIndex?: (str: string) => number,
+  getStringIndex?: (str: string | RichTextRun[]) => number,
   getStyleIndex?: (style: Style) => number,
+  formulaWriter?: SheetFormulaWriter,
+  dates?: DateSerialOptions,
 ): string {
-  const resolved = resolveCell(cell);
+  const resolved = resolveCell(cell, dates);
   const cellRef = getCellReference(rowIndex, colIndex);
 
+  // Serial dates are written as plain numbers; the date number format makes Excel display them as dates.
+  // Without a style registry the t="d" marker is kept so the cell is still recognized as a date.
+  const isSerialDate = resolved.t === 'd' && typeof resolved.v === 'number' && getStyleIndex !== undefined;
+  let style = cell.style;
+  if (isSerialDate) {
+    style = withDefaultNumberFormat(style, Number.isInteger(resolved.v) ? DEFAULT_DATE_FORMAT_CODE : DEFAULT_DATE_TIME_FORMAT_CODE);
+  } else if (cell.type === 'duration' && getStyleIndex) {
+    // Durations are numbers too; the elapsed time format keeps hours counting past a day
+    style = withDefaultNumberFormat(style, DEFAULT_DURATION_FORMAT_CODE);
+  }
+
   // Determine style index
   // getStyleIndex returns the final cellXfs index (already offset, 0 is reserved for default)
   // Only emit s attribute when a style is present (Excel defaults to style 0 automatically)
   let styleAttr = '';
-  if (cell.style && getStyleIndex) {
+  if (style && getStyleIndex) {
     try {
-      const cellXfsIndex = getStyleIndex(cell.style);
+      const cellXfsIndex = getStyleIndex(style);
       styleAttr = ` s="${cellXfsIndex}"`;
     } catch (error) {
       // Provide context about which cell failed (cellRef already computed above)
@@ -103,20 +225,49 @@ export function serializeCell(
 
   const refAttr = ` r="${cellRef}"`;
 
+  if (resolved.f !== undefined) {
+    // Formula cell: <f> followed by the cached result, if any. String results are always stored inline (t="str").
+    const typeAttr = resolved.t !== 'n' ? ` t="${resolved.t}"` : '';
+    const valueXml = resolved.v !== '' || resolved.t === 'str' ? `<v>${escapeXml(String(resolved.v))}</v>` : '';
+    let formulaXml: string;
+    let cellAttrs = '';
+    if (cell.arrayFormula) {
+      if (!parseRangeReference(cell.arrayFormula.range)) {
+        throw new Error(`Invalid array formula range for cell ${cellRef}: ${cell.arrayFormula.range}`);
+      }
+      const writer = formulaWriter ?? new SheetFormulaWriter();
+      ({ formulaXml, cellAttrs } = writer.arrayFormulaXml(resolved.f, cell.arrayFormula.range, cell.arrayFormula.dynamic === true));
+    } else {
+      formulaXml = formulaWriter
+        ? formulaWriter.formulaXml(resolved.f, rowIndex, colIndex)
+        : `<f>${escapeXml(resolved.f)}</f>`;
+    }
+    return `<c${refAttr}${styleAttr}${typeAttr}${cellAttrs}>${formulaXml}${valueXml}</c>`;
+  }
+
+  // Rich text keeps its runs, with the font of each run on top of the cell's style
+  const richText = resolved.t === 's' && cell.richText && cell.richText.length > 0 ? cell.richText : undefined;
+  if (richText) {
+    validateRichText(richText, cellRef);
+  }
+
   if (resolved.t === 's' && getStringIndex) {
     // Use shared strings - reference by index
-    const index = getStringIndex(resolved.v as string);
+    const index = getStringIndex(richText ?? resolved.v as string);
     return `<c${refAttr}${styleAttr} t="s"><v>${index}</v></c>`;
   }
 
   if (resolved.t === 's' && !getStringIndex) {
     // Use inline strings - text stored directly in cell
+    if (richText) {
+      return `<c${refAttr}${styleAttr} t="inlineStr"><is>${serializeRichText(richText)}</is></c>`;
+    }
     const text = escapeXml(resolved.v as string);
     return `<c${refAttr}${styleAttr} t="inlineStr"><is><t>${text}</t></is></c>`;
   }
 
   // Handle non-string types (number, date, boolean, etc.)
-  const typeAttr = resolved.t !== 'n' ? ` t="${resolved.t}"` : '';
+  const typeAttr = resolved.t !== 'n' && !isSerialDate ? ` t="${resolved.t}"` : '';
   const value = String(resolved.v);
   return `<c${refAttr}${styleAttr}${typeAttr}><v>${value}</v></c>`;
 }
@@ -162,7 +313,7 @@ export function serializeRow(
   row: Row,
   options?: SerializeRowOptions,
 ): string {
-  const { getStringIndex, getStyleIndex, widthTracker, rowHeight, rowIndex: inferredRowIndex } = options ?? {};
+  const { getStringIndex, getStyleIndex, widthTracker, rowHeight, rowIndex: inferredRowIndex, formulaWriter, dates } = options ?? {};
   const rowIndex = inferredRowIndex ?? row.rowIndex ?? 1;
   const rowIndexAttr = ` r="${rowIndex}"`;
 
@@ -197,7 +348,7 @@ export function serializeRow(
       if (widthTracker) {
         widthTracker.updateColumnWidth(colIndex, cell);
       }
-      return serializeCell(cell, rowIndex, colIndex, getStringIndex, getStyleIndex);
+      return serializeCell(cell, rowIndex, colIndex, getStringIndex, getStyleIndex, formulaWriter, dates);
     })
     .join('');
 
@@ -313,6 +464,186 @@ function generateSheetFormatPr(
   return `    <sheetFormatPr ${attrs.join(' ')}/>`;
 }
 
+/**
+ * Normalizes a cell or range reference for sheetView attributes (uppercase, no $ markers)
+ */
+function normalizeViewReference(ref: string): string {
+  return ref.replace(/\$/g, '').toUpperCase();
+}
+
+/**
+ * Generates sheetViews XML for panes, zoom, gridlines and selection
+ * Returns an empty string when the view only has default settings
+ */
+function generateSheetViews(view: SheetViewDefinition | undefined): string {
+  if (!view) {
+    return '';
+  }
+
+  const attrs: string[] = [];
+  if (view.showGridLines === false) {
+    attrs.push('showGridLines="0"');
+  }
+  if (view.showHeaders === false) {
+    attrs.push('showRowColHeaders="0"');
+  }
+  if (view.rightToLeft) {
+    attrs.push('rightToLeft="1"');
+  }
+  if (view.zoom !== undefined && view.zoom !== 100) {
+    attrs.push(`zoomScale="${view.zoom}" zoomScaleNormal="${view.zoom}"`);
+  }
+
+  // The active pane is the one that scrolls in both directions (bottom-right when split both ways)
+  let paneXml = '';
+  let activePane: string | undefined;
+  const frozenRows = view.frozenRows ?? 0;
+  const frozenColumns = view.frozenColumns ?? 0;
+  const xSplit = view.split?.xSplit ?? 0;
+  const ySplit = view.split?.ySplit ?? 0;
+  if (frozenRows > 0 || frozenColumns > 0) {
+    activePane = frozenRows > 0 && frozenColumns > 0 ? 'bottomRight' : frozenRows > 0 ? 'bottomLeft' : 'topRight';
+    const paneAttrs: string[] = [];
+    if (frozenColumns > 0) paneAttrs.push(`xSplit="${frozenColumns}"`);
+    if (frozenRows > 0) paneAttrs.push(`ySplit="${frozenRows}"`);
+    paneAttrs.push(`topLeftCell="${getCellReference(frozenRows + 1, frozenColumns)}"`);
+    paneXml = `<pane ${paneAttrs.join(' ')} activePane="${activePane}" state="frozen"/>`;
+  } else if (xSplit > 0 || ySplit > 0) {
+    activePane = xSplit > 0 && ySplit > 0 ? 'bottomRight' : ySplit > 0 ? 'bottomLeft' : 'topRight';
+    const paneAttrs: string[] = [];
+    if (xSplit > 0) paneAttrs.push(`xSplit="${xSplit}"`);
+    if (ySplit > 0) paneAttrs.push(`ySplit="${ySplit}"`);
+    if (view.split?.topLeftCell) paneAttrs.push(`topLeftCell="${escapeXml(normalizeViewReference(view.split.topLeftCell))}"`);
+    paneXml = `<pane ${paneAttrs.join(' ')} activePane="${activePane}"/>`;
+  }
+
+  let selectionXml = '';
+  if (view.activeCell || view.selection) {
+    const sqref = normalizeViewReference(view.selection?.trim() ?? view.activeCell!);
+    // Without an explicit active cell, the top-left cell of the first selected range is active
+    const activeCell = view.activeCell
+      ? normalizeViewReference(view.activeCell)
+      : sqref.split(/\s+/)[0]!.split(':')[0]!;
+    const paneAttr = activePane ? ` pane="${activePane}"` : '';
+    selectionXml = `<selection${paneAttr} activeCell="${escapeXml(activeCell)}" sqref="${escapeXml(sqref)}"/>`;
+  }
+
+  if (attrs.length === 0 && !paneXml && !selectionXml) {
+    return '';
+  }
+  attrs.push('workbookViewId="0"');
+  return `<sheetViews><sheetView ${attrs.join(' ')}>${paneXml}${selectionXml}</sheetView></sheetViews>`;
+}
+
+/**
+ * Extends the used range with a written row
+ */
+function trackUsedRange(usedRange: UsedRange, rowIndex: number, row: Row): void {
+  usedRange.firstRow = usedRange.firstRow === 0 ? rowIndex : Math.min(usedRange.firstRow, rowIndex);
+  usedRange.lastRow = Math.max(usedRange.lastRow, rowIndex);
+  usedRange.lastColumn = Math.max(usedRange.lastColumn, row.cells.length - 1);
+}
+
+/**
+ * Resolves the autoFilter range: explicit ranges are normalized,
+ * true covers the used range (header row first)
+ * @returns Range in A1 notation, or undefined when there is nothing to filter
+ */
+function resolveAutoFilterRange(autoFilter: string | true | undefined, usedRange: UsedRange): string | undefined {
+  if (autoFilter === undefined) {
+    return undefined;
+  }
+  if (autoFilter === true) {
+    if (usedRange.lastColumn < 0) {
+      return undefined;
+    }
+    return getRangeReference(usedRange.firstRow, 0, usedRange.lastRow, usedRange.lastColumn);
+  }
+  const range = parseRangeReference(autoFilter.toUpperCase());
+  if (!range) {
+    throw new Error(`Invalid autoFilter range: ${autoFilter}`);
+  }
+  return getRangeReference(range.start.rowIndex, range.start.colIndex, range.end.rowIndex, range.end.colIndex);
+}
+
+/**
+ * Resolves a table range: explicit ranges are normalized, otherwise the range starts at the
+ * first written row and covers all written rows and columns, with at least one data row
+ */
+function resolveTableRange(table: TableDefinition, usedRange: UsedRange): string {
+  if (table.range !== undefined) {
+    const range = parseRangeReference(table.range.toUpperCase());
+    if (!range) {
+      throw new Error(`Invalid table range: ${table.range}`);
+    }
+    return getRangeReference(range.start.rowIndex, range.start.colIndex, range.end.rowIndex, range.end.colIndex);
+  }
+  const firstRow = usedRange.firstRow === 0 ? 1 : usedRange.firstRow;
+  const minRows = table.totalsRow ? 3 : 2;
+  const lastRow = Math.max(usedRange.lastRow, firstRow + minRows - 1);
+  const lastColumn = Math.max(usedRange.lastColumn, (table.columns?.length ?? 0) - 1, 0);
+  return getRangeReference(firstRow, 0, lastRow, lastColumn);
+}
+
+/**
+ * Gets the text of the header cells of a table from the captured header rows
+ */
+function getTableHeaderNames(range: string, headerRows: Map<number, Row['cells']>): string[] {
+  const bounds = parseRangeReference(range)!;
+  const cells = headerRows.get(bounds.start.rowIndex) ?? [];
+  return getHeaderNames(cells, bounds.start.rowIndex, bounds.start.colIndex, bounds.end.colIndex);
+}
+
+/**
+ * Generates the end of the worksheet: closes sheetData and adds the elements that follow it
+ */
+function generateSheetEnd(
+  options: WriteSheetXmlOptions | undefined,
+  usedRange: UsedRange,
+  headerRows: Map<number, Row['cells']>,
+  hyperlinks: CellHyperlink[],
+): string {
+  let xml = '</sheetData>';
+  const autoFilterRange = resolveAutoFilterRange(options?.autoFilter, usedRange);
+  if (autoFilterRange) {
+    options?.onAutoFilter?.(autoFilterRange);
+    xml += `<autoFilter ref="${autoFilterRange}"/>`;
+  }
+  if (options?.mergedCells && options.mergedCells.length > 0) {
+    const mergeCells = options.mergedCells.map((ref) => `<mergeCell ref="${escapeXml(ref)}"/>`).join('');
+    xml += `<mergeCells count="${options.mergedCells.length}">${mergeCells}</mergeCells>`;
+  }
+  xml += generateConditionalFormatting(options?.conditionalFormats, (style) => {
+    if (!options?.getDifferentialStyleIndex) {
+      throw new Error('getDifferentialStyleIndex is required for conditional formats with a style');
+    }
+    return options.getDifferentialStyleIndex(style);
+  });
+  xml += generateDataValidations(options?.dataValidations, options?.dates);
+  xml += generateHyperlinks(hyperlinks, (url) => {
+    if (!options?.getHyperlinkRelationshipId) {
+      throw new Error('getHyperlinkRelationshipId is required for hyperlinks with a url');
+    }
+    return options.getHyperlinkRelationshipId(url);
+  });
+  if (options?.drawingRelationshipId) {
+    xml += `<drawing r:id="${escapeXml(options.drawingRelationshipId)}"/>`;
+  }
+  if (options?.legacyDrawingRelationshipId) {
+    xml += `<legacyDrawing r:id="${escapeXml(options.legacyDrawingRelationshipId)}"/>`;
+  }
+  const tables = options?.tables ?? [];
+  if (tables.length > 0) {
+    tables.forEach(({ definition }, index) => {
+      const range = resolveTableRange(definition, usedRange);
+      options?.onTable?.(index, { range, headerNames: getTableHeaderNames(range, headerRows) });
+    });
+    const tableParts = tables.map(({ relationshipId }) => `<tablePart r:id="${escapeXml(relationshipId)}"/>`).join('');
+    xml += `<tableParts count="${tables.length}">${tableParts}</tableParts>`;
+  }
+  return `${xml}</worksheet>`;
+}
+
 /**
  * Writes sheet XML from an async iterable of rows
  *
@@ -332,13 +663,80 @@ export async function* writeSheetXml(
   rows: AsyncIterable<Row>,
   options?: WriteSheetXmlOptions,
 ): AsyncIterable<string> {
-  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">';
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">';
+
+  // sheetViews precedes sheetFormatPr, cols and sheetData
+  const sheetViewsXml = generateSheetViews(options?.view);
+  if (sheetViewsXml) {
+    yield sheetViewsXml;
+  }
 
   const getStringIndex = options?.getStringIndex;
   const getStyleIndex = options?.getStyleIndex;
   const columnWidthOptions = options?.columnWidths;
   const defaultRowHeight = options?.defaultRowHeight;
   const rowHeights = options?.rowHeights;
+  const dates = options?.dates;
+  // Shared formula groups may hold back rows until the group's range is known
+  const formulaWriter = new SheetFormulaWriter({
+    shareFormulas: options?.shareFormulas,
+    onDynamicArrayFormula: options?.onDynamicArrayFormula,
+  });
+
+  // Rows and columns written, for ranges resolved after streaming (e.g., autoFilter)
+  const usedRange: UsedRange = { firstRow: 0, lastRow: 0, lastColumn: -1 };
+  // Header rows of tables, captured while streaming to name the table columns.
+  // Tables without an explicit range use the first written row.
+  const headerRows = new Map<number, Row['cells']>();
+  const tableHeaderRows = new Set<number>();
+  let hasTableWithoutRange = false;
+  const tableHeaders = (options?.tables ?? []).map(({ definition }) => {
+    const range = definition.range !== undefined ? parseRangeReference(definition.range.toUpperCase()) : null;
+    if (range) {
+      tableHeaderRows.add(range.start.rowIndex);
+    } else {
+      hasTableWithoutRange = true;
+    }
+    return { definition, range };
+  });
+  // Hyperlinks are written after sheetData, in the order of their cells
+  const hyperlinks: CellHyperlink[] = [];
+  // Tracks a row before it is serialized
+  // @returns The row to serialize, with the resolved column names in table header cells
+  const trackRow = (rowIndex: number, row: Row): Row => {
+    const previousFirstRow = usedRange.firstRow;
+    trackUsedRange(usedRange, rowIndex, row);
+    let cells = row.cells;
+    for (const { definition, range } of tableHeaders) {
+      if (range && range.start.rowIndex === rowIndex) {
+        cells = writeTableHeaderNames(definition, cells, rowIndex, range.start.colIndex, range.end.colIndex);
+      } else if (!range && usedRange.firstRow === rowIndex) {
+        const lastColumn = Math.max(cells.length - 1, (definition.columns?.length ?? 0) - 1, 0);
+        cells = writeTableHeaderNames(definition, cells, rowIndex, 0, lastColumn);
+      }
+    }
+    if (cells !== row.cells) {
+      row = { ...row, cells };
+      usedRange.lastColumn = Math.max(usedRange.lastColumn, cells.length - 1);
+    }
+    if (hasTableWithoutRange && usedRange.firstRow !== previousFirstRow) {
+      if (!tableHeaderRows.has(previousFirstRow)) {
+        headerRows.delete(previousFirstRow);
+      }
+      headerRows.set(rowIndex, cells);
+    }
+    if (tableHeaderRows.has(rowIndex)) {
+      headerRows.set(rowIndex, cells);
+    }
+    cells.forEach((cell, colIndex) => {
+      if (cell?.hyperlink) {
+        const ref = getCellReference(rowIndex, colIndex);
+        validateHyperlink(cell.hyperlink, ref);
+        hyperlinks.push({ ref, hyperlink: cell.hyperlink });
+      }
+    });
+    return row;
+  };
 
   // Check if we need per-column width definitions (cols XML)
   // A global defaultColumnWidth only needs sheetFormatPr, not cols XML
@@ -365,14 +763,18 @@ export async function* writeSheetXml(
     for await (const row of rows) {
       // Auto-assign row index if not provided, based on order
       const rowIndex = row.rowIndex ?? currentRowNumber;
+      const trackedRow = trackRow(rowIndex, row);
       const resolvedHeight = resolveRowHeight(rowIndex, row.height, rowHeights);
-      yield serializeRow(row, {
+      const rowXml = serializeRow(trackedRow, {
         getStringIndex,
         getStyleIndex,
         widthTracker,
         rowHeight: resolvedHeight,
         rowIndex,
+        formulaWriter,
+        dates,
       });
+      yield* formulaWriter.addRow(rowIndex, rowXml);
       // Increment for next row (only if rowIndex wasn't explicitly set)
       if (row.rowIndex === undefined) {
         currentRowNumber++;
@@ -382,7 +784,8 @@ export async function* writeSheetXml(
       }
     }
 
-    yield '</sheetData></worksheet>';
+    yield* formulaWriter.finish();
+    yield generateSheetEnd(options, usedRange, headerRows, hyperlinks);
     return;
   }
 
@@ -435,14 +838,18 @@ export async function* writeSheetXml(
   for (const row of allRows) {
     // Auto-assign row index if not provided, based on order
     const rowIndex = row.rowIndex ?? currentRowNumber;
+    const trackedRow = trackRow(rowIndex, row);
     const resolvedHeight = resolveRowHeight(rowIndex, row.height, rowHeights);
-    yield serializeRow(row, {
+    const rowXml = serializeRow(trackedRow, {
       getStringIndex,
       getStyleIndex,
       widthTracker,
       rowHeight: resolvedHeight,
       rowIndex,
+      formulaWriter,
+      dates,
     });
+    yield* formulaWriter.addRow(rowIndex, rowXml);
     // Increment for next row (only if rowIndex wasn't explicitly set)
     if (row.rowIndex === undefined) {
       currentRowNumber++;
@@ -452,5 +859,6 @@ export async function* writeSheetXml(
     }
   }
 
-  yield '</sheetData></worksheet>';
+  yield* formulaWriter.finish();
+  yield generateSheetEnd(options, usedRange, headerRows, hyperlinks);
 }
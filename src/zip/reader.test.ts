@@ -1,5 +1,7 @@
-import { describe, test, expect } from '@tests/framework';
-import { readZipEntry, openZip } from './reader';
+import { writeFile } from 'fs/promises';
+import { afterEach, describe, test, expect } from '@tests/framework';
+import { cleanupTestFiles } from '@tests/helpers';
+import { readZipEntry, openZip, openZipFile } from './reader';
 import { createZipWriter, writeZipEntry, endZipWriter } from './writer';
 
 describe('ZIP Reader', () => {
@@ -106,4 +108,53 @@ describe('ZIP Reader', () => {
       expect(totalLength).toBe(10000);
     }
   });
+
+  describe('openZipFile', () => {
+    const testFile = 'test-zip-reader.zip';
+
+    afterEach(async () => {
+      await cleanupTestFiles(testFile);
+    });
+
+    test('should read entries from a file on disk', async () => {
+      const zipWriter = createZipWriter();
+      await writeZipEntry(zipWriter, 'first.txt', async function* () {
+        yield new TextEncoder().encode('First');
+      }());
+      await writeZipEntry(zipWriter, 'second.txt', async function* () {
+        yield new TextEncoder().encode('Second');
+      }());
+      await writeFile(testFile, await endZipWriter(zipWriter));
+
+      const zipFile = await openZipFile(testFile);
+      try {
+        expect(zipFile.entries.map((e) => e.fileName)).toEqual(['first.txt', 'second.txt']);
+
+        // Entries can be read in any order, and more than once
+        for (const name of ['second.txt', 'first.txt', 'second.txt']) {
+          const entry = zipFile.entries.find((e) => e.fileName === name);
+          expect(entry).toBeDefined();
+          if (entry) {
+            const chunks: Uint8Array[] = [];
+            for await (const chunk of readZipEntry(entry, zipFile.zipFile)) {
+              chunks.push(chunk);
+            }
+            const text = new TextDecoder().decode(Buffer.concat(chunks.map((c) => Buffer.from(c))));
+            expect(text).toBe(name === 'first.txt' ? 'First' : 'Second');
+          }
+        }
+      } finally {
+        zipFile.zipFile.close();
+      }
+    });
+
+    test('should reject when the file does not exist', async () => {
+      await expect(openZipFile('does-not-exist.zip')).rejects.toThrow();
+    });
+
+    test('should reject when the file is not a ZIP archive', async () => {
+      await writeFile(testFile, 'not a zip file');
+      await expect(openZipFile(testFile)).rejects.toThrow();
+    });
+  });
 });
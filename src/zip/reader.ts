@@ -1,6 +1,6 @@
 import { Readable } from 'stream';
 import * as yauzl from 'yauzl';
-import { nodeStreamToBytes } from '../adapters/node';
+import { nodeStreamToBytes } from '../adapters/common';
 
 export type ZipEntry = {
   fileName: string;
@@ -26,27 +26,60 @@ export function openZip(buffer: Buffer): Promise<ZipFile> {
         reject(new Error('Failed to open ZIP file'));
         return;
       }
+      collectEntries(zipfile).then(resolve, reject);
+    });
+  });
+}
 
-      const entries: ZipEntry[] = [];
-
-      zipfile.on('entry', (entry: yauzl.Entry) => {
-        entries.push({
-          fileName: entry.fileName,
-          entry,
-        });
-        zipfile.readEntry();
+/**
+ * Opens a ZIP file from disk using random access reads
+ * Only the central directory is read up front; entry data is read from the file descriptor
+ * on demand, so memory use is independent of the archive size.
+ * The file descriptor stays open until zipFile.close() is called.
+ */
+export function openZipFile(filePath: string): Promise<ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true, autoClose: false }, (err, zipfile) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      if (!zipfile) {
+        reject(new Error(`Failed to open ZIP file: ${filePath}`));
+        return;
+      }
+      collectEntries(zipfile).then(resolve, (error) => {
+        zipfile.close();
+        reject(error);
       });
+    });
+  });
+}
 
-      zipfile.on('end', () => {
-        resolve({
-          zipFile: zipfile,
-          entries,
-        });
-      });
+/**
+ * Reads the central directory of an opened ZIP file
+ */
+function collectEntries(zipfile: yauzl.ZipFile): Promise<ZipFile> {
+  return new Promise((resolve, reject) => {
+    const entries: ZipEntry[] = [];
 
-      zipfile.on('error', reject);
+    zipfile.on('entry', (entry: yauzl.Entry) => {
+      entries.push({
+        fileName: entry.fileName,
+        entry,
+      });
       zipfile.readEntry();
     });
+
+    zipfile.on('end', () => {
+      resolve({
+        zipFile: zipfile,
+        entries,
+      });
+    });
+
+    zipfile.on('error', reject);
+    zipfile.readEntry();
   });
 }
 
@@ -1,5 +1,8 @@
+import { Writable } from 'stream';
 import { describe, test, expect } from '@tests/framework';
-import { writeZipEntry, createZipWriter, endZipWriter } from './writer';
+import { openZip, readZipEntry } from './reader';
+import { writeZipEntry, createZipWriter, endZipWriter, pipeZipWriter } from './writer';
+import { bytesToString } from '../adapters';
 
 describe('ZIP Writer', () => {
   test('should write ZIP entry from AsyncIterable<Uint8Array>', async () => {
@@ -57,4 +60,34 @@ describe('ZIP Writer', () => {
     expect(result).toBeInstanceOf(Buffer);
     expect(result.length).toBeGreaterThan(0);
   });
+
+  test('should stream entries into a piped destination', async () => {
+    const received: Buffer[] = [];
+    const destination = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        received.push(chunk);
+        callback();
+      },
+    });
+
+    const zipWriter = createZipWriter();
+    const output = pipeZipWriter(zipWriter, destination);
+
+    // Several MB of data - would stall if the output was not drained while writing
+    await writeZipEntry(zipWriter, 'big.txt', async function* () {
+      for (let i = 0; i < 200; i++) {
+        yield new TextEncoder().encode(`line ${i} `.repeat(2000));
+      }
+    }());
+    await writeZipEntry(zipWriter, 'small.txt', async function* () {
+      yield new TextEncoder().encode('done');
+    }());
+    zipWriter.end();
+    await output;
+
+    const zipFile = await openZip(Buffer.concat(received));
+    const small = zipFile.entries.find((e) => e.fileName === 'small.txt')!;
+    expect(await bytesToString(readZipEntry(small, zipFile.zipFile))).toBe('done');
+    zipFile.zipFile.close();
+  });
 });
@@ -1,4 +1,12 @@
+import { Readable, type Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
 import * as yazl from 'yazl';
+import { nodeStreamToBytes } from '../adapters/common';
+
+/**
+ * Entry streams still being read into each ZIP writer, destroyed when the writer is aborted
+ */
+const activeEntryStreams = new WeakMap<yazl.ZipFile, Set<Readable>>();
 
 /**
  * Creates a new ZIP writer
@@ -9,29 +17,62 @@ export function createZipWriter(): yazl.ZipFile {
 
 /**
  * Writes a ZIP entry from an AsyncIterable<Uint8Array>
+ *
+ * Chunks are streamed into the entry as they are produced; nothing is buffered here.
+ * The returned promise resolves once the entry data has been fully consumed by the archive.
+ * The ZIP output must be drained while entries are written (see pipeZipWriter), otherwise
+ * entries larger than the internal stream buffers will stall.
  */
 export async function writeZipEntry(
   zipFile: yazl.ZipFile,
   name: string,
   bytes: AsyncIterable<Uint8Array>,
 ): Promise<void> {
-  // Collect all chunks into a single buffer
-  const chunks: Uint8Array[] = [];
-  for await (const chunk of bytes) {
-    chunks.push(chunk);
+  const stream = Readable.from(bytes, { objectMode: false });
+  let streams = activeEntryStreams.get(zipFile);
+  if (!streams) {
+    streams = new Set();
+    activeEntryStreams.set(zipFile, streams);
   }
-
-  // Combine chunks into a single buffer
-  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-  const buffer = Buffer.allocUnsafe(totalLength);
-  let offset = 0;
-  for (const chunk of chunks) {
-    buffer.set(chunk, offset);
-    offset += chunk.length;
+  streams.add(stream);
+  try {
+    zipFile.addReadStream(stream, name);
+    await finished(stream);
+  } finally {
+    streams.delete(stream);
   }
+}
+
+/**
+ * Pipes the ZIP output into a writable destination
+ * Must be called before writing entries so the archive is drained as it is produced.
+ * Resolves once the archive has been ended and fully flushed to the destination.
+ */
+export function pipeZipWriter(
+  zipFile: yazl.ZipFile,
+  destination: Writable,
+): Promise<void> {
+  return pipeline(zipFile.outputStream, destination);
+}
 
-  // Add buffer to ZIP
-  zipFile.addBuffer(buffer, name);
+/**
+ * Returns the ZIP output as AsyncIterable<Uint8Array>
+ * Like pipeZipWriter, iteration must start before large entries are written.
+ */
+export function zipOutputToBytes(zipFile: yazl.ZipFile): AsyncIterable<Uint8Array> {
+  return nodeStreamToBytes(zipFile.outputStream as Readable);
+}
+
+/**
+ * Aborts a ZIP writer whose output is being piped
+ * Destroys the output stream so any pending pipeZipWriter promise settles, and the entries
+ * being written so their sources are closed and pending writeZipEntry promises reject.
+ */
+export function abortZipWriter(zipFile: yazl.ZipFile, error?: Error): void {
+  (zipFile.outputStream as Readable).destroy(error);
+  for (const stream of activeEntryStreams.get(zipFile) ?? []) {
+    stream.destroy();
+  }
 }
 
 /**